@@ -0,0 +1,236 @@
+// mock/mpesa-server.mjs - Local stand-in for the M-Pesa STK push flow
+//
+// Serves the deposit endpoints the frontend calls, then plays the part of Safaricom by
+// POSTing a Daraja-shaped callback to itself after a short delay. Every other /api
+// request is forwarded to the real backend so the rest of the app keeps working.
+//
+//   npm run mock:mpesa
+//   VITE_API_BASE_URL=http://localhost:4010 npm run dev
+//
+// The outcome is picked from the last digit of the amount:
+//   ...1 → failed (insufficient funds)   ...2 → cancelled by user
+//   ...3 → timeout (no response)         anything else → completed
+//
+// Or settle a pending push by hand:
+//   curl -X POST localhost:4010/mock/stk/<checkout_request_id>/cancelled
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_MPESA_PORT || 4010);
+const UPSTREAM = process.env.MOCK_UPSTREAM || 'https://pesaprime-end-w4mx.onrender.com';
+const CALLBACK_DELAY = Number(process.env.MOCK_MPESA_DELAY || 8000);
+const PROMPT_EXPIRY = 60; // seconds, matches Daraja's STK timeout
+
+// Daraja ResultCodes for each outcome
+const RESULT_CODES = {
+  completed: { code: 0, desc: 'The service request is processed successfully.' },
+  failed: { code: 1, desc: 'The balance is insufficient for the transaction.' },
+  cancelled: { code: 1032, desc: 'Request cancelled by user.' },
+  timeout: { code: 1037, desc: 'DS timeout user cannot be reached.' },
+};
+
+// The mock never touches the real wallet, so status responses carry no new_balance
+// and the page falls back to re-fetching the balance from the backend.
+const pushes = new Map(); // checkout_request_id → push record
+
+const outcomeFor = (amount) => {
+  const lastDigit = Math.round(amount) % 10;
+  return { 1: 'failed', 2: 'cancelled', 3: 'timeout' }[lastDigit] || 'completed';
+};
+
+const statusFromResultCode = (code) => {
+  if (code === 0) return 'completed';
+  if (code === 1032) return 'cancelled';
+  if (code === 1037) return 'timeout';
+  return 'failed';
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const readJson = async (req) => {
+  const raw = await readBody(req);
+  try {
+    return raw.length ? JSON.parse(raw.toString()) : {};
+  } catch {
+    return null;
+  }
+};
+
+const toStatusResponse = (push) => ({
+  checkout_request_id: push.id,
+  status: push.status,
+  amount: push.amount,
+  phone_number: push.phone_number,
+  result_code: push.result_code,
+  result_description: push.result_description,
+  mpesa_receipt: push.mpesa_receipt,
+  updated_at: push.updated_at,
+});
+
+// What Safaricom sends to the CallBackURL registered with the STK push
+const buildCallback = (push, outcome) => {
+  const { code, desc } = RESULT_CODES[outcome];
+  const stkCallback = {
+    MerchantRequestID: push.merchant_request_id,
+    CheckoutRequestID: push.id,
+    ResultCode: code,
+    ResultDesc: desc,
+  };
+  if (code === 0) {
+    stkCallback.CallbackMetadata = {
+      Item: [
+        { Name: 'Amount', Value: push.amount },
+        { Name: 'MpesaReceiptNumber', Value: `MOCK${randomUUID().slice(0, 6).toUpperCase()}` },
+        { Name: 'TransactionDate', Value: Number(new Date().toISOString().replace(/\D/g, '').slice(0, 14)) },
+        { Name: 'PhoneNumber', Value: Number(push.phone_number) },
+      ],
+    };
+  }
+  return { Body: { stkCallback } };
+};
+
+const deliverCallback = async (push, outcome) => {
+  try {
+    await fetch(`http://localhost:${PORT}/api/payments/mpesa/callback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildCallback(push, outcome)),
+    });
+  } catch (error) {
+    console.error('[mock-mpesa] callback delivery failed:', error);
+  }
+};
+
+const applyCallback = (payload) => {
+  const callback = payload?.Body?.stkCallback;
+  const push = callback && pushes.get(callback.CheckoutRequestID);
+  if (!push || push.status !== 'pending') return false;
+
+  push.status = statusFromResultCode(callback.ResultCode);
+  push.result_code = callback.ResultCode;
+  push.result_description = callback.ResultDesc;
+  push.updated_at = new Date().toISOString();
+
+  if (push.status === 'completed') {
+    const items = callback.CallbackMetadata?.Item || [];
+    push.mpesa_receipt = items.find((item) => item.Name === 'MpesaReceiptNumber')?.Value;
+  }
+
+  console.log(`[mock-mpesa] ${push.id} → ${push.status} (${push.result_description})`);
+  return true;
+};
+
+const handleStkPush = async (req, res) => {
+  const body = await readJson(req);
+  const amount = Number(body?.amount);
+  if (!body || !body.phone_number || !(amount > 0)) {
+    return sendJson(res, 422, { detail: 'amount and phone_number are required' });
+  }
+
+  const push = {
+    id: `ws_CO_${Date.now()}${Math.floor(Math.random() * 1000)}`,
+    merchant_request_id: randomUUID(),
+    amount,
+    phone_number: String(body.phone_number),
+    status: 'pending',
+    updated_at: new Date().toISOString(),
+  };
+  pushes.set(push.id, push);
+
+  const outcome = outcomeFor(amount);
+  console.log(`[mock-mpesa] STK push ${push.id} for ${amount} to ${push.phone_number}, will be ${outcome}`);
+
+  // A timed-out prompt never gets a quick callback; Daraja reports it once the prompt expires
+  const delay = outcome === 'timeout' ? PROMPT_EXPIRY * 1000 : CALLBACK_DELAY;
+  setTimeout(() => deliverCallback(push, outcome), delay);
+
+  sendJson(res, 200, {
+    success: true,
+    message: 'Success. Request accepted for processing',
+    checkout_request_id: push.id,
+    status: 'pending',
+    expires_in: PROMPT_EXPIRY,
+  });
+};
+
+const forwardUpstream = async (req, res) => {
+  try {
+    const body = ['GET', 'HEAD'].includes(req.method) ? undefined : await readBody(req);
+    const headers = { ...req.headers };
+    delete headers.host;
+    const upstream = await fetch(`${UPSTREAM}${req.url}`, { method: req.method, headers, body });
+    const responseHeaders = Object.fromEntries(upstream.headers);
+    delete responseHeaders['content-encoding'];
+    delete responseHeaders['content-length'];
+    res.writeHead(upstream.status, { ...responseHeaders, 'Access-Control-Allow-Origin': '*' });
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    sendJson(res, 502, { detail: `Upstream request failed: ${error.message}` });
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+    });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && path === '/api/wallet/deposit/stk-push') {
+    return handleStkPush(req, res);
+  }
+
+  const statusMatch = path.match(/^\/api\/wallet\/deposit\/status\/([^/]+)$/);
+  if (req.method === 'GET' && statusMatch) {
+    const push = pushes.get(decodeURIComponent(statusMatch[1]));
+    return push
+      ? sendJson(res, 200, toStatusResponse(push))
+      : sendJson(res, 404, { detail: 'Unknown checkout request' });
+  }
+
+  if (req.method === 'POST' && path === '/api/payments/mpesa/callback') {
+    const payload = await readJson(req);
+    applyCallback(payload);
+    // Daraja only cares that the callback was accepted
+    return sendJson(res, 200, { ResultCode: 0, ResultDesc: 'Accepted' });
+  }
+
+  const manualMatch = path.match(/^\/mock\/stk\/([^/]+)\/(completed|failed|cancelled|timeout)$/);
+  if (req.method === 'POST' && manualMatch) {
+    const push = pushes.get(decodeURIComponent(manualMatch[1]));
+    if (!push) return sendJson(res, 404, { detail: 'Unknown checkout request' });
+    applyCallback(buildCallback(push, manualMatch[2]));
+    return sendJson(res, 200, toStatusResponse(push));
+  }
+
+  if (path.startsWith('/api/')) {
+    return forwardUpstream(req, res);
+  }
+
+  sendJson(res, 404, { detail: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-mpesa] listening on http://localhost:${PORT} (forwarding the rest to ${UPSTREAM})`);
+});
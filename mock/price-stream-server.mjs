@@ -0,0 +1,417 @@
+// mock/price-stream-server.mjs - Local stand-in for the price stream
+//
+// Serves /api/stream over all three transports the frontend knows (WebSocket, SSE and long
+// polling) with random-walk ticks, and pushes the signed-in user's P&L as the backend
+// reports it. Every other /api request is forwarded to the real backend.
+//
+//   npm run mock:stream
+//   VITE_API_BASE_URL=http://localhost:4020 npm run dev
+//
+// Exercise the fallbacks and reconnects:
+//   MOCK_STREAM_TRANSPORTS=sse,polling npm run mock:stream   (refuse WebSocket)
+//   curl -X POST localhost:4020/mock/stream/drop             (cut every open connection)
+//
+// Chain with the M-Pesa mock by pointing MOCK_UPSTREAM at it.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_STREAM_PORT || 4020);
+const UPSTREAM = process.env.MOCK_UPSTREAM || 'https://pesaprime-end-w4mx.onrender.com';
+const TRANSPORTS = (process.env.MOCK_STREAM_TRANSPORTS || 'websocket,sse,polling').split(',');
+const TICK_INTERVAL = Number(process.env.MOCK_STREAM_TICK || 1000);
+const PNL_INTERVAL = 10000;
+const POLL_HOLD = 25000;
+const LOG_SIZE = 2000;
+
+// Starting prices; anything else asked for starts at 100
+const OPENING_PRICES = {
+  BTC: 92036, ETH: 3016.97, BNB: 321.78, SOL: 107.89, XRP: 0.6234, ADA: 0.4821,
+  DOGE: 0.0876, DOT: 7.234, LTC: 72.89, LINK: 15.67, AVAX: 42.15, MATIC: 0.95,
+  EURUSD: 1.1591, GBPUSD: 1.2678, USDJPY: 148.25, USDCHF: 0.8689, AUDUSD: 0.6523,
+  USDCAD: 1.3521, NZDUSD: 0.6123, EURGBP: 0.8567, EURJPY: 160.89, GBPJPY: 188.34,
+  XAUUSD: 1987.45, WTIUSD: 78.45,
+  AAPL: 189.45, MSFT: 378.85, GOOGL: 138.45, AMZN: 154.75, TSLA: 245.6, META: 325.4,
+  NVDA: 485.2, NFLX: 485.6,
+};
+
+// symbol → { price, open }; the 24h change is measured against the price we started from
+const prices = new Map();
+
+const priceFor = (symbol) => {
+  if (!prices.has(symbol)) {
+    const price = OPENING_PRICES[symbol] ?? 100;
+    prices.set(symbol, { price, open: price });
+  }
+  return prices.get(symbol);
+};
+
+// Every message gets a sequence number; long polls use it as their cursor
+let sequence = 0;
+const log = []; // { seq, symbol?, token?, message }
+const connections = new Set(); // { symbols: Set, token, send(message), close() }
+const waiters = new Set(); // held long polls: { symbols, token, finish() }
+const recentPollSymbols = new Map(); // symbol → last time a poll asked for it
+
+const matches = (entry, symbols, token) =>
+  entry.symbol ? symbols.has(entry.symbol) : entry.token === token;
+
+const publish = (entry) => {
+  entry.seq = ++sequence;
+  log.push(entry);
+  if (log.length > LOG_SIZE) log.shift();
+
+  connections.forEach((connection) => {
+    if (matches(entry, connection.symbols, connection.token)) connection.send(entry.message);
+  });
+  waiters.forEach((waiter) => {
+    if (matches(entry, waiter.symbols, waiter.token)) waiter.finish();
+  });
+};
+
+// Only symbols someone is watching move, so the log isn't flooded with unwatched ticks
+const watchedSymbols = () => {
+  const watched = new Set();
+  connections.forEach((connection) => connection.symbols.forEach((symbol) => watched.add(symbol)));
+  recentPollSymbols.forEach((seenAt, symbol) => {
+    if (Date.now() - seenAt < POLL_HOLD * 2) watched.add(symbol);
+    else recentPollSymbols.delete(symbol);
+  });
+  return watched;
+};
+
+setInterval(() => {
+  watchedSymbols().forEach((symbol) => {
+    // Not every symbol trades every second
+    if (Math.random() < 0.4) return;
+    const state = priceFor(symbol);
+    const volatility = symbol.length === 6 ? 0.0002 : 0.001;
+    state.price *= 1 + (Math.random() - 0.5) * 2 * volatility;
+    publish({
+      symbol,
+      message: {
+        type: 'tick',
+        symbol,
+        price: Number(state.price.toPrecision(8)),
+        change_percent: Number((((state.price - state.open) / state.open) * 100).toFixed(3)),
+        timestamp: new Date().toISOString(),
+        source: 'Mock stream',
+      },
+    });
+  });
+}, TICK_INTERVAL);
+
+// ===============================
+// P&L
+// ===============================
+
+// token → { last: JSON string of the last P&L published, timer, users }
+const pnlWatchers = new Map();
+
+const refreshPnL = async (token) => {
+  const watcher = pnlWatchers.get(token);
+  if (!watcher) return;
+  try {
+    const response = await fetch(`${UPSTREAM}/api/portfolio/pnl`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) return;
+    const pnl = await response.json();
+    const serialized = JSON.stringify(pnl);
+    if (serialized !== watcher.last) {
+      watcher.last = serialized;
+      publish({ token, message: { type: 'pnl', ...pnl } });
+    }
+  } catch (error) {
+    console.error('[mock-stream] P&L fetch failed:', error.message);
+  }
+};
+
+// Reference counted: the upstream is polled for as long as any connection uses the token
+const watchPnL = (token) => {
+  if (!token) return () => {};
+  let watcher = pnlWatchers.get(token);
+  if (!watcher) {
+    watcher = { last: null, users: 0, timer: setInterval(() => refreshPnL(token), PNL_INTERVAL) };
+    pnlWatchers.set(token, watcher);
+    refreshPnL(token);
+  }
+  watcher.users++;
+  return () => {
+    watcher.users--;
+    if (watcher.users === 0) {
+      clearInterval(watcher.timer);
+      pnlWatchers.delete(token);
+    }
+  };
+};
+
+// ===============================
+// HTTP HELPERS
+// ===============================
+
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+};
+
+const parseSymbols = (value) => new Set((value || '').split(',').map((s) => s.trim()).filter(Boolean));
+
+const bearerToken = (req, url) =>
+  url.searchParams.get('token') || (req.headers.authorization || '').replace(/^Bearer /, '') || null;
+
+const forwardUpstream = async (req, res) => {
+  try {
+    const chunks = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = ['GET', 'HEAD'].includes(req.method) ? undefined : Buffer.concat(chunks);
+    const headers = { ...req.headers };
+    delete headers.host;
+    const upstream = await fetch(`${UPSTREAM}${req.url}`, { method: req.method, headers, body });
+    const responseHeaders = Object.fromEntries(upstream.headers);
+    delete responseHeaders['content-encoding'];
+    delete responseHeaders['content-length'];
+    res.writeHead(upstream.status, { ...responseHeaders, ...CORS_HEADERS });
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    sendJson(res, 502, { detail: `Upstream request failed: ${error.message}` });
+  }
+};
+
+// ===============================
+// SSE AND LONG POLLING
+// ===============================
+
+const handleSse = (req, res, url) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    ...CORS_HEADERS,
+  });
+  res.write(': connected\n\n');
+
+  const connection = {
+    symbols: parseSymbols(url.searchParams.get('symbols')),
+    token: bearerToken(req, url),
+    send: (message) => res.write(`data: ${JSON.stringify(message)}\n\n`),
+    close: () => res.destroy(),
+  };
+  const unwatch = watchPnL(connection.token);
+  connections.add(connection);
+  console.log(`[mock-stream] SSE client for ${[...connection.symbols].join(',') || 'P&L only'}`);
+
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    connections.delete(connection);
+    unwatch();
+  });
+};
+
+const handlePoll = (req, res, url) => {
+  const symbols = parseSymbols(url.searchParams.get('symbols'));
+  const token = bearerToken(req, url);
+  // Without a cursor the client only wants what happens from now on
+  const cursor = url.searchParams.has('cursor') ? Number(url.searchParams.get('cursor')) : sequence;
+  symbols.forEach((symbol) => recentPollSymbols.set(symbol, Date.now()));
+  const unwatch = watchPnL(token);
+
+  const pending = () => log.filter((entry) => entry.seq > cursor && matches(entry, symbols, token));
+
+  const waiter = {
+    symbols,
+    token,
+    finish: () => {
+      clearTimeout(waiter.timer);
+      waiters.delete(waiter);
+      unwatch();
+      const entries = pending();
+      // Ticks for the same symbol supersede each other; only the latest is worth sending
+      const latest = new Map();
+      entries.forEach((entry) => latest.set(entry.symbol || `pnl:${entry.token}`, entry.message));
+      sendJson(res, 200, { messages: [...latest.values()], cursor: String(sequence) });
+    },
+  };
+
+  if (pending().length > 0) return waiter.finish();
+  waiter.timer = setTimeout(waiter.finish, POLL_HOLD);
+  waiters.add(waiter);
+  req.on('close', () => {
+    if (waiters.delete(waiter)) {
+      clearTimeout(waiter.timer);
+      unwatch();
+    }
+  });
+};
+
+// ===============================
+// WEBSOCKET
+// ===============================
+// Just enough of RFC 6455 for JSON text messages: no extensions, no fragmentation.
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Returns [frame, bytesUsed], or null if the buffer doesn't hold a whole frame yet
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return [{ opcode, payload }, offset + length];
+};
+
+const handleUpgrade = (req, socket, url) => {
+  const key = req.headers['sec-websocket-key'];
+  if (url.pathname !== '/api/stream/ws' || !key || !TRANSPORTS.includes('websocket')) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n'
+      + 'Upgrade: websocket\r\n'
+      + 'Connection: Upgrade\r\n'
+      + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection = {
+    symbols: new Set(),
+    token: bearerToken(req, url),
+    send: (message) => socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message)))),
+    close: () => socket.destroy(),
+  };
+  const unwatch = watchPnL(connection.token);
+  connections.add(connection);
+  console.log('[mock-stream] WebSocket client connected');
+
+  let buffered = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    let decoded;
+    while ((decoded = decodeFrame(buffered))) {
+      const [frame, used] = decoded;
+      buffered = buffered.subarray(used);
+
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(0xa, frame.payload));
+        continue;
+      }
+      if (frame.opcode !== 0x1) continue;
+
+      try {
+        const { type, symbols = [] } = JSON.parse(frame.payload.toString());
+        symbols.forEach((symbol) => {
+          if (type === 'subscribe') connection.symbols.add(symbol);
+          if (type === 'unsubscribe') connection.symbols.delete(symbol);
+        });
+      } catch {
+        console.warn('[mock-stream] ignoring malformed client message');
+      }
+    }
+  });
+
+  const cleanup = () => {
+    if (connections.delete(connection)) unwatch();
+  };
+  socket.on('close', cleanup);
+  socket.on('error', cleanup);
+};
+
+// ===============================
+// SERVER
+// ===============================
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      ...CORS_HEADERS,
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+    });
+    return res.end();
+  }
+
+  if (req.method === 'GET' && path === '/api/stream/sse' && TRANSPORTS.includes('sse')) {
+    return handleSse(req, res, url);
+  }
+
+  if (req.method === 'GET' && path === '/api/stream/poll' && TRANSPORTS.includes('polling')) {
+    return handlePoll(req, res, url);
+  }
+
+  if (path.startsWith('/api/stream/')) {
+    return sendJson(res, 404, { detail: 'Transport disabled in this mock' });
+  }
+
+  if (req.method === 'POST' && path === '/mock/stream/drop') {
+    const count = connections.size;
+    connections.forEach((connection) => connection.close());
+    console.log(`[mock-stream] dropped ${count} connection(s)`);
+    return sendJson(res, 200, { dropped: count });
+  }
+
+  if (path.startsWith('/api/')) {
+    return forwardUpstream(req, res);
+  }
+
+  sendJson(res, 404, { detail: 'Not found' });
+});
+
+server.on('upgrade', (req, socket) => {
+  handleUpgrade(req, socket, new URL(req.url, `http://localhost:${PORT}`));
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `[mock-stream] listening on http://localhost:${PORT} via ${TRANSPORTS.join(', ')} (forwarding the rest to ${UPSTREAM})`
+  );
+});
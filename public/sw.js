@@ -0,0 +1,41 @@
+// public/sw.js - Service worker for price alert push notifications
+//
+// The server sends a JSON payload: { title, body, url?, tag? }. `tag` is the alert id, so a
+// repeat delivery replaces the notification instead of stacking a second one.
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil((async () => {
+    // The subscription promises a visible notification for every push, or the browser shows its
+    // own and may drop us. A focused tab has already toasted the alert, so keep this one quiet.
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const focused = windows.some((client) => client.focused);
+
+    await self.registration.showNotification(data.title || 'PesaPrime price alert', {
+      body: data.body || '',
+      icon: '/pesaprime.jpeg',
+      tag: data.tag,
+      silent: focused,
+      data: { url: data.url || '/profile#price-alerts' },
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+    if (existing) {
+      await existing.focus();
+      return existing.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
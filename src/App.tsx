@@ -1,6 +1,6 @@
 // App.tsx
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { AuthProvider, useAuth, type AuthRedirectState } from './contexts/AuthContext';
 import BaseLayout from './components/BaseLayout';
 import Home from './pages/Home';
 import Wallet from './pages/Wallet';
@@ -9,8 +9,15 @@ import Profile from './pages/Profile';
 import Deposit from './pages/Deposit';
 import Withdraw from './pages/Withdraw';
 import Bonus from './pages/Bonus';
+import Transactions from './pages/Transactions';
+import InvestmentDetail from './pages/InvestmentDetail';
 import AuthPage from './auth/signin';
+import SignupPage from './auth/signup';
+import ForgotPasswordPage from './auth/forgotpassword';
+import ResetPasswordPage from './auth/resetpassword';
 import { CurrencyProvider } from './contexts/CurrencyContext';
+import { PriceAlertsProvider } from './contexts/PriceAlertsContext';
+import { WatchlistProvider } from './contexts/WatchlistContext';
 import PrivacyPolicy from './pages/PrivacyPolicy';
 import TermsConditions from './pages/TermsConditions';
 import FAQs from './pages/FAQs';
@@ -35,12 +42,14 @@ const LoadingSpinner = () => (
 // Protected Route component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated, loading } = useAuth();
+  const location = useLocation();
   
   if (loading) {
     return <LoadingSpinner />;
   }
   
-  return isAuthenticated ? <>{children}</> : <Navigate to="/" replace />;
+  const redirectState: AuthRedirectState = { from: `${location.pathname}${location.search}` };
+  return isAuthenticated ? <>{children}</> : <Navigate to="/" replace state={redirectState} />;
 };
 
 // Public Route component (for auth pages when already authenticated)
@@ -61,6 +70,15 @@ function AppRoutes() {
       <Route path="/" element={
           <AuthPage />
       } />
+      <Route path="/signup" element={
+          <SignupPage />
+      } />
+      <Route path="/forgot-password" element={
+          <ForgotPasswordPage />
+      } />
+      <Route path="/reset-password" element={
+          <ResetPasswordPage />
+      } />
       
       {/* Protected routes */}
       <Route path="/home" element={
@@ -112,6 +130,20 @@ function AppRoutes() {
           </BaseLayout>
         </ProtectedRoute>
       } />
+      <Route path="/transactions" element={
+        <ProtectedRoute>
+          <BaseLayout>
+            <Transactions />
+          </BaseLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/investments/:id" element={
+        <ProtectedRoute>
+          <BaseLayout>
+            <InvestmentDetail />
+          </BaseLayout>
+        </ProtectedRoute>
+      } />
       <Route path="/trading/:pairId?" element={
         <ProtectedRoute>
           <BaseLayout>
@@ -166,7 +198,11 @@ function App() {
     <Router>
       <AuthProvider>
         <CurrencyProvider>
-          <AppRoutes />
+          <PriceAlertsProvider>
+            <WatchlistProvider>
+              <AppRoutes />
+            </WatchlistProvider>
+          </PriceAlertsProvider>
         </CurrencyProvider>
       </AuthProvider>
     </Router>
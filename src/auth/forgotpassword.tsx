@@ -0,0 +1,149 @@
+// auth/forgotpassword.tsx
+import { useState } from 'react';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
+import type { AuthRedirectState } from '../contexts/AuthContext';
+import { apiService, ApiErrorHandler, type PasswordResetChannel } from '../services/api';
+import { isValidEmail, normalizeMpesaPhone } from './validation';
+
+export interface PasswordResetState extends AuthRedirectState {
+  identifier?: string;
+  channel?: PasswordResetChannel;
+}
+
+const CHANNELS: { id: PasswordResetChannel; label: string }[] = [
+  { id: 'email', label: 'Email' },
+  { id: 'sms', label: 'SMS' },
+];
+
+const ForgotPasswordPage = () => {
+  const [channel, setChannel] = useState<PasswordResetChannel>('email');
+  const [identifier, setIdentifier] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const navigate = useNavigate();
+  const location = useLocation();
+  const redirectState = location.state as AuthRedirectState | null;
+
+  const switchChannel = (next: PasswordResetChannel) => {
+    setChannel(next);
+    setIdentifier('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    let target: string;
+    if (channel === 'email') {
+      if (!isValidEmail(identifier)) {
+        setError('Please enter a valid email address');
+        return;
+      }
+      target = identifier.trim().toLowerCase();
+    } else {
+      const phone = normalizeMpesaPhone(identifier);
+      if (!phone) {
+        setError('Enter the phone number on your account, e.g. 0712 345 678');
+        return;
+      }
+      target = phone;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiService.requestPasswordReset({ identifier: target, channel });
+      const state: PasswordResetState = { from: redirectState?.from, identifier: target, channel };
+      navigate('/reset-password', { state });
+    } catch (err: unknown) {
+      setError(ApiErrorHandler.handle(err, 'Request password reset'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-100 dark:from-gray-900 dark:to-emerald-900 flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        {/* Logo/Brand */}
+        <div className="text-center mb-8">
+          <div className="inline-block">
+            <span className="text-yellow-700 font-bold text-4xl font-poppins">PesaPrime</span>
+            <span className="text-teal-600 font-bold text-4xl font-poppins">Capital</span>
+          </div>
+          <p className="text-gray-600 dark:text-gray-300 mt-2">
+            Reset your password
+          </p>
+        </div>
+
+        <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg rounded-3xl shadow-2xl p-8 border border-white/20 dark:border-gray-700/20">
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+            We'll send a reset code to the email address or phone number on your account.
+          </p>
+
+          {/* Channel Toggle */}
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-2xl p-1 mb-6">
+            {CHANNELS.map(c => (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => switchChannel(c.id)}
+                disabled={isLoading}
+                className={`flex-1 py-2 px-4 rounded-xl font-semibold transition-all duration-300 ${
+                  channel === c.id
+                    ? 'bg-gradient-to-r from-emerald-500 to-teal-600 text-white shadow-lg'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white'
+                }`}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <input
+              type={channel === 'email' ? 'email' : 'tel'}
+              value={identifier}
+              onChange={(e) => {
+                setIdentifier(e.target.value);
+                if (error) setError('');
+              }}
+              placeholder={channel === 'email' ? 'Email Address' : 'Phone Number (07XX XXX XXX)'}
+              className="w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white"
+              required
+              disabled={isLoading}
+            />
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-xl font-semibold shadow-lg transition-all duration-300 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Sending Code...' : 'Send Reset Code'}
+            </button>
+
+            <div className="text-center text-sm text-gray-600 dark:text-gray-300">
+              Remembered it?{' '}
+              <Link
+                to="/"
+                state={{ from: redirectState?.from }}
+                className="text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 font-semibold transition-colors"
+              >
+                Back to Sign In
+              </Link>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
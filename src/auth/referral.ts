@@ -0,0 +1,43 @@
+// auth/referral.ts - Keeps an invite code from a ?ref= link until sign-up completes
+
+const REFERRAL_STORAGE_KEY = 'referralCode';
+
+// Codes are opaque server-issued tokens; anything else in ?ref= is ignored
+export const normalizeReferralCode = (code: string): string | null => {
+  const trimmed = code.trim().toUpperCase();
+  return /^[A-Z0-9]{6,16}$/.test(trimmed) ? trimmed : null;
+};
+
+// Reads ?ref= from a location search string and remembers it for the sign-up step
+export const captureReferralCode = (search: string): string | null => {
+  const raw = new URLSearchParams(search).get('ref');
+  const code = raw ? normalizeReferralCode(raw) : null;
+  if (code) {
+    try {
+      localStorage.setItem(REFERRAL_STORAGE_KEY, code);
+    } catch (error) {
+      console.error('Error storing referral code:', error);
+    }
+  }
+  return code;
+};
+
+export const getStoredReferralCode = (): string | null => {
+  try {
+    return localStorage.getItem(REFERRAL_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const clearReferralCode = (): void => {
+  try {
+    localStorage.removeItem(REFERRAL_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing referral code:', error);
+  }
+};
+
+export const buildReferralLink = (code: string): string => {
+  return `${window.location.origin}/signup?ref=${encodeURIComponent(code)}`;
+};
@@ -0,0 +1,200 @@
+// auth/resetpassword.tsx
+import { useState } from 'react';
+import { Link, Navigate, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import type { AuthRedirectState } from '../contexts/AuthContext';
+import { apiService, ApiErrorHandler, type PasswordResetChannel } from '../services/api';
+import PasswordChecklist from '../components/PasswordChecklist';
+import type { PasswordResetState } from './forgotpassword';
+import { formatMpesaPhone, validatePassword } from './validation';
+
+const inputClass = "w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white";
+
+const ResetPasswordPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const resetState = location.state as PasswordResetState | null;
+
+  // Arriving from the forgot-password form keeps the identifier in router state;
+  // the emailed link carries it (and the code) in the query string instead.
+  const identifier = resetState?.identifier || searchParams.get('identifier') || '';
+  const channel: PasswordResetChannel = resetState?.channel || (searchParams.get('channel') === 'sms' ? 'sms' : 'email');
+
+  const [formData, setFormData] = useState({
+    code: searchParams.get('code') || '',
+    password: '',
+    confirmPassword: ''
+  });
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  if (!identifier) {
+    return <Navigate to="/forgot-password" replace />;
+  }
+
+  const destination = channel === 'sms' ? formatMpesaPhone(identifier) : identifier;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value
+    });
+    if (error) setError('');
+  };
+
+  const validateForm = (): string | null => {
+    if (!formData.code.trim()) {
+      return 'Enter the reset code we sent you';
+    }
+    const passwordError = validatePassword(formData.password);
+    if (passwordError) {
+      return passwordError;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      return 'Passwords do not match';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setInfo('');
+
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiService.confirmPasswordReset({
+        identifier,
+        code: formData.code.trim(),
+        new_password: formData.password,
+      });
+      const state: AuthRedirectState = { from: resetState?.from, reason: 'password_reset' };
+      navigate('/', { replace: true, state });
+    } catch (err: unknown) {
+      setError(ApiErrorHandler.handle(err, 'Reset password'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    setInfo('');
+    setIsResending(true);
+    try {
+      const response = await apiService.requestPasswordReset({ identifier, channel });
+      setInfo(response.message || 'A new code is on its way');
+    } catch (err: unknown) {
+      setError(ApiErrorHandler.handle(err, 'Resend reset code'));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-100 dark:from-gray-900 dark:to-emerald-900 flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        {/* Logo/Brand */}
+        <div className="text-center mb-8">
+          <div className="inline-block">
+            <span className="text-yellow-700 font-bold text-4xl font-poppins">PesaPrime</span>
+            <span className="text-teal-600 font-bold text-4xl font-poppins">Capital</span>
+          </div>
+          <p className="text-gray-600 dark:text-gray-300 mt-2">
+            Choose a new password
+          </p>
+        </div>
+
+        <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg rounded-3xl shadow-2xl p-8 border border-white/20 dark:border-gray-700/20">
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+              {error}
+            </div>
+          )}
+          {info && (
+            <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded-xl text-sm">
+              {info}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+            If an account matches <span className="font-semibold">{destination}</span>, a reset code
+            has been sent by {channel === 'sms' ? 'SMS' : 'email'}.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              name="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={formData.code}
+              onChange={handleInputChange}
+              placeholder="Reset Code"
+              className={`${inputClass} tracking-widest`}
+              required
+              disabled={isLoading}
+            />
+            <input
+              type="password"
+              name="password"
+              value={formData.password}
+              onChange={handleInputChange}
+              placeholder="New Password"
+              className={inputClass}
+              required
+              disabled={isLoading}
+            />
+            {formData.password && <PasswordChecklist password={formData.password} />}
+            <input
+              type="password"
+              name="confirmPassword"
+              value={formData.confirmPassword}
+              onChange={handleInputChange}
+              placeholder="Confirm New Password"
+              className={inputClass}
+              required
+              disabled={isLoading}
+            />
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-xl font-semibold shadow-lg transition-all duration-300 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Resetting...' : 'Reset Password'}
+            </button>
+
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isLoading || isResending}
+                className="text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                {isResending ? 'Sending...' : 'Resend code'}
+              </button>
+              <Link
+                to="/"
+                state={{ from: resetState?.from }}
+                className="text-gray-600 hover:text-gray-800 dark:text-gray-300 dark:hover:text-white transition-colors"
+              >
+                Back to Sign In
+              </Link>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
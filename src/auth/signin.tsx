@@ -1,30 +1,45 @@
 // auth/signin.tsx
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useAuth, type AuthRedirectState } from '../contexts/AuthContext';
+import { isValidEmail } from './validation';
+import { captureReferralCode } from './referral';
+
+const TOTP_LENGTH = 6;
 
 const AuthPage = () => {
-  const [isLogin, setIsLogin] = useState(true);
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
-    confirmPassword: '',
-    name: '', // Changed from fullName to name
-    phone_number: '' // Changed from phone to phone_number
+    password: ''
   });
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
 
-  const { login, register, isAuthenticated, loading: authLoading } = useAuth();
+  const {
+    login,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    isAuthenticated,
+    loading: authLoading
+  } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectState = location.state as AuthRedirectState | null;
+  const redirectTo = redirectState?.from && redirectState.from !== '/' ? redirectState.from : '/home';
+
+  // Keep an invite code from /?ref=CODE so the sign-up page can send it with register
+  const [referralCode] = useState(() => captureReferralCode(location.search));
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated, back to the page the user was on if we have one
   useEffect(() => {
     if (isAuthenticated && !authLoading) {
-      navigate('/home');
+      navigate(redirectTo, { replace: true });
     }
-  }, [isAuthenticated, authLoading, navigate]);
+  }, [isAuthenticated, authLoading, navigate, redirectTo]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
@@ -41,38 +56,11 @@ const AuthPage = () => {
       return false;
     }
 
-    // Email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(formData.email)) {
+    if (!isValidEmail(formData.email)) {
       setError('Please enter a valid email address');
       return false;
     }
 
-    if (!isLogin) {
-      if (!formData.name) {
-        setError('Full name is required');
-        return false;
-      }
-      if (!formData.phone_number) {
-        setError('Phone number is required');
-        return false;
-      }
-      // Phone number validation (basic)
-      const phoneRegex = /^[0-9+\-\s()]{10,}$/;
-      if (!phoneRegex.test(formData.phone_number)) {
-        setError('Please enter a valid phone number');
-        return false;
-      }
-      if (formData.password !== formData.confirmPassword) {
-        setError('Passwords do not match');
-        return false;
-      }
-      if (formData.password.length < 6) {
-        setError('Password must be at least 6 characters long');
-        return false;
-      }
-    }
-
     return true;
   };
 
@@ -87,50 +75,64 @@ const AuthPage = () => {
       setIsLoading(true);
 
       try {
-        if (isLogin) {
-          // FIX: Pass email and password as separate parameters
-          console.log('📤 Calling login with:', { 
-            email: formData.email, 
-            password: '***'.repeat(formData.password.length) 
-          });
-          
-          await login(formData.email, formData.password); // Separate parameters
-          
-          setSuccess('Login successful! Redirecting...');
-          // Navigation will be handled by the useEffect
-        } else {
-          await register({
-            email: formData.email,
-            password: formData.password,
-            name: formData.name,
-            phone_number: formData.phone_number
-          });
-          setSuccess('Registration successful! Redirecting...');
-          // Navigation will be handled by the useEffect
-        }
+        console.log('📤 Calling login with:', { 
+          email: formData.email, 
+          password: '***'.repeat(formData.password.length) 
+        });
+        
+        await login(formData.email, formData.password);
+        
+        setSuccess('Login successful! Redirecting...');
+        // Navigation will be handled by the useEffect
       } catch (err: unknown) {
         // Proper error type handling
         if (err instanceof Error) {
           setError(err.message);
         } else {
-          setError(`Failed to ${isLogin ? 'login' : 'register'}`);
+          setError('Failed to login');
         }
       } finally {
         setIsLoading(false);
       }
     };
 
-  const toggleMode = () => {
-    setIsLogin(!isLogin);
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const code = twoFactorCode.trim();
+    if (!useBackupCode && code.length !== TOTP_LENGTH) {
+      setError(`Enter the ${TOTP_LENGTH}-digit code from your authenticator app`);
+      return;
+    }
+    if (useBackupCode && !code) {
+      setError('Enter one of your backup codes');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(code);
+      setSuccess('Login successful! Redirecting...');
+    } catch (err: unknown) {
+      setTwoFactorCode('');
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setUseBackupCode(false);
     setError('');
     setSuccess('');
-    setFormData({
-      email: '',
-      password: '',
-      confirmPassword: '',
-      name: '',
-      phone_number: ''
-    });
+    setFormData({ ...formData, password: '' });
+  };
+
+  const goToSignup = () => {
+    navigate('/signup', { state: redirectState });
   };
 
   // Show loading while checking authentication
@@ -166,36 +168,105 @@ const AuthPage = () => {
         {/* Auth Card */}
         <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg rounded-3xl shadow-2xl p-8 border border-white/20 dark:border-gray-700/20">
           {/* Error and Success Messages */}
+          {redirectState?.reason === 'session_expired' && !error && !success && (
+            <div className="mb-4 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-xl text-sm">
+              Your session has expired. Please sign in again to continue.
+            </div>
+          )}
+          {redirectState?.reason === 'password_reset' && !error && !success && (
+            <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded-xl text-sm">
+              Your password has been reset. Sign in with your new password.
+            </div>
+          )}
+          {referralCode && !twoFactorChallenge && !error && !success && (
+            <div className="mb-4 p-3 bg-purple-100 border border-purple-300 text-purple-800 rounded-xl text-sm">
+              You've been invited to PesaPrime Capital.{' '}
+              <button type="button" onClick={goToSignup} className="font-semibold underline">
+                Create your account
+              </button>{' '}
+              to accept the invite.
+            </div>
+          )}
           {error && (
             <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
               {error}
             </div>
           )}
-          {success && (
+          {success && !twoFactorChallenge && (
             <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded-xl text-sm">
               {success}
             </div>
           )}
 
+          {twoFactorChallenge ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+              <div className="text-center">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Two-Factor Authentication</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+                  {useBackupCode
+                    ? 'Enter one of the backup codes you saved when you turned on two-factor authentication.'
+                    : 'Open your authenticator app and enter the current code for PesaPrime Capital.'}
+                </p>
+              </div>
+
+              <input
+                type="text"
+                value={twoFactorCode}
+                onChange={(e) => {
+                  setTwoFactorCode(useBackupCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, TOTP_LENGTH));
+                  if (error) setError('');
+                }}
+                inputMode={useBackupCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                placeholder={useBackupCode ? 'Backup code' : '000000'}
+                className="w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white text-center text-2xl tracking-widest"
+                autoFocus
+                disabled={isLoading}
+              />
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-xl font-semibold shadow-lg transition-all duration-300 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setTwoFactorCode('');
+                    setError('');
+                  }}
+                  disabled={isLoading}
+                  className="text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 transition-colors"
+                >
+                  {useBackupCode ? 'Use authenticator code' : 'Use a backup code'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancelTwoFactor}
+                  disabled={isLoading}
+                  className="text-gray-600 hover:text-gray-800 dark:text-gray-300 dark:hover:text-white transition-colors"
+                >
+                  Back to Sign In
+                </button>
+              </div>
+            </form>
+          ) : (
+          <>
           {/* Toggle Switch */}
           <div className="flex bg-gray-100 dark:bg-gray-700 rounded-2xl p-1 mb-8 relative">
             <button
-              onClick={() => setIsLogin(true)}
-              className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-500 ${
-                isLogin 
-                  ? 'bg-gradient-to-r from-emerald-500 to-teal-600 text-white shadow-lg transform scale-105' 
-                  : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white'
-              }`}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-500 bg-gradient-to-r from-emerald-500 to-teal-600 text-white shadow-lg transform scale-105"
             >
               Sign In
             </button>
             <button
-              onClick={() => setIsLogin(false)}
-              className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-500 ${
-                !isLogin 
-                  ? 'bg-gradient-to-r from-amber-500 to-yellow-600 text-white shadow-lg transform scale-105' 
-                  : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white'
-              }`}
+              onClick={goToSignup}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-500 text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
             >
               Sign Up
             </button>
@@ -203,48 +274,6 @@ const AuthPage = () => {
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
-            {!isLogin && (
-              <div className="space-y-4">
-                {/* Name Input */}
-                <div className="relative">
-                  <input
-                    type="text"
-                    name="name"
-                    value={formData.name}
-                    onChange={handleInputChange}
-                    placeholder="Full Name"
-                    className="w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white"
-                    required={!isLogin}
-                    disabled={isLoading}
-                  />
-                  <div className="absolute inset-y-0 right-3 flex items-center">
-                    <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                    </svg>
-                  </div>
-                </div>
-
-                {/* Phone Input */}
-                <div className="relative">
-                  <input
-                    type="tel"
-                    name="phone_number"
-                    value={formData.phone_number}
-                    onChange={handleInputChange}
-                    placeholder="Phone Number"
-                    className="w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white"
-                    required={!isLogin}
-                    disabled={isLoading}
-                  />
-                  <div className="absolute inset-y-0 right-3 flex items-center">
-                    <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
-                    </svg>
-                  </div>
-                </div>
-              </div>
-            )}
-
             {/* Email Input */}
             <div className="relative">
               <input
@@ -283,44 +312,23 @@ const AuthPage = () => {
               </div>
             </div>
 
-            {!isLogin && (
-              <div className="relative">
-                <input
-                  type="password"
-                  name="confirmPassword"
-                  value={formData.confirmPassword}
-                  onChange={handleInputChange}
-                  placeholder="Confirm Password"
-                  className="w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white"
-                  required={!isLogin}
-                  disabled={isLoading}
+            {/* Remember Me & Forgot Password */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center">
+                <input 
+                  type="checkbox" 
+                  className="w-4 h-4 text-emerald-600 rounded focus:ring-emerald-500 border-gray-300" 
                 />
-                <div className="absolute inset-y-0 right-3 flex items-center">
-                  <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-                  </svg>
-                </div>
+                <span className="ml-2 text-sm text-gray-600 dark:text-gray-300">Remember me</span>
+              </label>
+              <button 
+                type="button"
+                onClick={() => navigate('/forgot-password', { state: { from: redirectState?.from } })}
+                className="text-sm text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 transition-colors"
+              >
+                Forgot password?
+              </button>
               </div>
-            )}
-
-            {/* Remember Me & Forgot Password (only for login) */}
-            {isLogin && (
-              <div className="flex items-center justify-between">
-                <label className="flex items-center">
-                  <input 
-                    type="checkbox" 
-                    className="w-4 h-4 text-emerald-600 rounded focus:ring-emerald-500 border-gray-300" 
-                  />
-                  <span className="ml-2 text-sm text-gray-600 dark:text-gray-300">Remember me</span>
-                </label>
-                <button 
-                  type="button"
-                  className="text-sm text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 transition-colors"
-                >
-                  Forgot password?
-                </button>
-              </div>
-            )}
 
             {/* Submit Button */}
             <button
@@ -331,28 +339,30 @@ const AuthPage = () => {
               {isLoading ? (
                 <div className="flex items-center justify-center">
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                  {isLogin ? 'Signing In...' : 'Creating Account...'}
+                  Signing In...
                 </div>
               ) : (
-                isLogin ? 'Sign In' : 'Create Account'
+                'Sign In'
               )}
             </button>
 
             {/* Switch Mode */}
             <div className="text-center">
               <p className="text-gray-600 dark:text-gray-300">
-                {isLogin ? "Don't have an account? " : "Already have an account? "}
+                Don't have an account?{' '}
                 <button
                   type="button"
-                  onClick={toggleMode}
+                  onClick={goToSignup}
                   disabled={isLoading}
                   className="text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 font-semibold transition-colors disabled:text-gray-400 disabled:cursor-not-allowed"
                 >
-                  {isLogin ? 'Sign Up' : 'Sign In'}
+                  Sign Up
                 </button>
               </p>
             </div>
           </form>
+          </>
+          )}
         </div>
 
         {/* Security Badge */}
@@ -0,0 +1,469 @@
+// auth/signup.tsx
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { useAuth, type AuthRedirectState } from '../contexts/AuthContext';
+import { apiService, ApiErrorHandler } from '../services/api';
+import TermsConditions from '../pages/TermsConditions';
+import PasswordChecklist from '../components/PasswordChecklist';
+import { isValidEmail, normalizeMpesaPhone, formatMpesaPhone, validatePassword } from './validation';
+import { captureReferralCode, clearReferralCode, getStoredReferralCode, normalizeReferralCode } from './referral';
+
+type SignupStep = 'details' | 'verify' | 'terms';
+
+const STEPS: { id: SignupStep; label: string }[] = [
+  { id: 'details', label: 'Your Details' },
+  { id: 'verify', label: 'Verify Phone' },
+  { id: 'terms', label: 'Accept Terms' },
+];
+
+const OTP_LENGTH = 6;
+
+const inputClass = "w-full px-4 py-3 bg-transparent border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:border-emerald-500 dark:focus:border-emerald-400 transition-all duration-300 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white";
+
+const SignupPage = () => {
+  const [step, setStep] = useState<SignupStep>('details');
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    phone_number: '',
+    password: '',
+    confirmPassword: '',
+    referral_code: getStoredReferralCode() || ''
+  });
+  const [normalizedPhone, setNormalizedPhone] = useState('');
+  const [otpCode, setOtpCode] = useState('');
+  const [verificationToken, setVerificationToken] = useState('');
+  const [resendIn, setResendIn] = useState(0);
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { register, isAuthenticated, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const redirectState = location.state as AuthRedirectState | null;
+  const redirectTo = redirectState?.from && redirectState.from !== '/' ? redirectState.from : '/home';
+
+  // Invite links point straight at /signup?ref=CODE
+  useEffect(() => {
+    const code = captureReferralCode(location.search);
+    if (code) {
+      setFormData(prev => ({ ...prev, referral_code: code }));
+    }
+  }, [location.search]);
+
+  useEffect(() => {
+    if (isAuthenticated && !authLoading) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [isAuthenticated, authLoading, navigate, redirectTo]);
+
+  // Countdown until another code may be requested
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value
+    });
+    if (error) setError('');
+  };
+
+  const validateDetails = (): string | null => {
+    if (!formData.name.trim()) {
+      return 'Full name is required';
+    }
+    if (!isValidEmail(formData.email)) {
+      return 'Please enter a valid email address';
+    }
+    if (!normalizeMpesaPhone(formData.phone_number)) {
+      return 'Enter your M-Pesa number, e.g. 0712 345 678';
+    }
+    const passwordError = validatePassword(formData.password);
+    if (passwordError) {
+      return passwordError;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      return 'Passwords do not match';
+    }
+    if (formData.referral_code.trim() && !normalizeReferralCode(formData.referral_code)) {
+      return 'That referral code doesn\'t look right. Check it or leave it blank.';
+    }
+    return null;
+  };
+
+  const sendCode = async (phone: string) => {
+    const response = await apiService.requestOtp({ phone_number: phone, purpose: 'registration' });
+    setResendIn(response.resend_after || 60);
+    setInfo(response.message || `We sent a ${OTP_LENGTH}-digit code to ${formatMpesaPhone(phone)}`);
+  };
+
+  const handleDetailsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const validationError = validateDetails();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const phone = normalizeMpesaPhone(formData.phone_number)!;
+
+    // Going back and keeping the same number should not burn another SMS
+    if (phone === normalizedPhone && verificationToken) {
+      setStep('terms');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setNormalizedPhone(phone);
+      setVerificationToken('');
+      setOtpCode('');
+      await sendCode(phone);
+      setStep('verify');
+    } catch (err: unknown) {
+      setError(ApiErrorHandler.handle(err, 'requestOtp'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (otpCode.length !== OTP_LENGTH) {
+      setError(`Enter the ${OTP_LENGTH}-digit code from the SMS`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.verifyOtp({
+        phone_number: normalizedPhone,
+        code: otpCode,
+        purpose: 'registration'
+      });
+      if (!response.verification_token) {
+        throw new Error(response.message || 'Verification failed');
+      }
+      setVerificationToken(response.verification_token);
+      setInfo('');
+      setStep('terms');
+    } catch (err: unknown) {
+      setError(ApiErrorHandler.handle(err, 'verifyOtp'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (resendIn > 0) return;
+    setError('');
+    setIsLoading(true);
+    try {
+      await sendCode(normalizedPhone);
+    } catch (err: unknown) {
+      setError(ApiErrorHandler.handle(err, 'requestOtp'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateAccount = async () => {
+    setError('');
+
+    if (!verificationToken) {
+      setError('Please verify your phone number first');
+      setStep('verify');
+      return;
+    }
+    if (!termsAccepted) {
+      setError('You must accept the Terms & Conditions to continue');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await register({
+        name: formData.name.trim(),
+        email: formData.email.trim(),
+        phone_number: normalizedPhone,
+        password: formData.password,
+        verification_token: verificationToken,
+        terms_accepted: true,
+        referral_code: normalizeReferralCode(formData.referral_code) || undefined
+      });
+      clearReferralCode();
+      setInfo('Registration successful! Redirecting...');
+      // Navigation will be handled by the useEffect
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to register');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const goBack = () => {
+    setError('');
+    setInfo('');
+    setStep(step === 'terms' ? 'verify' : 'details');
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+
+  const currentIndex = STEPS.findIndex(s => s.id === step);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-100 dark:from-gray-900 dark:to-emerald-900 flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        {/* Logo/Brand */}
+        <div className="text-center mb-8">
+          <div className="inline-block">
+            <span className="text-yellow-700 font-bold text-4xl font-poppins">PesaPrime</span>
+            <span className="text-teal-600 font-bold text-4xl font-poppins">Capital</span>
+          </div>
+          <p className="text-gray-600 dark:text-gray-300 mt-2">
+            Create your investment account
+          </p>
+        </div>
+
+        <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg rounded-3xl shadow-2xl p-8 border border-white/20 dark:border-gray-700/20">
+          {/* Step Indicator */}
+          <div className="flex items-center justify-between mb-8">
+            {STEPS.map((s, index) => (
+              <div key={s.id} className="flex-1 flex flex-col items-center">
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                  index < currentIndex
+                    ? 'bg-emerald-500 text-white'
+                    : index === currentIndex
+                      ? 'bg-gradient-to-r from-amber-500 to-yellow-600 text-white shadow-lg'
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-500'
+                }`}>
+                  {index < currentIndex ? '✓' : index + 1}
+                </div>
+                <span className="mt-1 text-xs text-gray-600 dark:text-gray-300">{s.label}</span>
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+              {error}
+            </div>
+          )}
+          {info && (
+            <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded-xl text-sm">
+              {info}
+            </div>
+          )}
+
+          {/* Step 1: Details */}
+          {step === 'details' && (
+            <form onSubmit={handleDetailsSubmit} className="space-y-4">
+              <input
+                type="text"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                placeholder="Full Name"
+                className={inputClass}
+                required
+                disabled={isLoading}
+              />
+              <input
+                type="email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                placeholder="Email Address"
+                className={inputClass}
+                required
+                disabled={isLoading}
+              />
+              <div>
+                <input
+                  type="tel"
+                  name="phone_number"
+                  value={formData.phone_number}
+                  onChange={handleInputChange}
+                  placeholder="M-Pesa Phone Number"
+                  className={inputClass}
+                  required
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Deposits and withdrawals will only go to this number. We'll text you a code to confirm it.
+                </p>
+              </div>
+              <input
+                type="text"
+                name="referral_code"
+                value={formData.referral_code}
+                onChange={handleInputChange}
+                placeholder="Referral Code (optional)"
+                className={`${inputClass} uppercase`}
+                disabled={isLoading}
+              />
+              <input
+                type="password"
+                name="password"
+                value={formData.password}
+                onChange={handleInputChange}
+                placeholder="Password"
+                className={inputClass}
+                required
+                disabled={isLoading}
+              />
+              {formData.password && <PasswordChecklist password={formData.password} />}
+              <input
+                type="password"
+                name="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                placeholder="Confirm Password"
+                className={inputClass}
+                required
+                disabled={isLoading}
+              />
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-amber-500 to-yellow-600 hover:from-amber-600 hover:to-yellow-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-xl font-semibold shadow-lg transition-all duration-300 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Sending Code...' : 'Continue'}
+              </button>
+            </form>
+          )}
+
+          {/* Step 2: Phone OTP */}
+          {step === 'verify' && (
+            <form onSubmit={handleVerifySubmit} className="space-y-4">
+              <p className="text-sm text-gray-600 dark:text-gray-300 text-center">
+                Enter the code sent to <span className="font-semibold">{formatMpesaPhone(normalizedPhone)}</span>
+              </p>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={otpCode}
+                onChange={(e) => {
+                  setOtpCode(e.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH));
+                  if (error) setError('');
+                }}
+                placeholder={'•'.repeat(OTP_LENGTH)}
+                className={`${inputClass} text-center text-2xl tracking-[0.5em]`}
+                disabled={isLoading}
+                autoFocus
+              />
+
+              <button
+                type="submit"
+                disabled={isLoading || otpCode.length !== OTP_LENGTH}
+                className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-xl font-semibold shadow-lg transition-all duration-300 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Verifying...' : 'Verify Number'}
+              </button>
+
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={goBack}
+                  disabled={isLoading}
+                  className="text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
+                >
+                  Change number
+                </button>
+                <button
+                  type="button"
+                  onClick={handleResend}
+                  disabled={isLoading || resendIn > 0}
+                  className="text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {/* Step 3: Terms */}
+          {step === 'terms' && (
+            <div className="space-y-4">
+              <div className="h-72 overflow-y-auto rounded-xl border border-gray-200 dark:border-gray-700">
+                <TermsConditions />
+              </div>
+
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={termsAccepted}
+                  onChange={(e) => setTermsAccepted(e.target.checked)}
+                  className="w-4 h-4 mt-1 text-emerald-600 rounded focus:ring-emerald-500 border-gray-300"
+                  disabled={isLoading}
+                />
+                <span className="ml-2 text-sm text-gray-600 dark:text-gray-300">
+                  I have read and accept the PesaPrime Capital Terms & Conditions
+                </span>
+              </label>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={goBack}
+                  disabled={isLoading}
+                  className="flex-1 py-3 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-xl font-semibold transition duration-200"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCreateAccount}
+                  disabled={isLoading || !termsAccepted}
+                  className="flex-1 bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-xl font-semibold shadow-lg transition-all duration-300 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      Creating Account...
+                    </div>
+                  ) : (
+                    'Create Account'
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="text-center mt-6">
+            <p className="text-gray-600 dark:text-gray-300">
+              Already have an account?{' '}
+              <Link
+                to="/"
+                state={redirectState}
+                className="text-emerald-600 hover:text-emerald-500 dark:text-emerald-400 font-semibold transition-colors"
+              >
+                Sign In
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignupPage;
@@ -0,0 +1,49 @@
+// auth/validation.ts - Shared form validation for the auth screens
+
+export const isValidEmail = (email: string): boolean => {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+};
+
+// Normalizes Kenyan mobile numbers to the 2547XXXXXXXX / 2541XXXXXXXX form M-Pesa expects.
+// Accepts 07.., 01.., +254.., 254.. with spaces or dashes. Returns null when it isn't a mobile number.
+export const normalizeMpesaPhone = (phone: string): string | null => {
+  const digits = phone.replace(/[\s\-()]/g, '').replace(/^\+/, '');
+
+  let local: string;
+  if (/^254[17]\d{8}$/.test(digits)) {
+    local = digits.slice(3);
+  } else if (/^0[17]\d{8}$/.test(digits)) {
+    local = digits.slice(1);
+  } else if (/^[17]\d{8}$/.test(digits)) {
+    local = digits;
+  } else {
+    return null;
+  }
+
+  return `254${local}`;
+};
+
+// Display form of a normalized number, e.g. +254 712 345 678
+export const formatMpesaPhone = (normalized: string): string => {
+  return `+${normalized.slice(0, 3)} ${normalized.slice(3, 6)} ${normalized.slice(6, 9)} ${normalized.slice(9)}`;
+};
+
+// Password rules shared by sign-up, password reset and the Profile password change form
+export const PASSWORD_RULES: { label: string; message: string; test: (password: string) => boolean }[] = [
+  {
+    label: 'At least 8 characters',
+    message: 'Password must be at least 8 characters long',
+    test: (password) => password.length >= 8,
+  },
+  {
+    label: 'Includes a number',
+    message: 'Password must include at least one number',
+    test: (password) => /[0-9]/.test(password),
+  },
+];
+
+// Returns the first rule the password breaks, or null when it is strong enough
+export const validatePassword = (password: string): string | null => {
+  const failed = PASSWORD_RULES.find(rule => !rule.test(password));
+  return failed ? failed.message : null;
+};
@@ -0,0 +1,147 @@
+// components/AssetFilterBar.tsx
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_FILTERS,
+  SORT_LABELS,
+  hasActiveFilters,
+  type AssetFilters,
+  type AssetSortKey,
+  type NumberRange
+} from '../services/assetSearch';
+
+interface AssetFilterBarProps {
+  filters: AssetFilters;
+  onChange: (filters: AssetFilters) => void;
+  resultCount: number;
+  currencyCode: string;
+  // Min investment is KES in the filters but typed in the display currency
+  toInputAmount: (amountKes: number) => string;
+  parseAmount: (input: string) => number | null;
+}
+
+type RangeDrafts = { minInvestmentMin: string; minInvestmentMax: string; durationMin: string; durationMax: string };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+const AssetFilterBar = ({ filters, onChange, resultCount, currencyCode, toInputAmount, parseAmount }: AssetFilterBarProps) => {
+  const [showRanges, setShowRanges] = useState(false);
+
+  // What's typed is kept as typed; converting it back and forth would fight the cursor
+  const draftsFrom = (f: AssetFilters): RangeDrafts => ({
+    minInvestmentMin: f.minInvestment.min !== null ? toInputAmount(f.minInvestment.min) : '',
+    minInvestmentMax: f.minInvestment.max !== null ? toInputAmount(f.minInvestment.max) : '',
+    durationMin: f.duration.min !== null ? String(f.duration.min) : '',
+    durationMax: f.duration.max !== null ? String(f.duration.max) : '',
+  });
+  const [drafts, setDrafts] = useState<RangeDrafts>(() => draftsFrom(filters));
+
+  // Amounts are shown in the display currency, so re-express them when it changes
+  useEffect(() => {
+    setDrafts(draftsFrom(filters));
+  }, [currencyCode]);
+
+  const parseHours = (input: string): number | null => {
+    const value = parseFloat(input);
+    return isNaN(value) || value < 0 ? null : value;
+  };
+
+  const updateRange = (field: keyof RangeDrafts, input: string) => {
+    const next = { ...drafts, [field]: input };
+    setDrafts(next);
+
+    const minInvestment: NumberRange = {
+      min: next.minInvestmentMin ? parseAmount(next.minInvestmentMin) : null,
+      max: next.minInvestmentMax ? parseAmount(next.minInvestmentMax) : null,
+    };
+    const duration: NumberRange = {
+      min: next.durationMin ? parseHours(next.durationMin) : null,
+      max: next.durationMax ? parseHours(next.durationMax) : null,
+    };
+    onChange({ ...filters, minInvestment, duration });
+  };
+
+  const clearAll = () => {
+    setDrafts(draftsFrom(DEFAULT_FILTERS));
+    onChange(DEFAULT_FILTERS);
+  };
+
+  const rangeCount = [filters.minInvestment, filters.duration]
+    .filter(range => range.min !== null || range.max !== null).length;
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex space-x-2">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => onChange({ ...filters, query: e.target.value })}
+          placeholder="Search by name or symbol"
+          className={`${inputClass} flex-1`}
+        />
+        <select
+          value={filters.sort}
+          onChange={(e) => onChange({ ...filters, sort: e.target.value as AssetSortKey })}
+          className={`${inputClass} w-auto`}
+          aria-label="Sort by"
+        >
+          {(Object.keys(SORT_LABELS) as AssetSortKey[]).map(key => (
+            <option key={key} value={key}>{SORT_LABELS[key]}</option>
+          ))}
+        </select>
+        {filters.sort !== 'default' && (
+          <button
+            onClick={() => onChange({ ...filters, direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+            className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-semibold hover:bg-gray-200 dark:hover:bg-gray-600 transition duration-200"
+            title={filters.direction === 'asc' ? 'Lowest first' : 'Highest first'}
+          >
+            {filters.direction === 'asc' ? '↑' : '↓'}
+          </button>
+        )}
+        <button
+          onClick={() => setShowRanges(!showRanges)}
+          className={`px-3 py-2 rounded-lg text-sm font-semibold transition duration-200 ${
+            showRanges || rangeCount > 0
+              ? 'bg-green-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+        >
+          Filters{rangeCount > 0 ? ` (${rangeCount})` : ''}
+        </button>
+      </div>
+
+      {showRanges && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-gray-100 dark:bg-gray-700/50 rounded-xl">
+          <div>
+            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min investment ({currencyCode})</label>
+            <div className="flex space-x-2">
+              <input type="number" min="0" step="any" placeholder="From" value={drafts.minInvestmentMin}
+                onChange={(e) => updateRange('minInvestmentMin', e.target.value)} className={inputClass} />
+              <input type="number" min="0" step="any" placeholder="To" value={drafts.minInvestmentMax}
+                onChange={(e) => updateRange('minInvestmentMax', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Duration (hours)</label>
+            <div className="flex space-x-2">
+              <input type="number" min="0" step="1" placeholder="From" value={drafts.durationMin}
+                onChange={(e) => updateRange('durationMin', e.target.value)} className={inputClass} />
+              <input type="number" min="0" step="1" placeholder="To" value={drafts.durationMax}
+                onChange={(e) => updateRange('durationMax', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {hasActiveFilters(filters) && (
+        <div className="flex justify-between items-center text-xs text-gray-500 dark:text-gray-400">
+          <span>{resultCount} {resultCount === 1 ? 'match' : 'matches'}</span>
+          <button onClick={clearAll} className="text-green-600 dark:text-green-400 hover:underline">
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetFilterBar;
@@ -0,0 +1,185 @@
+// components/AssetsOverview.tsx - The Assets page's default view: positions, plans, trading and the market
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { apiService, ApiErrorHandler, type Asset, type UserInvestment, type WalletData } from '../services/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+import Trading from './Trading';
+import InvestmentPlans from './InvestmentPlans';
+
+interface AssetsOverviewProps {
+  walletData: WalletData | null;
+  marketAssets: Asset[];
+  userInvestments: UserInvestment[];
+  onAutoRollChange: (investmentId: string, autoRoll: boolean) => void;
+  onInvestmentUpdate: () => void;
+}
+
+const AssetsOverview = ({ walletData, marketAssets, userInvestments, onAutoRollChange, onInvestmentUpdate }: AssetsOverviewProps) => {
+  const [autoRollError, setAutoRollError] = useState('');
+  const { formatCurrency, formatPercent } = useCurrency();
+
+  const toggleAutoRoll = async (investment: UserInvestment) => {
+    setAutoRollError('');
+    try {
+      const updated = await apiService.setAutoRoll(investment.id, !investment.auto_roll);
+      onAutoRollChange(investment.id, !!updated.auto_roll);
+    } catch (err) {
+      setAutoRollError(ApiErrorHandler.handle(err, 'Update auto-roll'));
+    }
+  };
+
+  return (
+    <>
+      {/* My Active Investments */}
+      {userInvestments.length > 0 ? (
+        <div className="w-full bg-gradient-to-br from-blue-900 to-purple-900 rounded-xl p-4 text-white">
+          <h3 className="text-xl font-bold mb-4 text-center">My Active Investments</h3>
+          {autoRollError && (
+            <div className="mb-3 p-3 bg-red-900 border border-red-700 rounded-xl text-sm">
+              {autoRollError}
+            </div>
+          )}
+          <div className="space-y-3">
+            {userInvestments.map((investment) => (
+              <div key={investment.id} className="bg-blue-800 rounded-lg hover:bg-blue-700 transition duration-200">
+                <Link to={`/investments/${investment.id}`} className="flex justify-between items-start p-4">
+                  <div className="flex-1">
+                    <h4 className="font-semibold text-lg">{investment.asset_name}</h4>
+                    <div className="text-sm text-blue-200 mt-1">
+                      <p>{investment.units.toFixed(4)} units</p>
+                      <p>Entry: ${investment.entry_price.toLocaleString()}</p>
+                      <p>Current: ${investment.current_price.toLocaleString()}</p>
+                    </div>
+                  </div>
+                  <div className="text-right flex-1">
+                    <p className="font-semibold text-lg">{formatCurrency(investment.current_value)}</p>
+                    <p className={`text-sm ${investment.profit_loss >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                      {formatCurrency(investment.profit_loss, { signed: true })}{' '}
+                      ({formatPercent(investment.profit_loss_percentage, { signed: true })})
+                    </p>
+                    <p className="text-xs text-blue-300 mt-1">
+                      Invested: {formatCurrency(investment.invested_amount)}
+                    </p>
+                  </div>
+                </Link>
+                {/* Outside the link: a button can't sit inside an <a> */}
+                {investment.status === 'active' && (
+                  <div className="px-4 pb-3 -mt-2 text-right">
+                    <button
+                      onClick={() => toggleAutoRoll(investment)}
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold transition duration-200 ${
+                        investment.auto_roll ? 'bg-green-500 text-white' : 'bg-blue-950 text-blue-300 hover:bg-blue-900'
+                      }`}
+                      title="Reinvest into the same asset when this matures"
+                    >
+                      ↻ Auto-roll {investment.auto_roll ? 'on' : 'off'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col justify-around items-center w-full py-8 bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl px-3 text-white"> 
+          <div className="text-center">
+            <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" fill="currentColor" className="mx-auto mb-4 text-gray-400" viewBox="0 0 16 16">
+              <path d="M8 0a8 8 0 1 0 0 16A8 8 0 0 0 8 0zM4.5 7.5a.5.5 0 0 1 0-1h5.793L8.146 5.354a.5.5 0 1 1 .708-.708l3 3a.5.5 0 0 1 0 .708l-3 3a.5.5 0 0 1-.708-.708L10.293 8.5z"/>
+            </svg>
+            <p className="text-xl mb-2">No Active Investments</p>
+            <p className="text-gray-400">Start investing to build your portfolio</p>
+          </div>
+        </div>
+      )}
+
+      {/* Recurring Plans */}
+      <InvestmentPlans assets={marketAssets} walletBalance={walletData?.balance || 0} />
+
+      {/* Trading Component - Handles ALL Investments */}
+      <Trading 
+        walletData={walletData}
+        userInvestments={userInvestments}
+        onInvestmentUpdate={onInvestmentUpdate}
+      />
+      
+      {/* Market Assets */}
+      <div className="w-full bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4 text-white">
+        <h3 className="text-xl font-bold mb-4 text-center">Live Market Assets</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {marketAssets.map((asset) => (
+            <div 
+              key={asset.id} 
+              className="bg-gray-700 rounded-lg p-4 hover:bg-gray-600 transition duration-200"
+            >
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h4 className="font-semibold text-lg">{asset.name}</h4>
+                  <p className="text-sm text-gray-300">{asset.symbol} • {asset.type}</p>
+                </div>
+                <span className={`px-2 py-1 rounded text-xs font-semibold ${
+                  asset.change_percentage >= 0 ? 'bg-green-500' : 'bg-red-500'
+                }`}>
+                  {formatPercent(asset.change_percentage, { signed: true })}
+                </span>
+              </div>
+              
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Current Price:</span>
+                  <span className="font-semibold">
+                    {asset.type === 'forex' || asset.type === 'commodity' ? '$' : ''}
+                    {asset.current_price.toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Moving Average:</span>
+                  <span className="text-gray-300">{asset.moving_average.toFixed(4)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Trend:</span>
+                  <span className={`font-semibold ${
+                    asset.trend === 'up' ? 'text-green-400' : 'text-red-400'
+                  }`}>
+                    {asset.trend.toUpperCase()}
+                  </span>
+                </div>
+                {/* Show hourly income and minimum investment */}
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Hourly Income:</span>
+                  <span className="text-green-400 font-semibold">
+                    {formatCurrency(asset.hourly_income || 0)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Min Investment:</span>
+                  <span className="text-yellow-400 font-semibold">
+                    {formatCurrency(asset.min_investment || 0)}
+                  </span>
+                </div>
+              </div>
+              
+              <div className="mt-3 flex space-x-2">
+                <a 
+                  href={asset.chart_url} 
+                  target="_blank" 
+                  rel="noopener noreferrer"
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-center py-2 rounded text-sm transition"
+                >
+                  View Chart
+                </a>
+                <Link 
+                  to={`/trading/${asset.id}`}
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white text-center py-2 rounded text-sm transition"
+                >
+                  Invest Now
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AssetsOverview;
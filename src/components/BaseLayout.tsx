@@ -5,6 +5,7 @@ import FAQBot from './FAQBot';
 import { apiService, type PnLData } from '../services/api';
 import CurrencyDropdown from './CurrencyDropdown';
 import { useCurrency } from '../contexts/CurrencyContext';
+import { usePnL, useStreamStatus } from '../hooks/usePrice';
 
 // Interface definitions
 interface BaseLayoutProps {
@@ -31,19 +32,23 @@ interface MobileNavItemProps {
 const BaseLayout = ({ children }: BaseLayoutProps) => {
   const [theme, setTheme] = useState('light');
   const [loading, setLoading] = useState(true);
-  const [pnlData, setPnlData] = useState<PnLData | null>(null);
+  const [fetchedPnL, setFetchedPnL] = useState<PnLData | null>(null);
+  const streamedPnL = usePnL();
+  const { status: streamStatus } = useStreamStatus();
+  // Pushed updates win once they start arriving
+  const pnlData = streamedPnL || fetchedPnL;
   const location = useLocation();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatPercent } = useCurrency();
 
-  // Real-time P/L data fetching
+  // Opening P/L; the price stream pushes changes after that
   const fetchPnLData = async () => {
     try {
       const data = await apiService.getPnL();
-      setPnlData(data);
+      setFetchedPnL(data);
     } catch (error) {
       console.error('Failed to fetch P&L data:', error);
       // Set default data if API fails or endpoint doesn't exist yet
-      setPnlData({ profit_loss: 0, percentage: 0, trend: 'up' });
+      setFetchedPnL({ profit_loss: 0, percentage: 0, trend: 'up' });
     }
   };
 
@@ -68,21 +73,18 @@ const BaseLayout = ({ children }: BaseLayoutProps) => {
     // Apply the theme
     applyTheme(savedTheme || theme);
     
-    // Initial P&L data fetch
-    fetchPnLData();
-
-    // Set up real-time updates every 5 seconds
-    const pnlInterval = setInterval(fetchPnLData, 2000);
-    
     // Simulate loading
     const timer = setTimeout(() => setLoading(false), 2000);
     
     return () => {
       clearTimeout(timer);
-      clearInterval(pnlInterval);
     };
   }, [theme]);
 
+  useEffect(() => {
+    fetchPnLData();
+  }, []);
+
   // Enhanced P/L display with better loading states and styling
   const formatPnL = () => {
     if (!pnlData) return (
@@ -92,7 +94,6 @@ const BaseLayout = ({ children }: BaseLayoutProps) => {
       </div>
     );
     
-    const sign = pnlData.profit_loss >= 0 ? '+' : '';
     const color = pnlData.profit_loss >= 0 ? 'text-green-400' : 'text-red-400';
     const bgColor = pnlData.profit_loss >= 0 ? 'bg-green-900/30' : 'bg-red-900/30';
     const borderColor = pnlData.profit_loss >= 0 ? 'border-green-500/30' : 'border-red-500/30';
@@ -101,10 +102,16 @@ const BaseLayout = ({ children }: BaseLayoutProps) => {
       <div className={`px-3 py-2 rounded-lg ${bgColor} border ${borderColor} transition-all duration-300 hover:scale-105`}>
         <div className="flex flex-col items-center">
           <span className={`text-sm font-bold ${color}`}>
-            {sign}{formatCurrency(Math.abs(pnlData.profit_loss))}
+            <span
+              title={streamStatus === 'open' ? 'Live' : 'Reconnecting…'}
+              className={`inline-block w-2 h-2 rounded-full mr-1 align-middle ${
+                streamStatus === 'open' ? 'bg-green-400' : 'bg-yellow-400 animate-pulse'
+              }`}
+            ></span>
+            {formatCurrency(pnlData.profit_loss, { signed: true, compact: true })}
           </span>
           <span className={`text-xs ${color} opacity-80`}>
-            ({sign}{pnlData.percentage.toFixed(2)}%)
+            ({formatPercent(pnlData.percentage, { signed: true })})
           </span>
         </div>
       </div>
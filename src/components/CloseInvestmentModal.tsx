@@ -0,0 +1,165 @@
+// components/CloseInvestmentModal.tsx
+import { useState, useEffect } from 'react';
+import {
+  apiService,
+  ApiError,
+  ApiErrorHandler,
+  type CloseInvestmentPreview,
+  type CloseInvestmentResponse,
+  type InvestmentPosition
+} from '../services/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { countdownTo, formatCountdown } from '../services/investmentLifecycle';
+
+interface CloseInvestmentModalProps {
+  investment: InvestmentPosition;
+  onClose: () => void;
+  onClosed: (response: CloseInvestmentResponse) => void;
+}
+
+// Shows exactly what closing pays out, penalties included, and only closes on that quote
+const CloseInvestmentModal = ({ investment, onClose, onClosed }: CloseInvestmentModalProps) => {
+  const [preview, setPreview] = useState<CloseInvestmentPreview | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [error, setError] = useState('');
+  const [closing, setClosing] = useState(false);
+  const { formatCurrency, formatPercent } = useCurrency();
+
+  const loadPreview = async () => {
+    setError('');
+    setPreview(null);
+    try {
+      setPreview(await apiService.previewCloseInvestment(investment.id));
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Preview closing investment'));
+    }
+  };
+
+  useEffect(() => {
+    loadPreview();
+  }, [investment.id]);
+
+  // Ticks the quote's expiry down
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiry = preview ? countdownTo(preview.expires_at, now) : null;
+  const expired = expiry?.totalMs === 0;
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    setClosing(true);
+    setError('');
+    try {
+      onClosed(await apiService.closeInvestment(investment.id, preview.quote_id));
+    } catch (err) {
+      // The price moved past the quote; show the new numbers rather than an error
+      if (err instanceof ApiError && err.code === 'QUOTE_EXPIRED') {
+        await loadPreview();
+        setError('The price moved, so here is an updated quote. Please check it and confirm again.');
+      } else {
+        setError(ApiErrorHandler.handle(err, 'Close investment'));
+      }
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const rows: { label: string; value: string; className?: string }[] = preview ? [
+    { label: 'Market value', value: formatCurrency(preview.market_value) },
+    { label: 'Income received', value: formatCurrency(preview.accrued_income), className: 'text-green-600 dark:text-green-400' },
+    ...(preview.forfeited_income > 0
+      ? [{ label: 'Income forfeited', value: formatCurrency(-preview.forfeited_income, { signed: true }), className: 'text-red-600 dark:text-red-400' }]
+      : []),
+    ...(preview.penalty > 0
+      ? [{
+          label: `Early exit penalty (${formatPercent(preview.penalty_rate)})`,
+          value: formatCurrency(-preview.penalty, { signed: true }),
+          className: 'text-red-600 dark:text-red-400',
+        }]
+      : []),
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-4"
+      >
+        <div className="text-center">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white">
+            {preview?.early === false ? 'Sell' : 'Exit early from'} {investment.asset_name}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+            {preview?.early
+              ? 'This position has not matured yet, so closing it now costs you the amounts below.'
+              : 'The proceeds go straight to your wallet balance.'}
+          </p>
+        </div>
+
+        {!preview && !error && (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-500"></div>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            {rows.map(row => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-gray-500 dark:text-gray-400">{row.label}</span>
+                <span className={`font-semibold ${row.className ?? 'text-gray-800 dark:text-white'}`}>{row.value}</span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-600">
+              <span className="font-semibold text-gray-800 dark:text-white">You receive</span>
+              <span className="font-bold text-lg text-gray-800 dark:text-white">{formatCurrency(preview.net_proceeds)}</span>
+            </div>
+            <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+              {expired ? 'This quote has expired.' : `Quote valid for ${formatCountdown(expiry!)}`}
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={closing}
+            className="flex-1 py-3 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+          >
+            Keep It
+          </button>
+          {expired || (!preview && error) ? (
+            <button
+              type="button"
+              onClick={loadPreview}
+              className="flex-1 py-3 bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white rounded-xl font-semibold transition duration-200"
+            >
+              New Quote
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={!preview || closing}
+              className="flex-1 py-3 bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 disabled:from-gray-400 disabled:to-gray-500 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+            >
+              {closing ? 'Closing...' : preview?.early === false ? 'Sell' : 'Exit Early'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CloseInvestmentModal;
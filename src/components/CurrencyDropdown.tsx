@@ -1,11 +1,13 @@
 // components/CurrencyDropdown.tsx
 import { useState, useRef, useEffect } from 'react';
+import { format } from 'date-fns';
 import { useCurrency, type Currency } from '../contexts/CurrencyContext';
 
 const CurrencyDropdown = () => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const { currentCurrency, setCurrency, availableCurrencies } = useCurrency();
+  const [refreshing, setRefreshing] = useState(false);
+  const { currentCurrency, setCurrency, availableCurrencies, ratesAsOf, ratesStatus, refreshRates } = useCurrency();
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -24,6 +26,15 @@ const CurrencyDropdown = () => {
     setIsOpen(false);
   };
 
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refreshRates();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
   return (
     <div className="relative" ref={dropdownRef}>
       {/* Currency Trigger Button */}
@@ -103,6 +114,26 @@ const CurrencyDropdown = () => {
             <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
               1 KES = {currentCurrency.exchangeRate.toFixed(4)} {currentCurrency.code}
             </p>
+            <p className="text-xs text-gray-400 dark:text-gray-500 text-center mt-1">
+              {ratesAsOf ? `Rates as of ${format(ratesAsOf, 'd MMM, HH:mm')}` : 'Indicative rates'}
+              {ratesStatus !== 'live' && (
+                <>
+                  {' · '}
+                  <span className="text-amber-600 dark:text-amber-400">
+                    {ratesStatus === 'offline' ? 'offline' : 'not yet updated'}
+                  </span>
+                </>
+              )}
+            </p>
+            {ratesStatus !== 'live' && (
+              <button
+                onClick={handleRefresh}
+                disabled={refreshing}
+                className="w-full mt-1 text-xs font-semibold text-emerald-600 dark:text-emerald-400 hover:underline disabled:opacity-50"
+              >
+                {refreshing ? 'Updating...' : 'Update rates'}
+              </button>
+            )}
           </div>
         </div>
       )}
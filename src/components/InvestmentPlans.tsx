@@ -0,0 +1,307 @@
+// components/InvestmentPlans.tsx
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  apiService,
+  ApiErrorHandler,
+  type Asset,
+  type InvestmentPlan,
+  type PlanExecution,
+  type PlanFrequency
+} from '../services/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { CurrencyConversionError } from '../services/money';
+
+const FREQUENCY_LABELS: Record<PlanFrequency, string> = {
+  daily: 'Every day',
+  weekly: 'Every week',
+  monthly: 'Every month',
+};
+
+const EXECUTION_STYLES: Record<PlanExecution['status'], string> = {
+  success: 'text-green-400',
+  skipped: 'text-yellow-400',
+  failed: 'text-red-400',
+};
+
+const inputClass = 'w-full p-3 border border-gray-600 rounded-xl bg-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-green-500';
+
+interface InvestmentPlansProps {
+  assets: Asset[];
+  walletBalance: number; // KES
+}
+
+// Recurring purchases into one asset; the server runs them and pauses any the wallet can't cover
+const InvestmentPlans = ({ assets, walletBalance }: InvestmentPlansProps) => {
+  const [plans, setPlans] = useState<InvestmentPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [assetId, setAssetId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<PlanFrequency>('daily');
+  const [openHistory, setOpenHistory] = useState<string | null>(null);
+  const [executions, setExecutions] = useState<{ [planId: string]: PlanExecution[] }>({});
+  const { formatCurrency, converter, fromDisplay, currentCurrency } = useCurrency();
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const fetchPlans = async () => {
+    try {
+      setPlans(await apiService.getInvestmentPlans());
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Load investment plans'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replacePlan = (updated: InvestmentPlan) =>
+    setPlans(prev => prev.map(plan => (plan.id === updated.id ? updated : plan)));
+
+  // The amount is typed in the display currency; plans are kept in KES
+  const parseAmountKes = (input: string): number | null => {
+    const value = parseFloat(input);
+    if (isNaN(value) || value <= 0) return null;
+    try {
+      return converter.toBase(fromDisplay(value)).amount;
+    } catch (err) {
+      if (err instanceof CurrencyConversionError) return null;
+      throw err;
+    }
+  };
+
+  const selectedAsset = assets.find(asset => asset.id === assetId);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountKes = parseAmountKes(amount);
+    if (!selectedAsset) {
+      setError('Choose an asset for the plan');
+      return;
+    }
+    if (amountKes === null) {
+      setError('Enter a valid amount');
+      return;
+    }
+    if (amountKes < selectedAsset.min_investment) {
+      setError(`Each run must be at least ${formatCurrency(selectedAsset.min_investment)} for ${selectedAsset.name}`);
+      return;
+    }
+
+    setBusyId('new');
+    setError('');
+    try {
+      const plan = await apiService.createInvestmentPlan({ asset_id: selectedAsset.id, amount: amountKes, frequency });
+      setPlans(prev => [plan, ...prev]);
+      setShowForm(false);
+      setAmount('');
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Create investment plan'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const togglePaused = async (plan: InvestmentPlan) => {
+    setBusyId(plan.id);
+    setError('');
+    try {
+      replacePlan(await apiService.updateInvestmentPlan(plan.id, { status: plan.status === 'active' ? 'paused' : 'active' }));
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Update investment plan'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (plan: InvestmentPlan) => {
+    if (!window.confirm(`Stop the ${formatCurrency(plan.amount)} ${plan.asset_name} plan? Positions it already opened are kept.`)) {
+      return;
+    }
+    setBusyId(plan.id);
+    setError('');
+    try {
+      await apiService.deleteInvestmentPlan(plan.id);
+      setPlans(prev => prev.filter(p => p.id !== plan.id));
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Delete investment plan'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleHistory = async (plan: InvestmentPlan) => {
+    if (openHistory === plan.id) {
+      setOpenHistory(null);
+      return;
+    }
+    setOpenHistory(plan.id);
+    try {
+      const history = await apiService.getPlanExecutions(plan.id);
+      setExecutions(prev => ({ ...prev, [plan.id]: history }));
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Load plan history'));
+    }
+  };
+
+  return (
+    <div className="w-full bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4 text-white">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold">Recurring Plans</h3>
+        <button
+          onClick={() => { setShowForm(!showForm); setError(''); }}
+          className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded-lg text-sm font-semibold transition duration-200"
+        >
+          {showForm ? 'Cancel' : '+ New Plan'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 border border-red-700 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-4 p-4 bg-gray-700/50 rounded-xl space-y-3">
+          <select value={assetId} onChange={(e) => setAssetId(e.target.value)} className={inputClass}>
+            <option value="">Choose an asset</option>
+            {assets.map(asset => (
+              <option key={asset.id} value={asset.id}>{asset.name} ({asset.symbol})</option>
+            ))}
+          </select>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min="0"
+              step="any"
+              placeholder={`Amount per run (${currentCurrency.code})`}
+              className={inputClass}
+            />
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as PlanFrequency)} className={inputClass}>
+              {(Object.keys(FREQUENCY_LABELS) as PlanFrequency[]).map(key => (
+                <option key={key} value={key}>{FREQUENCY_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {selectedAsset && (
+            <p className="text-xs text-gray-400">Minimum per run: {formatCurrency(selectedAsset.min_investment)}</p>
+          )}
+          <button
+            type="submit"
+            disabled={busyId === 'new'}
+            className="w-full py-3 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-500 disabled:to-gray-600 rounded-xl font-semibold transition duration-200"
+          >
+            {busyId === 'new' ? 'Creating...' : 'Start Plan'}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-500"></div>
+        </div>
+      ) : plans.length === 0 ? (
+        <div className="text-center py-4 text-gray-400">
+          <p>No recurring plans</p>
+          <p className="text-sm">Invest a fixed amount automatically, every day, week or month</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {plans.map(plan => {
+            const lowBalance = plan.status === 'active' && walletBalance < plan.amount;
+            return (
+              <div key={plan.id} className="p-3 bg-gray-700 rounded-lg text-sm">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-semibold">{plan.asset_name}</p>
+                    <p className="text-gray-300">{formatCurrency(plan.amount)} · {FREQUENCY_LABELS[plan.frequency].toLowerCase()}</p>
+                    <p className="text-xs text-gray-400">
+                      {plan.status === 'active' && plan.next_run_at
+                        ? `Next run ${format(new Date(plan.next_run_at), 'd MMM, HH:mm')}`
+                        : 'Paused'}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${
+                    plan.status === 'active' ? 'bg-green-900 text-green-300' : 'bg-gray-600 text-gray-300'
+                  }`}>
+                    {plan.status}
+                  </span>
+                </div>
+
+                {plan.paused_reason === 'insufficient_balance' && (
+                  <p className="mt-2 p-2 bg-red-900/60 rounded text-xs">
+                    Paused because your wallet couldn't cover a run.{' '}
+                    <Link to="/deposit" className="text-yellow-400 hover:underline">Top up</Link> and resume it.
+                  </p>
+                )}
+                {lowBalance && (
+                  <p className="mt-2 p-2 bg-yellow-900/60 rounded text-xs">
+                    Your balance is below {formatCurrency(plan.amount)}, so the next run will pause this plan.
+                  </p>
+                )}
+
+                <div className="flex space-x-2 mt-2">
+                  <button
+                    onClick={() => togglePaused(plan)}
+                    disabled={busyId === plan.id}
+                    className="flex-1 py-1.5 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 rounded-lg text-xs font-semibold transition duration-200"
+                  >
+                    {plan.status === 'active' ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => toggleHistory(plan)}
+                    className="flex-1 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-xs font-semibold transition duration-200"
+                  >
+                    {openHistory === plan.id ? 'Hide History' : 'History'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(plan)}
+                    disabled={busyId === plan.id}
+                    className="flex-1 py-1.5 bg-red-700 hover:bg-red-600 disabled:opacity-50 rounded-lg text-xs font-semibold transition duration-200"
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                {openHistory === plan.id && (
+                  <div className="mt-3 space-y-1">
+                    {!executions[plan.id] ? (
+                      <p className="text-xs text-gray-400">Loading...</p>
+                    ) : executions[plan.id].length === 0 ? (
+                      <p className="text-xs text-gray-400">This plan hasn't run yet.</p>
+                    ) : (
+                      executions[plan.id].map(run => (
+                        <div key={run.id} className="flex justify-between text-xs bg-gray-800 rounded px-2 py-1.5">
+                          <span className="text-gray-300">{format(new Date(run.executed_at), 'd MMM yyyy, HH:mm')}</span>
+                          <span className={`capitalize ${EXECUTION_STYLES[run.status]}`} title={run.reason ?? undefined}>
+                            {run.investment_id ? (
+                              <Link to={`/investments/${run.investment_id}`} className="hover:underline">
+                                {formatCurrency(run.amount)} invested
+                              </Link>
+                            ) : (
+                              `${run.status}${run.reason ? `: ${run.reason}` : ''}`
+                            )}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvestmentPlans;
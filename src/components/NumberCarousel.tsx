@@ -49,7 +49,7 @@ const NumberCarousel = () => {
               </div>
               
               {/* Amount */}
-              <div className="text-teal-200 text-sm font-semibold">{formatCurrency(number.amount)}</div>
+              <div className="text-teal-200 text-sm font-semibold">{formatCurrency(number.amount, { compact: true })}</div>
             </div>
           ))}
         </div>
@@ -0,0 +1,25 @@
+// components/PasswordChecklist.tsx
+import { PASSWORD_RULES } from '../auth/validation';
+
+interface PasswordChecklistProps {
+  password: string;
+}
+
+const PasswordChecklist = ({ password }: PasswordChecklistProps) => (
+  <ul className="space-y-1 text-xs">
+    {PASSWORD_RULES.map((rule) => {
+      const passed = rule.test(password);
+      return (
+        <li
+          key={rule.label}
+          className={`flex items-center ${passed ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-500 dark:text-gray-400'}`}
+        >
+          <span className="w-4 mr-1">{passed ? '✓' : '•'}</span>
+          {rule.label}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default PasswordChecklist;
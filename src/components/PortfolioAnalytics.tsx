@@ -0,0 +1,257 @@
+// components/PortfolioAnalytics.tsx - Allocation, performance and risk for the Assets page
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Area,
+  AreaChart,
+  Cell,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { format, subDays } from 'date-fns';
+import { apiService, ApiErrorHandler, type PortfolioSnapshot, type UserInvestment } from '../services/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+import {
+  CONCENTRATION_LIMITS,
+  PERIOD_DAYS,
+  allocationByAsset,
+  allocationByType,
+  bestAndWorstPositions,
+  concentrationWarnings,
+  effectiveHoldings,
+  portfolioTotals,
+  timeWeightedReturn,
+  type PortfolioPeriod,
+  type RankedPosition
+} from '../services/portfolio';
+
+const SLICE_COLORS = ['#10B981', '#3B82F6', '#F59E0B', '#A78BFA', '#EF4444', '#22D3EE'];
+
+interface PortfolioAnalyticsProps {
+  investments: UserInvestment[];
+  assetTypes: Record<string, string>; // asset id -> crypto / forex / stock
+}
+
+const PortfolioAnalytics = ({ investments, assetTypes }: PortfolioAnalyticsProps) => {
+  const [period, setPeriod] = useState<PortfolioPeriod>('1M');
+  const [history, setHistory] = useState<PortfolioSnapshot[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState('');
+  const { formatCurrency, formatPercent } = useCurrency();
+
+  useEffect(() => {
+    let cancelled = false;
+    const days = PERIOD_DAYS[period];
+    setHistoryLoading(true);
+    setHistoryError('');
+    apiService
+      .getPortfolioHistory(days === null ? undefined : format(subDays(new Date(), days), 'yyyy-MM-dd'))
+      .then(snapshots => {
+        if (!cancelled) setHistory(snapshots);
+      })
+      .catch(err => {
+        if (!cancelled) setHistoryError(ApiErrorHandler.handle(err, 'Load portfolio history'));
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  const totals = portfolioTotals(investments);
+  const byType = useMemo(() => allocationByType(investments, assetTypes), [investments, assetTypes]);
+  const byAsset = useMemo(() => allocationByAsset(investments), [investments]);
+  const { best, worst } = bestAndWorstPositions(investments);
+  const warnings = concentrationWarnings(byAsset, byType);
+  const holdings = effectiveHoldings(byAsset);
+  const twr = timeWeightedReturn(history);
+
+  const renderPositions = (title: string, positions: RankedPosition[], empty: string) => (
+    <div className="bg-gray-700/50 rounded-xl p-3">
+      <p className="font-semibold mb-2">{title}</p>
+      {positions.length === 0 ? (
+        <p className="text-sm text-gray-400">{empty}</p>
+      ) : (
+        <div className="space-y-1">
+          {positions.map(({ investment, returnPercentage }) => (
+            <Link
+              key={investment.id}
+              to={`/investments/${investment.id}`}
+              className="flex justify-between text-sm px-2 py-1.5 rounded hover:bg-gray-600 transition duration-200"
+            >
+              <span>{investment.asset_name}</span>
+              <span className={returnPercentage >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {formatPercent(returnPercentage, { signed: true })}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4 text-white space-y-6">
+      {/* Performance */}
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-xl font-bold">Performance</h3>
+          <div className="flex space-x-1">
+            {(Object.keys(PERIOD_DAYS) as PortfolioPeriod[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setPeriod(option)}
+                className={`px-2 py-1 rounded text-xs font-semibold transition duration-200 ${
+                  period === option ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-3 text-sm">
+          <div className="bg-gray-700/50 rounded-xl p-3">
+            <p className="text-gray-400">Time-weighted return</p>
+            <p className={`text-lg font-bold ${(twr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {twr === null ? '—' : formatPercent(twr, { signed: true })}
+            </p>
+          </div>
+          <div className="bg-gray-700/50 rounded-xl p-3">
+            <p className="text-gray-400">Unrealized P&L</p>
+            <p className={`text-lg font-bold ${totals.unrealizedProfitLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCurrency(totals.unrealizedProfitLoss, { signed: true, compact: true })}
+            </p>
+          </div>
+          <div className="bg-gray-700/50 rounded-xl p-3">
+            <p className="text-gray-400">Realized P&L</p>
+            <p className={`text-lg font-bold ${totals.realizedProfitLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCurrency(totals.realizedProfitLoss, { signed: true, compact: true })}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-48 relative">
+          {history.length > 1 && (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={history} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={date => format(new Date(date), 'd MMM')}
+                  stroke="#6B7280"
+                  tick={{ fontSize: 10 }}
+                  minTickGap={40}
+                />
+                <YAxis
+                  orientation="right"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={value => formatCurrency(Number(value), { compact: true })}
+                  stroke="#6B7280"
+                  tick={{ fontSize: 10 }}
+                  width={80}
+                />
+                <Tooltip
+                  labelFormatter={date => format(new Date(String(date)), 'd MMM yyyy')}
+                  formatter={value => [formatCurrency(Number(value)), 'Value']}
+                  contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: 8 }}
+                />
+                <Area dataKey="value" stroke="#10B981" fill="#10B981" fillOpacity={0.2} strokeWidth={2} isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+          {historyLoading && history.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+            </div>
+          )}
+          {!historyLoading && history.length < 2 && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+              {historyError || 'Not enough history for this period yet'}
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Time-weighted return leaves out money moved into or out of positions, so it reflects how the investments did.
+        </p>
+      </div>
+
+      {/* Allocation */}
+      <div>
+        <h3 className="text-xl font-bold mb-3">Allocation</h3>
+        {byType.length === 0 ? (
+          <p className="text-sm text-gray-400">No open positions to allocate.</p>
+        ) : (
+          <div className="flex flex-col sm:flex-row items-center">
+            <div className="w-48 h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie data={byType} dataKey="value" nameKey="label" innerRadius="55%" outerRadius="90%" paddingAngle={2} isAnimationActive={false}>
+                    {byType.map((slice, index) => (
+                      <Cell key={slice.key} fill={SLICE_COLORS[index % SLICE_COLORS.length]} stroke="none" />
+                    ))}
+                  </Pie>
+                  <Tooltip
+                    formatter={value => formatCurrency(Number(value))}
+                    contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: 8 }}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex-1 w-full sm:ml-6 space-y-2">
+              {byType.map((slice, index) => (
+                <div key={slice.key} className="flex items-center text-sm">
+                  <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: SLICE_COLORS[index % SLICE_COLORS.length] }}></span>
+                  <span className="flex-1">{slice.label}</span>
+                  <span className="text-gray-300 mr-3">{formatCurrency(slice.value, { compact: true })}</span>
+                  <span className="font-semibold w-14 text-right">{formatPercent(slice.share)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Best and worst */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {renderPositions('Best performers', best, 'No positions in profit yet')}
+        {renderPositions('Worst performers', worst, 'No positions at a loss')}
+      </div>
+
+      {/* Risk */}
+      <div>
+        <h3 className="text-xl font-bold mb-3">Risk</h3>
+        <div className="bg-gray-700/50 rounded-xl p-3 text-sm mb-3 flex justify-between">
+          <span className="text-gray-400">Diversification</span>
+          <span>
+            {byAsset.length} {byAsset.length === 1 ? 'asset' : 'assets'}, behaving like{' '}
+            <span className="font-semibold">{holdings.toFixed(1)}</span> equal holdings
+          </span>
+        </div>
+        {warnings.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No single asset is over {CONCENTRATION_LIMITS.asset}% and no asset type over {CONCENTRATION_LIMITS.type}% of your portfolio.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {warnings.map(warning => (
+              <div key={`${warning.kind}-${warning.label}`} className="p-3 bg-yellow-900/60 border border-yellow-700 rounded-xl text-sm">
+                ⚠️ <span className="font-semibold">{warning.label}</span> is {formatPercent(warning.share)} of your portfolio,
+                above the {warning.kind === 'asset' ? CONCENTRATION_LIMITS.asset : CONCENTRATION_LIMITS.type}% we suggest for
+                {warning.kind === 'asset' ? ' one asset' : ' one asset type'}.
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioAnalytics;
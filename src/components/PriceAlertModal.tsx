@@ -0,0 +1,144 @@
+// components/PriceAlertModal.tsx
+import { useState } from 'react';
+import { ApiErrorHandler, type PriceAlertCondition } from '../services/api';
+import { usePriceAlerts } from '../contexts/PriceAlertsContext';
+import { CONDITION_LABELS, describeAlert, formatAssetPrice, validateAlert } from '../services/priceAlerts';
+
+interface PriceAlertModalProps {
+  symbol: string;
+  assetName: string;
+  currentPrice: number;
+  onClose: () => void;
+}
+
+const CONDITIONS: PriceAlertCondition[] = ['above', 'below', 'change_percent'];
+
+// Sensible starting targets: 5% either side, or a 5% move
+const defaultTarget = (condition: PriceAlertCondition, price: number): string => {
+  if (condition === 'change_percent') return '5';
+  const target = condition === 'above' ? price * 1.05 : price * 0.95;
+  return String(Number(target.toPrecision(price < 10 ? 4 : 6)));
+};
+
+// Modal for setting a price alert on one asset
+const PriceAlertModal = ({ symbol, assetName, currentPrice, onClose }: PriceAlertModalProps) => {
+  const [condition, setCondition] = useState<PriceAlertCondition>('above');
+  const [target, setTarget] = useState(() => defaultTarget('above', currentPrice));
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { alerts, createAlert } = usePriceAlerts();
+
+  const existing = alerts.filter(alert => alert.symbol === symbol && alert.status === 'active');
+
+  const changeCondition = (next: PriceAlertCondition) => {
+    setCondition(next);
+    setTarget(defaultTarget(next, currentPrice));
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(target);
+    const invalid = validateAlert(condition, value, currentPrice);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await createAlert({ symbol, asset_name: assetName, condition, target: value, reference_price: currentPrice });
+      onClose();
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Create price alert'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-4"
+      >
+        <div className="text-center">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white">🔔 Alert for {assetName}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+            Now {formatAssetPrice(currentPrice)}. We'll notify you here and in your browser.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {CONDITIONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => changeCondition(option)}
+              className={`py-2 rounded-xl text-sm font-semibold transition duration-200 ${
+                option === condition
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {CONDITION_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        <div className="relative">
+          <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">
+            {condition === 'change_percent' ? '±' : '$'}
+          </span>
+          <input
+            type="number"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            step="any"
+            min="0"
+            className="w-full pl-10 pr-10 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white text-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            autoFocus
+            disabled={saving}
+          />
+          {condition === 'change_percent' && (
+            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-500">%</span>
+          )}
+        </div>
+
+        {existing.length > 0 && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Already set: {existing.map(alert => describeAlert(alert)).join(' · ')}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 py-3 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 py-3 bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Set Alert'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PriceAlertModal;
@@ -0,0 +1,167 @@
+// components/PriceAlertSettings.tsx
+import { useState, useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import { ApiErrorHandler, type PriceAlert } from '../services/api';
+import { usePriceAlerts } from '../contexts/PriceAlertsContext';
+import { priceStream } from '../services/priceStream';
+import { describeAlert, formatAssetPrice } from '../services/priceAlerts';
+import { getPushState, enablePush, disablePush, type PushState } from '../services/push';
+
+const STATUS_STYLES: Record<PriceAlert['status'], string> = {
+  active: 'bg-green-900 text-green-300',
+  paused: 'bg-gray-600 text-gray-300',
+  triggered: 'bg-yellow-900 text-yellow-300',
+};
+
+const PUSH_NOTES: Record<PushState, string> = {
+  unsupported: "This browser can't show notifications, so alerts only appear while the app is open.",
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to turn this on.',
+  disabled: 'Get alerts even when this tab is closed.',
+  enabled: 'Alerts reach this browser even when the app is closed.',
+};
+
+const PriceAlertSettings = () => {
+  const [pushState, setPushState] = useState<PushState | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const sectionRef = useRef<HTMLDivElement>(null);
+
+  const { alerts, loading, deleteAlert, setAlertPaused } = usePriceAlerts();
+  const location = useLocation();
+
+  useEffect(() => {
+    getPushState().then(setPushState);
+  }, []);
+
+  // Toasts and notifications link straight here
+  useEffect(() => {
+    if (location.hash === '#price-alerts') {
+      sectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [location.hash]);
+
+  const togglePush = async () => {
+    setError('');
+    setBusyId('push');
+    try {
+      setPushState(pushState === 'enabled' ? await disablePush() : await enablePush());
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Update browser notifications'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const togglePaused = async (alert: PriceAlert) => {
+    setError('');
+    setBusyId(alert.id);
+    try {
+      const resuming = alert.status !== 'active';
+      // Resuming a percent alert measures the move from here, not from when it was paused.
+      // Paused alerts aren't streamed, so the symbol may need subscribing to for a price.
+      const tick = resuming && alert.condition === 'change_percent' ? await priceStream.waitForPrice(alert.symbol) : null;
+      await setAlertPaused(alert, !resuming, tick?.price);
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Update price alert'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (alert: PriceAlert) => {
+    setError('');
+    setBusyId(alert.id);
+    try {
+      await deleteAlert(alert.id);
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Delete price alert'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div id="price-alerts" ref={sectionRef} className="w-full mt-8 pt-6 border-t border-gray-600">
+      <p className="text-center text-xl font-bold mb-2">Price Alerts</p>
+      <p className="text-center text-sm text-gray-300 mb-4">
+        Set alerts with the 🔔 on any asset in Trading.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 border border-red-700 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && alerts.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-500"></div>
+        </div>
+      ) : alerts.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 mb-4">You have no price alerts yet.</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {alerts.map(alert => (
+            <div key={alert.id} className="p-3 bg-gray-700 rounded-xl text-sm">
+              <div className="flex justify-between items-center">
+                <div>
+                  <p className="font-semibold">{describeAlert(alert)}</p>
+                  <p className="text-xs text-gray-400">
+                    {alert.status === 'triggered' && alert.triggered_at
+                      ? `Fired ${new Date(alert.triggered_at).toLocaleString()}${
+                          alert.triggered_price !== null ? ` at ${formatAssetPrice(alert.triggered_price)}` : ''
+                        }`
+                      : `${alert.asset_name} · set ${new Date(alert.created_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[alert.status]}`}>
+                  {alert.status}
+                </span>
+              </div>
+              <div className="flex space-x-2 mt-2">
+                {alert.status !== 'triggered' && (
+                  <button
+                    onClick={() => togglePaused(alert)}
+                    disabled={busyId === alert.id}
+                    className="flex-1 py-1.5 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 rounded-lg text-xs font-semibold transition duration-200"
+                  >
+                    {alert.status === 'active' ? 'Pause' : 'Resume'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(alert)}
+                  disabled={busyId === alert.id}
+                  className="flex-1 py-1.5 bg-red-700 hover:bg-red-600 disabled:opacity-50 rounded-lg text-xs font-semibold transition duration-200"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pushState && (
+        <div className="p-3 bg-gray-700 rounded-xl text-sm flex justify-between items-center">
+          <div className="mr-3">
+            <p className="font-semibold">Browser notifications</p>
+            <p className="text-xs text-gray-300">{PUSH_NOTES[pushState]}</p>
+          </div>
+          {(pushState === 'enabled' || pushState === 'disabled') && (
+            <button
+              onClick={togglePush}
+              disabled={busyId === 'push'}
+              className={`px-4 py-2 rounded-lg text-xs font-semibold transition duration-200 disabled:opacity-50 ${
+                pushState === 'enabled' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-green-700 hover:bg-green-600'
+              }`}
+            >
+              {pushState === 'enabled' ? 'Turn Off' : 'Turn On'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceAlertSettings;
@@ -0,0 +1,332 @@
+// components/PriceChart.tsx - Candlestick / line chart with volume for a CandleSeries
+import React, { useMemo, useState } from 'react';
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { format } from 'date-fns';
+import type { Candle, CandleSeries, ChartRange } from '../services/marketData';
+import { computeIndicators, INDICATOR_SETTINGS, type IndicatorId } from '../services/indicators';
+
+const RANGES: ChartRange[] = ['1H', '1D', '1W', '1M', '1Y'];
+
+const UP_COLOR = '#10B981';
+const DOWN_COLOR = '#EF4444';
+
+// Axis labels only need enough detail to tell neighbouring ticks apart
+const TICK_FORMATS: Record<ChartRange, string> = {
+  '1H': 'HH:mm',
+  '1D': 'HH:mm',
+  '1W': 'EEE HH:mm',
+  '1M': 'd MMM',
+  '1Y': 'MMM yyyy',
+};
+
+// Overlays share the price axis; the rest get their own pane under the chart
+const INDICATORS: { id: IndicatorId; label: string; pane: 'overlay' | 'pane' }[] = [
+  { id: 'sma', label: `SMA ${INDICATOR_SETTINGS.sma.period}`, pane: 'overlay' },
+  { id: 'ema', label: `EMA ${INDICATOR_SETTINGS.ema.period}`, pane: 'overlay' },
+  { id: 'bollinger', label: 'Bollinger', pane: 'overlay' },
+  { id: 'rsi', label: 'RSI', pane: 'pane' },
+  { id: 'macd', label: 'MACD', pane: 'pane' },
+];
+
+// A candle plus whatever indicators are computed at it, as one chart row
+interface ChartRow extends Candle {
+  sma: number | null;
+  ema: number | null;
+  bbUpper: number | null;
+  bbLower: number | null;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+}
+
+const volumeFormatter = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+interface PriceChartProps {
+  series: CandleSeries | null;
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+  isLoading?: boolean;
+  decimals?: number; // forex is quoted to 4 places
+}
+
+// What recharts hands a Bar shape: the bar's pixel box and the data row it was drawn from
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: Candle;
+}
+
+// Bar gives us the pixel box from low to high; the body is placed inside it by price.
+// recharts types custom shape props as unknown, so they're narrowed here.
+const CandleShape = (props: unknown) => {
+  const { x, y, width, height, payload } = props as CandleShapeProps;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const toPixel = (price: number) => (high === low ? y : y + ((high - price) / (high - low)) * height);
+  const bodyTop = toPixel(Math.max(open, close));
+  const bodyHeight = Math.max(1, toPixel(Math.min(open, close)) - bodyTop);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const PriceChart: React.FC<PriceChartProps> = ({ series, range, onRangeChange, isLoading = false, decimals = 2 }) => {
+  const [mode, setMode] = useState<'candles' | 'line'>('candles');
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [enabled, setEnabled] = useState<IndicatorId[]>([]);
+
+  const candles = useMemo(() => series?.candles || [], [series]);
+  const active = activeIndex !== null ? candles[activeIndex] : undefined;
+
+  const rows = useMemo<ChartRow[]>(() => {
+    const indicators = computeIndicators(candles);
+    return candles.map((candle, i) => ({
+      ...candle,
+      sma: indicators.sma[i],
+      ema: indicators.ema[i],
+      bbUpper: indicators.bollinger.upper[i],
+      bbLower: indicators.bollinger.lower[i],
+      rsi: indicators.rsi[i],
+      macd: indicators.macd.macd[i],
+      macdSignal: indicators.macd.signal[i],
+      macdHistogram: indicators.macd.histogram[i],
+    }));
+  }, [candles]);
+
+  const isEnabled = (id: IndicatorId) => enabled.includes(id);
+  const toggleIndicator = (id: IndicatorId) =>
+    setEnabled(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+
+  const trackCrosshair = (state: { activeTooltipIndex?: unknown }) =>
+    setActiveIndex(state.activeTooltipIndex != null ? Number(state.activeTooltipIndex) : null);
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const lineColor = first && last && last.close < first.open ? DOWN_COLOR : UP_COLOR;
+  const maxVolume = Math.max(0, ...candles.map(c => c.volume));
+
+  const formatPrice = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`;
+
+  const renderTooltip = ({ active: isActive, payload }: { active?: boolean; payload?: ReadonlyArray<{ payload?: ChartRow }> }) => {
+    const candle = isActive ? payload?.[0]?.payload : undefined;
+    if (!candle) return null;
+    return (
+      <div className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-200 font-mono">
+        <p className="text-gray-400 mb-1">{format(candle.time, 'd MMM yyyy, HH:mm')}</p>
+        <p>O {formatPrice(candle.open)}</p>
+        <p>H {formatPrice(candle.high)}</p>
+        <p>L {formatPrice(candle.low)}</p>
+        <p className={candle.close >= candle.open ? 'text-green-400' : 'text-red-400'}>C {formatPrice(candle.close)}</p>
+        {candle.volume > 0 && <p className="text-gray-400">Vol ${volumeFormatter.format(candle.volume)}</p>}
+        {isEnabled('sma') && candle.sma !== null && <p className="text-yellow-300">SMA {formatPrice(candle.sma)}</p>}
+        {isEnabled('ema') && candle.ema !== null && <p className="text-blue-300">EMA {formatPrice(candle.ema)}</p>}
+        {isEnabled('rsi') && candle.rsi !== null && <p className="text-purple-300">RSI {candle.rsi.toFixed(1)}</p>}
+        {isEnabled('macd') && candle.macd !== null && (
+          <p className="text-cyan-300">MACD {candle.macd.toFixed(decimals + 1)}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <div className="flex gap-1">
+          {RANGES.map(option => (
+            <button
+              key={option}
+              onClick={() => onRangeChange(option)}
+              className={`px-2 py-1 rounded text-xs font-semibold ${
+                option === range
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(['candles', 'line'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              title={option === 'candles' ? 'Candlesticks' : 'Line'}
+              className={`px-2 py-1 rounded text-xs ${
+                option === mode
+                  ? 'bg-gray-700 text-white dark:bg-gray-500'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option === 'candles' ? '🕯️' : '📈'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {INDICATORS.map(indicator => (
+          <button
+            key={indicator.id}
+            onClick={() => toggleIndicator(indicator.id)}
+            title={indicator.pane === 'overlay' ? 'Overlay on the price chart' : 'Separate pane below the chart'}
+            className={`px-2 py-0.5 rounded-full text-xs border ${
+              isEnabled(indicator.id)
+                ? 'border-green-500 bg-green-500/20 text-green-700 dark:text-green-300'
+                : 'border-gray-300 text-gray-500 dark:border-gray-600 dark:text-gray-400'
+            }`}
+          >
+            {indicator.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-gray-900 rounded-xl p-2 h-64 relative">
+        {candles.length > 1 && (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={rows}
+              syncId="price-chart"
+              margin={{ top: 8, right: 0, bottom: 0, left: 0 }}
+              onMouseMove={trackCrosshair}
+              onMouseLeave={() => setActiveIndex(null)}
+            >
+              <CartesianGrid stroke="#374151" strokeDasharray="5 5" vertical={false} />
+              <XAxis
+                dataKey="time"
+                tickFormatter={time => format(time, TICK_FORMATS[range])}
+                stroke="#6B7280"
+                tick={{ fontSize: 10 }}
+                minTickGap={40}
+              />
+              <YAxis
+                yAxisId="price"
+                orientation="right"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatPrice}
+                stroke="#6B7280"
+                tick={{ fontSize: 10 }}
+                width={80}
+              />
+              {/* Volume sits in the bottom quarter, under the price */}
+              <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4 || 1]} />
+              <Tooltip content={renderTooltip} cursor={false} isAnimationActive={false} />
+
+              <Bar yAxisId="volume" dataKey="volume" isAnimationActive={false} fill="#4B5563" fillOpacity={0.5} />
+              {mode === 'candles' ? (
+                <Bar
+                  yAxisId="price"
+                  dataKey={(candle: Candle) => [candle.low, candle.high]}
+                  shape={CandleShape}
+                  isAnimationActive={false}
+                />
+              ) : (
+                <Line
+                  yAxisId="price"
+                  dataKey="close"
+                  stroke={lineColor}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+
+              {isEnabled('bollinger') && (
+                <Line yAxisId="price" dataKey="bbUpper" stroke="#A78BFA" strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+              )}
+              {isEnabled('bollinger') && (
+                <Line yAxisId="price" dataKey="bbLower" stroke="#A78BFA" strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+              )}
+              {isEnabled('sma') && (
+                <Line yAxisId="price" dataKey="sma" stroke="#FCD34D" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              )}
+              {isEnabled('ema') && (
+                <Line yAxisId="price" dataKey="ema" stroke="#60A5FA" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              )}
+
+              {active && (
+                <ReferenceLine yAxisId="price" x={active.time} stroke="#9CA3AF" strokeDasharray="3 3" />
+              )}
+              {active && (
+                <ReferenceLine yAxisId="price" y={active.close} stroke="#9CA3AF" strokeDasharray="3 3" />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+
+        {isLoading && candles.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+          </div>
+        )}
+
+        {!isLoading && candles.length < 2 && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <div className="text-gray-400 text-4xl mb-2">📊</div>
+              <p className="text-gray-400">{series ? 'No price history for this range' : 'Select an asset to view chart'}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Sub-panes share the crosshair with the main chart through syncId */}
+      {candles.length > 1 && isEnabled('rsi') && (
+        <div className="bg-gray-900 rounded-xl p-2 h-24 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} syncId="price-chart" margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+              <XAxis dataKey="time" hide />
+              <YAxis orientation="right" domain={[0, 100]} ticks={[30, 70]} stroke="#6B7280" tick={{ fontSize: 10 }} width={80} />
+              <Tooltip content={() => null} cursor={{ stroke: '#9CA3AF', strokeDasharray: '3 3' }} />
+              <ReferenceLine y={INDICATOR_SETTINGS.rsi.overbought} stroke="#EF4444" strokeDasharray="3 3" />
+              <ReferenceLine y={INDICATOR_SETTINGS.rsi.oversold} stroke="#10B981" strokeDasharray="3 3" />
+              <Line dataKey="rsi" stroke="#C084FC" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {candles.length > 1 && isEnabled('macd') && (
+        <div className="bg-gray-900 rounded-xl p-2 h-24 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} syncId="price-chart" margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+              <XAxis dataKey="time" hide />
+              <YAxis orientation="right" stroke="#6B7280" tick={{ fontSize: 10 }} width={80} tickFormatter={value => Number(value).toFixed(decimals)} />
+              <Tooltip content={() => null} cursor={{ stroke: '#9CA3AF', strokeDasharray: '3 3' }} />
+              <ReferenceLine y={0} stroke="#4B5563" />
+              <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                {rows.map(row => (
+                  <Cell key={row.time} fill={(row.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+                ))}
+              </Bar>
+              <Line dataKey="macd" stroke="#22D3EE" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              <Line dataKey="macdSignal" stroke="#FB923C" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
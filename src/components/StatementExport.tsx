@@ -0,0 +1,184 @@
+// components/StatementExport.tsx
+import { useState } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { apiService, ApiErrorHandler, type UserActivity } from '../services/api';
+import {
+  buildStatement,
+  statementFileName,
+  statementToCsv,
+  statementToHtml,
+  type Statement
+} from '../services/statement';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+type ExportFormat = 'csv' | 'pdf';
+
+const PAGE_SIZE = 100;
+
+const fetchActivitiesSince = async (from: Date): Promise<UserActivity[]> => {
+  const activities: UserActivity[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await apiService.getMyActivities({ from: from.toISOString(), cursor, limit: PAGE_SIZE });
+    activities.push(...page.items);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return activities;
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Prints from a hidden frame so popup blockers don't get in the way; "Save as PDF" does the rest
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    return;
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+const StatementExport = () => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(today);
+  const [generating, setGenerating] = useState<ExportFormat | null>(null);
+  const [preview, setPreview] = useState<Statement | null>(null);
+
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+
+  const generate = async (exportFormat: ExportFormat) => {
+    if (!user) return;
+    if (from > to) {
+      alert('The start date must be on or before the end date');
+      return;
+    }
+
+    setGenerating(exportFormat);
+    try {
+      const fromDate = new Date(`${from}T00:00:00`);
+      const [wallet, activities, withdrawals, investments] = await Promise.all([
+        apiService.getWalletBalance(user.phone_number),
+        fetchActivitiesSince(fromDate),
+        apiService.getMyWithdrawals(),
+        apiService.getMyInvestments(user.phone_number)
+      ]);
+
+      const statement = buildStatement({
+        from: fromDate,
+        to: new Date(`${to}T23:59:59.999`),
+        accountName: user.name,
+        accountPhone: user.phone_number,
+        currentBalance: wallet.balance,
+        activities,
+        withdrawals,
+        investments
+      });
+      setPreview(statement);
+
+      if (exportFormat === 'csv') {
+        downloadFile(statementToCsv(statement, formatCurrency), statementFileName(statement, 'csv'), 'text/csv;charset=utf-8');
+      } else {
+        printHtml(statementToHtml(statement, formatCurrency));
+      }
+    } catch (error) {
+      alert(`Could not generate statement: ${ApiErrorHandler.handle(error, 'Generate statement')}`);
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl p-4 bg-white/60 dark:bg-gray-800/60 shadow">
+      <h3 className="text-xl font-bold mb-1">Account Statement</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Download your wallet activity and investments for a period, e.g. for tax returns or loan applications.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <label className="text-xs text-gray-600 dark:text-gray-300">
+          From
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full mt-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-800 dark:text-white"
+          />
+        </label>
+        <label className="text-xs text-gray-600 dark:text-gray-300">
+          To
+          <input
+            type="date"
+            value={to}
+            min={from}
+            max={today}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full mt-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-800 dark:text-white"
+          />
+        </label>
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          onClick={() => generate('csv')}
+          disabled={generating !== null}
+          className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-400 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+        >
+          {generating === 'csv' ? 'Preparing...' : 'Download CSV'}
+        </button>
+        <button
+          onClick={() => generate('pdf')}
+          disabled={generating !== null}
+          className="flex-1 py-3 bg-teal-700 hover:bg-teal-800 disabled:bg-gray-400 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+        >
+          {generating === 'pdf' ? 'Preparing...' : 'Print / PDF'}
+        </button>
+      </div>
+
+      {preview && (
+        <div className="mt-4 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Opening balance</span>
+            <span className="font-semibold">{formatCurrency(preview.openingBalance)}</span>
+          </div>
+          {preview.totals.map(total => (
+            <div key={total.activity_type} className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400 capitalize">
+                {total.activity_type} ({total.count})
+              </span>
+              <span>{formatCurrency(total.total)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1">
+            <span className="text-gray-600 dark:text-gray-400">Closing balance</span>
+            <span className="font-semibold">{formatCurrency(preview.closingBalance)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatementExport;
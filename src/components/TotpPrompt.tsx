@@ -0,0 +1,87 @@
+// components/TotpPrompt.tsx
+import { useState } from 'react';
+
+const TOTP_LENGTH = 6;
+
+interface TotpPromptProps {
+  title: string;
+  description: string;
+  confirmLabel?: string;
+  error?: string;
+  loading?: boolean;
+  onConfirm: (code: string) => void;
+  onCancel: () => void;
+}
+
+// Modal asking for a fresh authenticator code before a sensitive action
+const TotpPrompt = ({
+  title,
+  description,
+  confirmLabel = 'Confirm',
+  error,
+  loading = false,
+  onConfirm,
+  onCancel
+}: TotpPromptProps) => {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length === TOTP_LENGTH) {
+      onConfirm(code);
+      setCode('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-4"
+      >
+        <div className="text-center">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white">{title}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{description}</p>
+        </div>
+
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, TOTP_LENGTH))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="000000"
+          className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white text-center text-2xl tracking-widest focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          autoFocus
+          disabled={loading}
+        />
+
+        {error && (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={loading}
+            className="flex-1 py-3 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading || code.length !== TOTP_LENGTH}
+            className="flex-1 py-3 bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-gray-400 disabled:to-gray-500 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Verifying...' : confirmLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TotpPrompt;
@@ -1,8 +1,34 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useCurrency } from '../contexts/CurrencyContext';
-import { apiService, type Asset, type WalletData, type UserInvestment } from '../services/api';
+import { usePriceAlerts } from '../contexts/PriceAlertsContext';
+import { useWatchlists } from '../contexts/WatchlistContext';
+import { apiService, ApiErrorHandler, type Asset, type WalletData, type UserInvestment } from '../services/api';
+import { kes, CurrencyConversionError } from '../services/money';
+import {
+  DEFAULT_INTERVALS,
+  marketDataService,
+  type AssetClass,
+  type CandleSeries,
+  type ChartRange,
+  type DataFreshness,
+  type MarketData
+} from '../services/marketData';
+import { deriveTrend, type TrendSignal } from '../services/indicators';
+import {
+  applyAssetFilters,
+  assetRoi,
+  filtersFromParams,
+  filtersToParams,
+  hasActiveFilters,
+  type AssetFilters
+} from '../services/assetSearch';
+import { usePrices, useStreamStatus } from '../hooks/usePrice';
+import PriceChart from './PriceChart';
+import PriceAlertModal from './PriceAlertModal';
+import WatchlistBar from './WatchlistBar';
+import AssetFilterBar from './AssetFilterBar';
 
 interface TradingProps {
   walletData?: WalletData | null;
@@ -10,86 +36,91 @@ interface TradingProps {
   onInvestmentUpdate?: () => void;
 }
 
-// Currency exchange rates (from KES)
-const CURRENCY_RATES = {
-  "KES": 1.0,
-  "USD": 0.0078,
-  "EUR": 0.0072,
-  "GBP": 0.0062,
+// Tells people whether a price is real market data or a stand-in
+const FRESHNESS_LABELS: Record<DataFreshness, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'bg-green-900/60 text-green-300' },
+  cached: { label: 'Delayed', className: 'bg-yellow-900/60 text-yellow-300' },
+  static: { label: 'Simulated', className: 'bg-gray-700 text-gray-300' },
 };
 
+// trend and moving_average come from candle history, see deriveTrend
+type BaseAsset = Omit<Asset, 'trend' | 'moving_average'>;
+
+// History used for the trend signal: a month of candles fills every indicator
+const TREND_RANGE: ChartRange = '1M';
+
 // Updated base assets with simplified structure and adjusted income ranges
-const baseAssetsData: Asset[] = [
+const baseAssetsData: BaseAsset[] = [
   // ==================== CRYPTO ASSETS (12 pairs) ====================
   {
     id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC', type: 'crypto',
-    current_price: 92036.00, change_percentage: 2.34, moving_average: 91000.50, trend: 'up',
+    current_price: 92036.00, change_percentage: 2.34,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:BTCUSDT',
     hourly_income: 160, min_investment: 700, duration: 24
   },
   {
     id: 'ethereum', name: 'Ethereum', symbol: 'ETH', type: 'crypto',
-    current_price: 3016.97, change_percentage: 1.23, moving_average: 2980.20, trend: 'up',
+    current_price: 3016.97, change_percentage: 1.23,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:ETHUSDT',
     hourly_income: 140, min_investment: 600, duration: 24
   },
   {
     id: 'bnb', name: 'Binance Coin', symbol: 'BNB', type: 'crypto',
-    current_price: 321.78, change_percentage: 0.89, moving_average: 318.50, trend: 'up',
+    current_price: 321.78, change_percentage: 0.89,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:BNBUSDT',
     hourly_income: 120, min_investment: 550, duration: 24
   },
   {
     id: 'solana', name: 'Solana', symbol: 'SOL', type: 'crypto',
-    current_price: 107.89, change_percentage: 3.45, moving_average: 104.20, trend: 'up',
+    current_price: 107.89, change_percentage: 3.45,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:SOLUSDT',
     hourly_income: 150, min_investment: 650, duration: 24
   },
   {
     id: 'xrp', name: 'Ripple', symbol: 'XRP', type: 'crypto',
-    current_price: 0.6234, change_percentage: -0.56, moving_average: 0.63, trend: 'down',
+    current_price: 0.6234, change_percentage: -0.56,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:XRPUSDT',
     hourly_income: 80, min_investment: 450, duration: 24
   },
   {
     id: 'cardano', name: 'Cardano', symbol: 'ADA', type: 'crypto',
-    current_price: 0.4821, change_percentage: 1.25, moving_average: 0.478, trend: 'up',
+    current_price: 0.4821, change_percentage: 1.25,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:ADAUSDT',
     hourly_income: 70, min_investment: 400, duration: 24
   },
   {
     id: 'dogecoin', name: 'Dogecoin', symbol: 'DOGE', type: 'crypto',
-    current_price: 0.0876, change_percentage: 2.15, moving_average: 0.085, trend: 'up',
+    current_price: 0.0876, change_percentage: 2.15,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:DOGEUSDT',
     hourly_income: 60, min_investment: 350, duration: 24
   },
   {
     id: 'polkadot', name: 'Polkadot', symbol: 'DOT', type: 'crypto',
-    current_price: 7.234, change_percentage: -1.23, moving_average: 7.35, trend: 'down',
+    current_price: 7.234, change_percentage: -1.23,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:DOTUSDT',
     hourly_income: 90, min_investment: 500, duration: 24
   },
   {
     id: 'litecoin', name: 'Litecoin', symbol: 'LTC', type: 'crypto',
-    current_price: 72.89, change_percentage: 0.89, moving_average: 72.20, trend: 'up',
+    current_price: 72.89, change_percentage: 0.89,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:LTCUSDT',
     hourly_income: 100, min_investment: 550, duration: 24
   },
   {
     id: 'chainlink', name: 'Chainlink', symbol: 'LINK', type: 'crypto',
-    current_price: 15.67, change_percentage: 1.67, moving_average: 15.40, trend: 'up',
+    current_price: 15.67, change_percentage: 1.67,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:LINKUSDT',
     hourly_income: 110, min_investment: 600, duration: 24
   },
   {
     id: 'avalanche', name: 'Avalanche', symbol: 'AVAX', type: 'crypto',
-    current_price: 42.15, change_percentage: 2.15, moving_average: 41.20, trend: 'up',
+    current_price: 42.15, change_percentage: 2.15,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:AVAXUSDT',
     hourly_income: 130, min_investment: 650, duration: 24
   },
   {
     id: 'polygon', name: 'Polygon', symbol: 'MATIC', type: 'crypto',
-    current_price: 0.95, change_percentage: 1.45, moving_average: 0.93, trend: 'up',
+    current_price: 0.95, change_percentage: 1.45,
     chart_url: 'https://www.tradingview.com/chart/?symbol=BINANCE:MATICUSDT',
     hourly_income: 85, min_investment: 480, duration: 24
   },
@@ -97,61 +128,61 @@ const baseAssetsData: Asset[] = [
   // ==================== FOREX ASSETS (10 pairs) ====================
   {
     id: 'eur-usd', name: 'EUR/USD', symbol: 'EURUSD', type: 'forex',
-    current_price: 1.1591, change_percentage: 0.12, moving_average: 1.1580, trend: 'up',
+    current_price: 1.1591, change_percentage: 0.12,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:EURUSD',
     hourly_income: 150, min_investment: 700, duration: 24
   },
   {
     id: 'gbp-usd', name: 'GBP/USD', symbol: 'GBPUSD', type: 'forex',
-    current_price: 1.2678, change_percentage: -0.23, moving_average: 1.2690, trend: 'down',
+    current_price: 1.2678, change_percentage: -0.23,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:GBPUSD',
     hourly_income: 140, min_investment: 650, duration: 24
   },
   {
     id: 'usd-jpy', name: 'USD/JPY', symbol: 'USDJPY', type: 'forex',
-    current_price: 148.25, change_percentage: 0.45, moving_average: 147.80, trend: 'up',
+    current_price: 148.25, change_percentage: 0.45,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:USDJPY',
     hourly_income: 130, min_investment: 600, duration: 24
   },
   {
     id: 'usd-chf', name: 'USD/CHF', symbol: 'USDCHF', type: 'forex',
-    current_price: 0.8689, change_percentage: -0.15, moving_average: 0.8695, trend: 'down',
+    current_price: 0.8689, change_percentage: -0.15,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:USDCHF',
     hourly_income: 120, min_investment: 580, duration: 24
   },
   {
     id: 'aud-usd', name: 'AUD/USD', symbol: 'AUDUSD', type: 'forex',
-    current_price: 0.6523, change_percentage: 0.67, moving_average: 0.6480, trend: 'up',
+    current_price: 0.6523, change_percentage: 0.67,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:AUDUSD',
     hourly_income: 125, min_investment: 590, duration: 24
   },
   {
     id: 'usd-cad', name: 'USD/CAD', symbol: 'USDCAD', type: 'forex',
-    current_price: 1.3521, change_percentage: -0.34, moving_average: 1.3545, trend: 'down',
+    current_price: 1.3521, change_percentage: -0.34,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:USDCAD',
     hourly_income: 115, min_investment: 570, duration: 24
   },
   {
     id: 'nzd-usd', name: 'NZD/USD', symbol: 'NZDUSD', type: 'forex',
-    current_price: 0.6123, change_percentage: 0.89, moving_average: 0.6080, trend: 'up',
+    current_price: 0.6123, change_percentage: 0.89,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:NZDUSD',
     hourly_income: 110, min_investment: 550, duration: 24
   },
   {
     id: 'eur-gbp', name: 'EUR/GBP', symbol: 'EURGBP', type: 'forex',
-    current_price: 0.8567, change_percentage: 0.23, moving_average: 0.8550, trend: 'up',
+    current_price: 0.8567, change_percentage: 0.23,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:EURGBP',
     hourly_income: 100, min_investment: 520, duration: 24
   },
   {
     id: 'eur-jpy', name: 'EUR/JPY', symbol: 'EURJPY', type: 'forex',
-    current_price: 160.89, change_percentage: 0.56, moving_average: 160.20, trend: 'up',
+    current_price: 160.89, change_percentage: 0.56,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:EURJPY',
     hourly_income: 160, min_investment: 750, duration: 24
   },
   {
     id: 'gbp-jpy', name: 'GBP/JPY', symbol: 'GBPJPY', type: 'forex',
-    current_price: 188.34, change_percentage: -0.12, moving_average: 188.50, trend: 'down',
+    current_price: 188.34, change_percentage: -0.12,
     chart_url: 'https://www.tradingview.com/chart/?symbol=FX:GBPJPY',
     hourly_income: 155, min_investment: 720, duration: 24
   },
@@ -159,13 +190,13 @@ const baseAssetsData: Asset[] = [
   // ==================== FUTURES (2 pairs in forex section) ====================
   {
     id: 'gold', name: 'Gold Futures', symbol: 'XAUUSD', type: 'forex',
-    current_price: 1987.45, change_percentage: 0.89, moving_average: 1975.60, trend: 'up',
+    current_price: 1987.45, change_percentage: 0.89,
     chart_url: 'https://www.tradingview.com/chart/?symbol=TVC:GOLD',
     hourly_income: 160, min_investment: 800, duration: 24
   },
   {
     id: 'oil', name: 'Crude Oil WTI', symbol: 'USOIL', type: 'forex',
-    current_price: 78.45, change_percentage: -0.67, moving_average: 78.90, trend: 'down',
+    current_price: 78.45, change_percentage: -0.67,
     chart_url: 'https://www.tradingview.com/chart/?symbol=TVC:USOIL',
     hourly_income: 145, min_investment: 750, duration: 24
   },
@@ -173,54 +204,57 @@ const baseAssetsData: Asset[] = [
   // ==================== STOCKS (8 pairs) ====================
   {
     id: 'apple', name: 'Apple Inc', symbol: 'AAPL', type: 'stock',
-    current_price: 189.45, change_percentage: 1.23, moving_average: 187.20, trend: 'up',
+    current_price: 189.45, change_percentage: 1.23,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:AAPL',
     hourly_income: 150, min_investment: 700, duration: 24
   },
   {
     id: 'microsoft', name: 'Microsoft Corp', symbol: 'MSFT', type: 'stock',
-    current_price: 378.85, change_percentage: 0.89, moving_average: 375.60, trend: 'up',
+    current_price: 378.85, change_percentage: 0.89,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:MSFT',
     hourly_income: 155, min_investment: 720, duration: 24
   },
   {
     id: 'google', name: 'Alphabet Inc', symbol: 'GOOGL', type: 'stock',
-    current_price: 138.45, change_percentage: 1.45, moving_average: 136.20, trend: 'up',
+    current_price: 138.45, change_percentage: 1.45,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:GOOGL',
     hourly_income: 140, min_investment: 680, duration: 24
   },
   {
     id: 'amazon', name: 'Amazon.com Inc', symbol: 'AMZN', type: 'stock',
-    current_price: 154.75, change_percentage: 0.67, moving_average: 153.45, trend: 'up',
+    current_price: 154.75, change_percentage: 0.67,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:AMZN',
     hourly_income: 145, min_investment: 690, duration: 24
   },
   {
     id: 'tesla', name: 'Tesla Inc', symbol: 'TSLA', type: 'stock',
-    current_price: 245.60, change_percentage: -1.23, moving_average: 248.90, trend: 'down',
+    current_price: 245.60, change_percentage: -1.23,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:TSLA',
     hourly_income: 160, min_investment: 750, duration: 24
   },
   {
     id: 'meta', name: 'Meta Platforms', symbol: 'META', type: 'stock',
-    current_price: 345.25, change_percentage: 2.34, moving_average: 337.80, trend: 'up',
+    current_price: 345.25, change_percentage: 2.34,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:META',
     hourly_income: 155, min_investment: 730, duration: 24
   },
   {
     id: 'nvidia', name: 'NVIDIA Corp', symbol: 'NVDA', type: 'stock',
-    current_price: 495.75, change_percentage: 3.45, moving_average: 478.90, trend: 'up',
+    current_price: 495.75, change_percentage: 3.45,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:NVDA',
     hourly_income: 160, min_investment: 780, duration: 24
   },
   {
     id: 'netflix', name: 'Netflix Inc', symbol: 'NFLX', type: 'stock',
-    current_price: 485.32, change_percentage: 1.12, moving_average: 480.15, trend: 'up',
+    current_price: 485.32, change_percentage: 1.12,
     chart_url: 'https://www.tradingview.com/chart/?symbol=NASDAQ:NFLX',
     hourly_income: 135, min_investment: 650, duration: 24
   }
 ];
 
+// Every listed symbol streams, so switching tabs never waits for a first tick
+const STREAM_SYMBOLS = baseAssetsData.map(asset => asset.symbol);
+
 const Trading: React.FC<TradingProps> = ({ 
   walletData = null, 
   userInvestments = [], 
@@ -228,173 +262,218 @@ const Trading: React.FC<TradingProps> = ({
 }) => {
   const { pairId } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
-  const { formatCurrency, convertAmount, currentCurrency } = useCurrency();
+  const { formatCurrency, formatPercent, converter, toDisplay, fromDisplay, currentCurrency } = useCurrency();
   
-  const [assets, setAssets] = useState<Asset[]>([]);
+  const [listedAssets, setListedAssets] = useState<BaseAsset[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
   const [investmentAmount, setInvestmentAmount] = useState('');
   const [isInvesting, setIsInvesting] = useState(false);
-  const [activeTab, setActiveTab] = useState<'crypto' | 'forex' | 'stock'>('crypto');
+  const [activeTab, setActiveTab] = useState<'crypto' | 'forex' | 'stock' | 'watchlist'>('crypto');
   const [isLoading, setIsLoading] = useState(false);
   const [investmentError, setInvestmentError] = useState<string>('');
   const [investmentSuccess, setInvestmentSuccess] = useState<string>('');
-  const [priceHistory, setPriceHistory] = useState<{[key: string]: number[]}>({});
-  const [realTimePrices, setRealTimePrices] = useState<{[key: string]: number}>({});
-  const chartCanvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
+  const [marketQuotes, setMarketQuotes] = useState<{[key: string]: MarketData}>({});
+  const [trendSignals, setTrendSignals] = useState<{[key: string]: TrendSignal}>({});
+  const [chartRange, setChartRange] = useState<ChartRange>('1D');
+  const [candleSeries, setCandleSeries] = useState<CandleSeries | null>(null);
+  const [isChartLoading, setIsChartLoading] = useState(false);
+  const [alertAsset, setAlertAsset] = useState<Asset | null>(null);
+  const [draggedSymbol, setDraggedSymbol] = useState<string | null>(null);
+  const { alerts } = usePriceAlerts();
+  const { activeWatchlist, loading: watchlistsLoading, isWatched, toggleWatched, moveSymbol } = useWatchlists();
   const progressIntervalRef = useRef<NodeJS.Timeout>();
 
-  // Real-time price updates from online sources
+  // The amount field is in the selected currency; asset and wallet amounts are KES.
+  // Rounded up so the minimum still clears the KES check after converting back.
+  const toInputAmount = (amountKes: number): string =>
+    String(Math.ceil(toDisplay(kes(amountKes)).amount * 100) / 100);
+
+  const parseInvestmentKes = (input: string): number | null => {
+    const amount = parseFloat(input);
+    if (isNaN(amount) || amount <= 0) return null;
+    try {
+      return converter.toBase(fromDisplay(amount)).amount;
+    } catch (error) {
+      if (error instanceof CurrencyConversionError) return null;
+      throw error;
+    }
+  };
+
+  const investmentKes = parseInvestmentKes(investmentAmount);
+
+  // Search, sort and filters live in the query string so a view can be shared
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const filtersActive = hasActiveFilters(filters);
+  const updateFilters = (next: AssetFilters) =>
+    setSearchParams(filtersToParams(next, searchParams), { replace: true });
+
+  const ticks = usePrices(STREAM_SYMBOLS);
+  const { status: streamStatus } = useStreamStatus();
+
+  // Opening quotes, overtaken by stream ticks as they arrive
+  const quotes = useMemo(() => {
+    const merged: {[key: string]: MarketData} = { ...marketQuotes };
+    baseAssetsData.forEach(asset => {
+      const tick = ticks[asset.symbol];
+      const quote: MarketData | undefined = merged[asset.id];
+      if (!tick || (quote && quote.timestamp > tick.timestamp)) return;
+      // A tick has no range or volume, so keep the quote's when there is one
+      const base = quote ?? { symbol: asset.symbol, high24h: null, low24h: null, volume: 0 };
+      merged[asset.id] = {
+        ...base,
+        price: tick.price,
+        change: tick.price - tick.price / (1 + tick.changePercent / 100),
+        changePercent: tick.changePercent,
+        timestamp: tick.timestamp,
+        source: tick.source,
+        freshness: 'live',
+      };
+    });
+    return merged;
+  }, [marketQuotes, ticks]);
+
+  // Live price over the listed one; trend from the indicators, with the 24h change
+  // standing in until the candles arrive
+  const withMarketData = (asset: BaseAsset): Asset => {
+    const quote = quotes[asset.id];
+    const signal = trendSignals[asset.id];
+    const currentPrice = quote?.price ?? asset.current_price;
+    const changePercentage = quote?.changePercent ?? asset.change_percentage;
+    return {
+      ...asset,
+      current_price: currentPrice,
+      change_percentage: changePercentage,
+      moving_average: signal?.movingAverage ?? currentPrice,
+      trend: signal?.trend ?? (changePercentage >= 0 ? 'up' : 'down'),
+    };
+  };
+
+  // Opening prices from online sources; the price stream keeps them current after that
   useEffect(() => {
-    const fetchRealTimePrices = async () => {
+    const fetchOpeningPrices = async () => {
       try {
-        // Simulate real-time price updates with small variations
-        const updatedPrices: {[key: string]: number} = {};
-        
+        const quotes = await marketDataService.getQuotes(baseAssetsData.map(asset => ({
+          symbol: asset.symbol,
+          assetClass: asset.type as AssetClass,
+          reference: { price: asset.current_price, changePercent: asset.change_percentage },
+        })));
+
+        const updatedQuotes: {[key: string]: MarketData} = {};
         baseAssetsData.forEach(asset => {
-          const variation = (Math.random() - 0.5) * 0.02; // ±1% variation
-          updatedPrices[asset.id] = asset.current_price * (1 + variation);
+          const quote = quotes.get(asset.symbol);
+          if (quote) updatedQuotes[asset.id] = quote;
         });
-        
-        setRealTimePrices(updatedPrices);
+
+        setMarketQuotes(updatedQuotes);
       } catch (error) {
         console.error('Error fetching real-time prices:', error);
       }
     };
 
-    // Fetch initial prices
-    fetchRealTimePrices();
-
-    // Update prices every 30 seconds
-    const priceInterval = setInterval(fetchRealTimePrices, 30000);
+    fetchOpeningPrices();
 
     return () => {
-      clearInterval(priceInterval);
       if (progressIntervalRef.current) {
         clearInterval(progressIntervalRef.current);
       }
     };
   }, []);
 
-  // Initialize assets with real-time data and currency conversion
+  // Trend for every asset from its indicators; candles are cached, so refreshing is cheap
+  useEffect(() => {
+    let cancelled = false;
+
+    const computeTrends = async () => {
+      const entries = await Promise.all(baseAssetsData.map(async asset => {
+        const series = await marketDataService.getCandles(
+          {
+            symbol: asset.symbol,
+            assetClass: asset.type as AssetClass,
+            reference: { price: asset.current_price, changePercent: asset.change_percentage },
+          },
+          DEFAULT_INTERVALS[TREND_RANGE],
+          TREND_RANGE
+        );
+        // Simulated candles would give a made-up trend; those assets keep the 24h-change fallback
+        return [asset.id, series.freshness === 'static' ? null : deriveTrend(series.candles)] as const;
+      }));
+
+      if (cancelled) return;
+      const signals: {[key: string]: TrendSignal} = {};
+      entries.forEach(([id, signal]) => {
+        if (signal) signals[id] = signal;
+      });
+      setTrendSignals(signals);
+    };
+
+    computeTrends();
+    const trendInterval = setInterval(computeTrends, 15 * 60 * 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(trendInterval);
+    };
+  }, []);
+
+  // Listed assets; prices and trend are layered on in `assets` below
   useEffect(() => {
     const initializeAssets = async () => {
       setIsLoading(true);
       try {
-        let marketAssets: Asset[];
+        let marketAssets: BaseAsset[];
         
         try {
           // Try to fetch from API first
           marketAssets = await apiService.getMarketAssets();
         } catch (error) {
           console.log('Using base assets data');
-          // Use base assets with real-time price updates
-          marketAssets = baseAssetsData.map(asset => ({
-            ...asset,
-            current_price: realTimePrices[asset.id] || asset.current_price,
-          }));
+          // Use base assets; live quotes are applied below
+          marketAssets = baseAssetsData;
         }
         
-        // Convert base prices to current currency
-        const convertedAssets = marketAssets.map(asset => {
-          const minInvestment = convertAmount ? convertAmount(asset.min_investment) : asset.min_investment;
-          const hourlyIncome = convertAmount ? convertAmount(asset.hourly_income) : asset.hourly_income;
-
-          return {
-            ...asset,
-            hourly_income: Number(hourlyIncome),
-            min_investment: minInvestment,
-            current_price: realTimePrices[asset.id] || asset.current_price,
-          };
-        });
-
-        setAssets(convertedAssets);
-        
-        // Initialize price history with realistic movement
-        const initialHistory: {[key: string]: number[]} = {};
-        convertedAssets.forEach(asset => {
-          // Generate realistic price history with trend
-          const history = [];
-          let currentPrice = asset.current_price;
-          const trend = asset.trend === 'up' ? 1 : -1;
-          
-          for (let i = 0; i < 50; i++) {
-            const variation = (Math.random() * 0.01 + 0.005) * trend;
-            currentPrice = currentPrice * (1 + variation);
-            history.unshift(currentPrice);
-          }
-          
-          initialHistory[asset.id] = history;
-        });
-        setPriceHistory(initialHistory);
+        setListedAssets(marketAssets);
         
         // Auto-select first asset
-        if (convertedAssets.length > 0 && !selectedAsset) {
-          const firstAsset = convertedAssets[0];
+        if (marketAssets.length > 0 && !selectedAsset) {
+          const firstAsset = withMarketData(marketAssets[0]);
           setSelectedAsset(firstAsset);
-          setInvestmentAmount(firstAsset.min_investment.toString());
+          setInvestmentAmount(toInputAmount(firstAsset.min_investment));
         }
       } catch (error) {
         console.error('Error initializing assets:', error);
         // Fallback to base assets if everything fails
-        const convertedAssets = baseAssetsData.map(asset => {
-          const minInvestment = convertAmount ? convertAmount(asset.min_investment) : asset.min_investment;
-          const hourlyIncome = convertAmount ? convertAmount(asset.hourly_income) : asset.hourly_income;
-
-          return {
-            ...asset,
-            hourly_income: Number(hourlyIncome),
-            min_investment: minInvestment,
-            current_price: realTimePrices[asset.id] || asset.current_price,
-          };
-        });
-        setAssets(convertedAssets);
+        setListedAssets(baseAssetsData);
       } finally {
         setIsLoading(false);
       }
     };
 
     initializeAssets();
-  }, [convertAmount, realTimePrices]);
+  }, []);
 
-  // Update assets when currency changes
-  useEffect(() => {
-    if (assets.length > 0) {
-      const updatedAssets = assets.map(asset => {
-        const minInvestment = convertAmount ? convertAmount(asset.min_investment) : asset.min_investment;
-        const hourlyIncome = convertAmount ? convertAmount(asset.hourly_income) : asset.hourly_income;
-
-        return {
-          ...asset,
-          hourly_income: Number(hourlyIncome),
-          min_investment: minInvestment,
-        };
-      });
+  // Amounts stay in KES; they're only converted for display
+  const assets = useMemo(() => listedAssets.map(withMarketData), [listedAssets, quotes, trendSignals]);
 
-      setAssets(updatedAssets);
-      
-      // Update investment amount if an asset is selected
-      if (selectedAsset) {
-        const currentAsset = updatedAssets.find(a => a.id === selectedAsset.id);
-        if (currentAsset) {
-          setSelectedAsset(currentAsset);
-          setInvestmentAmount(currentAsset.min_investment.toString());
-        }
-      }
+  // Re-express the amount being entered when the display currency changes
+  useEffect(() => {
+    if (selectedAsset) {
+      setInvestmentAmount(toInputAmount(selectedAsset.min_investment));
     }
-  }, [currentCurrency, convertAmount]);
+  }, [currentCurrency.code]);
 
-  // Handle URL pair selection
+  // Handle URL pair selection. Keyed on the listing, not `assets`, which changes with every
+  // tick and would keep resetting the amount being typed; the live price is read from `quotes`.
   useEffect(() => {
-    if (pairId && assets.length > 0) {
-      const asset = assets.find(a => a.id === pairId);
+    if (pairId && listedAssets.length > 0) {
+      const asset = listedAssets.find(a => a.id === pairId);
       if (asset) {
-        setSelectedAsset(asset);
-        setInvestmentAmount(asset.min_investment.toString());
+        setSelectedAsset(withMarketData(asset));
+        setInvestmentAmount(toInputAmount(asset.min_investment));
       }
     }
-  }, [pairId, assets]);
+  }, [pairId, listedAssets]);
 
   // Production investment handler
   const handleInvest = async () => {
@@ -403,14 +482,14 @@ const Trading: React.FC<TradingProps> = ({
       return;
     }
 
-    const amount = parseFloat(investmentAmount);
+    const amount = investmentKes;
 
     // Reset messages
     setInvestmentError('');
     setInvestmentSuccess('');
 
     // Validation checks
-    if (!investmentAmount || isNaN(amount) || amount <= 0) {
+    if (amount === null) {
       setInvestmentError('Please enter a valid investment amount');
       return;
     }
@@ -439,12 +518,9 @@ const Trading: React.FC<TradingProps> = ({
         phone_number: user.phone_number
       });
 
-      // Convert amount back to KSH for backend processing
-      const amountInKSH = currentCurrency.code === 'KES' ? amount : amount / CURRENCY_RATES[currentCurrency.code];
-      
       const investmentData = {
         asset_id: selectedAsset.id,
-        amount: amountInKSH, // Backend expects KSH
+        amount, // Backend expects KES
         phone_number: user.phone_number
       };
 
@@ -454,7 +530,7 @@ const Trading: React.FC<TradingProps> = ({
 
       if (result && result.success) {
         setInvestmentSuccess(`✅ ${result.message || `Successfully invested ${formatCurrency(amount)} in ${selectedAsset.name}!`}`);
-        setInvestmentAmount(selectedAsset.min_investment.toString());
+        setInvestmentAmount(toInputAmount(selectedAsset.min_investment));
         
         // Refresh parent data
         if (onInvestmentUpdate) {
@@ -493,21 +569,27 @@ const Trading: React.FC<TradingProps> = ({
 
   // Calculate ROI percentage
   const calculateROI = (asset: Asset) => {
-    return ((asset.hourly_income * asset.duration) / asset.min_investment * 100).toFixed(1);
+    return assetRoi(asset).toFixed(1);
   };
 
-  // Get current assets based on active tab
+  // Get current assets based on active tab, then search and filters
   const getCurrentAssets = useCallback(() => {
-    return assets.filter(asset => {
-      if (activeTab === 'forex') {
-        return asset.type === 'forex';
-      } else if (activeTab === 'stock') {
-        return asset.type === 'stock';
-      } else {
-        return asset.type === 'crypto';
-      }
-    });
-  }, [assets, activeTab]);
+    // The watchlist keeps its own order rather than the listing's
+    const tabAssets = activeTab === 'watchlist'
+      ? (activeWatchlist?.symbols ?? [])
+          .map(symbol => assets.find(asset => asset.symbol === symbol))
+          .filter((asset): asset is Asset => !!asset)
+      : assets.filter(asset => {
+          if (activeTab === 'forex') {
+            return asset.type === 'forex';
+          } else if (activeTab === 'stock') {
+            return asset.type === 'stock';
+          } else {
+            return asset.type === 'crypto';
+          }
+        });
+    return applyAssetFilters(tabAssets, filters);
+  }, [assets, activeTab, activeWatchlist, filters]);
 
   // Get TradingView URL
   const getTradingViewUrl = (asset: Asset) => {
@@ -527,160 +609,36 @@ const Trading: React.FC<TradingProps> = ({
     }
   };
 
-  // Enhanced chart animation with investment progress
-  const startChartAnimation = useCallback(() => {
-    const canvas = chartCanvasRef.current;
-    if (!canvas || !selectedAsset) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-
-    const drawChart = () => {
-      ctx.clearRect(0, 0, width, height);
-
-      // Draw grid
-      ctx.strokeStyle = '#374151';
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
-      for (let i = 0; i <= width; i += 50) {
-        ctx.beginPath();
-        ctx.moveTo(i, 0);
-        ctx.lineTo(i, height);
-        ctx.stroke();
-      }
-      for (let i = 0; i <= height; i += 50) {
-        ctx.beginPath();
-        ctx.moveTo(0, i);
-        ctx.lineTo(width, i);
-        ctx.stroke();
-      }
-      ctx.setLineDash([]);
-
-      const assetHistory = priceHistory[selectedAsset.id] || [selectedAsset.current_price];
-      
-      if (assetHistory.length > 1) {
-        const maxPrice = Math.max(...assetHistory);
-        const minPrice = Math.min(...assetHistory);
-        const priceRange = maxPrice - minPrice || 1;
-
-        // Draw price line with gradient
-        const gradient = ctx.createLinearGradient(0, 0, width, 0);
-        gradient.addColorStop(0, selectedAsset.trend === 'up' ? '#10B981' : '#EF4444');
-        gradient.addColorStop(1, selectedAsset.trend === 'up' ? '#059669' : '#DC2626');
-        
-        ctx.strokeStyle = gradient;
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-
-        const points = assetHistory.map((price, index) => {
-          const x = (index / (assetHistory.length - 1)) * width;
-          const y = height - ((price - minPrice) / priceRange) * height * 0.8 - height * 0.1;
-          return { x, y };
-        });
-
-        points.forEach((point, index) => {
-          if (index === 0) {
-            ctx.moveTo(point.x, point.y);
-          } else {
-            ctx.lineTo(point.x, point.y);
-          }
-        });
-        ctx.stroke();
-
-        // Draw investment progress line if amount is entered
-        if (investmentAmount && parseFloat(investmentAmount) >= selectedAsset.min_investment) {
-          const investmentMultiplier = parseFloat(investmentAmount) / selectedAsset.min_investment;
-          const expectedGrowth = 1 + (investmentMultiplier * 0.1); // Simulate growth based on investment
-          
-          ctx.strokeStyle = '#8B5CF6';
-          ctx.lineWidth = 2;
-          ctx.setLineDash([5, 3]);
-          ctx.beginPath();
-          ctx.moveTo(0, height * 0.5);
-          ctx.lineTo(width * 0.8, height * 0.5 * (1 / expectedGrowth));
-          ctx.stroke();
-          ctx.setLineDash([]);
-
-          // Draw target indicator
-          ctx.fillStyle = '#8B5CF6';
-          ctx.beginPath();
-          ctx.arc(width * 0.8, height * 0.5 * (1 / expectedGrowth), 6, 0, 2 * Math.PI);
-          ctx.fill();
-
-          // Target label
-          ctx.fillStyle = '#8B5CF6';
-          ctx.font = '10px monospace';
-          ctx.fillText('Target', width * 0.8 + 10, height * 0.5 * (1 / expectedGrowth));
-        }
-
-        // Draw current price indicator
-        const currentPoint = points[points.length - 1];
-        ctx.fillStyle = selectedAsset.trend === 'up' ? '#10B981' : '#EF4444';
-        ctx.beginPath();
-        ctx.arc(currentPoint.x, currentPoint.y, 6, 0, 2 * Math.PI);
-        ctx.fill();
-
-        // Price labels
-        ctx.fillStyle = '#9CA3AF';
-        ctx.font = '12px monospace';
-        ctx.fillText(
-          `$${maxPrice.toLocaleString(undefined, { 
-            minimumFractionDigits: selectedAsset.type === 'forex' ? 4 : 2,
-            maximumFractionDigits: selectedAsset.type === 'forex' ? 4 : 2 
-          })}`, 
-          width - 100, 
-          20
-        );
-        ctx.fillText(
-          `$${minPrice.toLocaleString(undefined, { 
-            minimumFractionDigits: selectedAsset.type === 'forex' ? 4 : 2,
-            maximumFractionDigits: selectedAsset.type === 'forex' ? 4 : 2 
-          })}`, 
-          width - 100, 
-          height - 10
-        );
-      }
-
-      animationRef.current = requestAnimationFrame(drawChart);
-    };
+  // Price history for the chart; reloads when the asset or range changes
+  useEffect(() => {
+    if (!selectedAsset) {
+      setCandleSeries(null);
+      return;
+    }
 
-    drawChart();
-  }, [selectedAsset, priceHistory, investmentAmount]);
+    let cancelled = false;
+    setIsChartLoading(true);
+    marketDataService
+      .getCandles(
+        {
+          symbol: selectedAsset.symbol,
+          assetClass: selectedAsset.type as AssetClass,
+          reference: { price: selectedAsset.current_price, changePercent: selectedAsset.change_percentage },
+        },
+        DEFAULT_INTERVALS[chartRange],
+        chartRange
+      )
+      .then(series => {
+        if (!cancelled) setCandleSeries(series);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChartLoading(false);
+      });
 
-  // Chart animation effect
-  useEffect(() => {
-    startChartAnimation();
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      cancelled = true;
     };
-  }, [startChartAnimation]);
-
-  // Enhanced real-time price updates for the chart with realistic movement
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (selectedAsset) {
-        setPriceHistory(prev => {
-          const currentHistory = prev[selectedAsset.id] || [selectedAsset.current_price];
-          const trend = selectedAsset.trend === 'up' ? 1 : -1;
-          const volatility = selectedAsset.type === 'crypto' ? 0.008 : 0.003;
-          const changeFactor = (Math.random() * volatility + 0.002) * trend;
-          const newPrice = currentHistory[currentHistory.length - 1] * (1 + changeFactor);
-          
-          return {
-            ...prev,
-            [selectedAsset.id]: [...currentHistory.slice(-49), newPrice]
-          };
-        });
-      }
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [selectedAsset]);
+  }, [selectedAsset?.id, chartRange]);
 
   // Auto-select first asset when tab changes
   useEffect(() => {
@@ -688,22 +646,28 @@ const Trading: React.FC<TradingProps> = ({
     if (currentAssets.length > 0 && (!selectedAsset || !currentAssets.find(a => a.id === selectedAsset?.id))) {
       const firstAsset = currentAssets[0];
       setSelectedAsset(firstAsset);
-      setInvestmentAmount(firstAsset.min_investment.toString());
+      setInvestmentAmount(toInputAmount(firstAsset.min_investment));
     }
   }, [activeTab, getCurrentAssets]);
 
-  const AssetCard = ({ asset }: { asset: Asset }) => {
+  // A plain render function, not a component: Trading re-renders on every stream tick, and a
+  // component declared here would be a new type each time, remounting every card
+  const renderAssetCard = (asset: Asset) => {
     const totalIncome = calculateTotalIncome(asset, asset.min_investment);
     const roi = calculateROI(asset);
+    const quote = quotes[asset.id];
+    const hasAlert = alerts.some(alert => alert.symbol === asset.symbol && alert.status === 'active');
+    const watched = isWatched(asset.symbol);
 
     return (
       <div 
+        key={asset.id}
         className={`bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4 text-white hover:from-gray-700 hover:to-gray-800 transition duration-200 cursor-pointer border-2 ${
           selectedAsset?.id === asset.id ? 'border-green-500' : 'border-transparent'
         }`}
         onClick={() => {
           setSelectedAsset(asset);
-          setInvestmentAmount(asset.min_investment.toString());
+          setInvestmentAmount(toInputAmount(asset.min_investment));
         }}
       >
         <div className="flex items-center mb-3">
@@ -716,6 +680,18 @@ const Trading: React.FC<TradingProps> = ({
             <h3 className="font-bold text-lg">{asset.name}</h3>
             <p className="text-gray-400 text-sm">{asset.symbol} • {asset.type.toUpperCase()}</p>
           </div>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleWatched(asset.symbol).catch(err => setInvestmentError(ApiErrorHandler.handle(err, 'Update watchlist')));
+            }}
+            disabled={watchlistsLoading}
+            className={`text-2xl mr-3 transition duration-200 disabled:opacity-40 ${watched ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-300'}`}
+            title={watched ? `Remove from ${activeWatchlist?.name}` : `Add to ${activeWatchlist?.name ?? 'a watchlist'}`}
+            aria-pressed={watched}
+          >
+            {watched ? '★' : '☆'}
+          </button>
           <div className="text-right">
             <p className="font-bold text-lg">
               ${asset.current_price.toLocaleString(undefined, { 
@@ -724,8 +700,16 @@ const Trading: React.FC<TradingProps> = ({
               })}
             </p>
             <span className={`text-sm ${asset.change_percentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-              {asset.change_percentage >= 0 ? '+' : ''}{asset.change_percentage.toFixed(2)}%
+              {formatPercent(asset.change_percentage, { signed: true })}
             </span>
+            {quote && (
+              <span
+                title={`${quote.source} · ${new Date(quote.timestamp).toLocaleString()}`}
+                className={`block mt-1 px-2 py-0.5 rounded-full text-xs ${FRESHNESS_LABELS[quote.freshness].className}`}
+              >
+                {FRESHNESS_LABELS[quote.freshness].label}
+              </span>
+            )}
           </div>
         </div>
 
@@ -761,12 +745,24 @@ const Trading: React.FC<TradingProps> = ({
             onClick={(e) => {
               e.stopPropagation();
               setSelectedAsset(asset);
-              setInvestmentAmount(asset.min_investment.toString());
+              setInvestmentAmount(toInputAmount(asset.min_investment));
             }}
             className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white py-2 rounded-lg font-bold transition duration-200"
           >
             INVEST
           </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setAlertAsset(asset);
+            }}
+            className={`flex items-center justify-center py-2 px-3 rounded-lg transition duration-200 ${
+              hasAlert ? 'bg-yellow-500 hover:bg-yellow-600 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-white'
+            }`}
+            title={hasAlert ? 'Price alert set' : 'Set a price alert'}
+          >
+            🔔
+          </button>
           <a
             href={getTradingViewUrl(asset)}
             target="_blank"
@@ -805,8 +801,8 @@ const Trading: React.FC<TradingProps> = ({
         <p className="text-gray-600 dark:text-gray-300 text-lg max-w-2xl mx-auto">
           Trade with confidence using real-time market data and smart investments
         </p>
-        <div className="mt-2 text-sm text-green-600 dark:text-green-400">
-          💰 Real-time prices updating every 30 seconds
+        <div className={`mt-2 text-sm ${streamStatus === 'open' ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+          {streamStatus === 'open' ? '💰 Live prices, updated as they move' : '⏳ Connecting to live prices…'}
         </div>
       </div>
 
@@ -839,7 +835,7 @@ const Trading: React.FC<TradingProps> = ({
           {/* Market Tabs */}
           <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6">
             <div className="flex space-x-2 mb-6">
-              {(['crypto', 'forex', 'stock'] as const).map((tab) => (
+              {(['crypto', 'forex', 'stock', 'watchlist'] as const).map((tab) => (
                 <button
                   key={tab}
                   onClick={() => setActiveTab(tab)}
@@ -849,19 +845,77 @@ const Trading: React.FC<TradingProps> = ({
                       : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
                   }`}
                 >
-                  {tab === 'crypto' ? 'CRYPTO (12)' : tab === 'forex' ? 'FOREX & FUTURES (12)' : 'STOCKS (8)'}
+                  {tab === 'crypto' ? 'CRYPTO (12)'
+                    : tab === 'forex' ? 'FOREX & FUTURES (12)'
+                    : tab === 'stock' ? 'STOCKS (8)'
+                    : `★ WATCHLIST (${activeWatchlist?.symbols.length ?? 0})`}
                 </button>
               ))}
             </div>
 
+            {activeTab === 'watchlist' && <WatchlistBar />}
+
+            <AssetFilterBar
+              filters={filters}
+              onChange={updateFilters}
+              resultCount={getCurrentAssets().length}
+              currencyCode={currentCurrency.code}
+              toInputAmount={toInputAmount}
+              parseAmount={parseInvestmentKes}
+            />
+
             {/* Asset Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {getCurrentAssets().map((asset) => (
-                <AssetCard key={asset.id} asset={asset} />
-              ))}
+              {/* Reordering a sorted or filtered view would be ambiguous, so only the full list drags */}
+              {activeTab === 'watchlist' && !filtersActive
+                ? getCurrentAssets().map((asset, index) => (
+                    <div
+                      key={asset.id}
+                      draggable
+                      onDragStart={() => setDraggedSymbol(asset.symbol)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (draggedSymbol) {
+                          moveSymbol(draggedSymbol, index).catch(err =>
+                            setInvestmentError(ApiErrorHandler.handle(err, 'Reorder watchlist'))
+                          );
+                        }
+                      }}
+                      onDragEnd={() => setDraggedSymbol(null)}
+                      className={`cursor-move ${draggedSymbol === asset.symbol ? 'opacity-50' : ''}`}
+                    >
+                      {renderAssetCard(asset)}
+                    </div>
+                  ))
+                : getCurrentAssets().map(renderAssetCard)}
             </div>
 
-            {getCurrentAssets().length === 0 && (
+            {getCurrentAssets().length === 0 && filtersActive && (
+              <div className="text-center py-12">
+                <div className="text-gray-400 dark:text-gray-500 text-6xl mb-4">🔍</div>
+                <h3 className="text-xl font-semibold text-gray-600 dark:text-gray-400 mb-2">
+                  No Matches
+                </h3>
+                <p className="text-gray-500 dark:text-gray-500">
+                  Nothing in this market fits your search and filters.
+                </p>
+              </div>
+            )}
+
+            {getCurrentAssets().length === 0 && !filtersActive && activeTab === 'watchlist' && (
+              <div className="text-center py-12">
+                <div className="text-gray-400 dark:text-gray-500 text-6xl mb-4">☆</div>
+                <h3 className="text-xl font-semibold text-gray-600 dark:text-gray-400 mb-2">
+                  Nothing Watched Yet
+                </h3>
+                <p className="text-gray-500 dark:text-gray-500">
+                  Tap the star on any asset to add it here.
+                </p>
+              </div>
+            )}
+
+            {getCurrentAssets().length === 0 && !filtersActive && activeTab !== 'watchlist' && (
               <div className="text-center py-12">
                 <div className="text-gray-400 dark:text-gray-500 text-6xl mb-4">📊</div>
                 <h3 className="text-xl font-semibold text-gray-600 dark:text-gray-400 mb-2">
@@ -894,24 +948,23 @@ const Trading: React.FC<TradingProps> = ({
               )}
             </div>
 
-            {/* Chart Container */}
-            <div className="bg-gray-900 rounded-xl p-4 h-64 relative">
-              <canvas
-                ref={chartCanvasRef}
-                width={400}
-                height={240}
-                className="w-full h-full"
-              />
-              
-              {!selectedAsset && (
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <div className="text-center">
-                    <div className="text-gray-400 text-4xl mb-2">📊</div>
-                    <p className="text-gray-400">Select an asset to view chart</p>
-                  </div>
-                </div>
-              )}
-            </div>
+            <PriceChart
+              series={selectedAsset && candleSeries?.symbol === selectedAsset.symbol ? candleSeries : null}
+              range={chartRange}
+              onRangeChange={setChartRange}
+              isLoading={isChartLoading}
+              decimals={selectedAsset?.type === 'forex' ? 4 : 2}
+            />
+            {selectedAsset && candleSeries?.symbol === selectedAsset.symbol && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                <span className={`px-2 py-0.5 rounded-full mr-2 ${FRESHNESS_LABELS[candleSeries.freshness].className}`}>
+                  {FRESHNESS_LABELS[candleSeries.freshness].label}
+                </span>
+                {candleSeries.freshness === 'static'
+                  ? 'Illustrative history, not market data'
+                  : `${candleSeries.interval} candles from ${candleSeries.source}`}
+              </p>
+            )}
 
             {/* Price Stats */}
             {selectedAsset && (
@@ -919,7 +972,7 @@ const Trading: React.FC<TradingProps> = ({
                 <div className="text-center bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
                   <p className="text-sm text-gray-600 dark:text-gray-400">Current Price</p>
                   <p className="text-lg font-bold text-gray-800 dark:text-white">
-                    ${selectedAsset.current_price.toLocaleString(undefined, {
+                    ${(quotes[selectedAsset.id]?.price ?? selectedAsset.current_price).toLocaleString(undefined, {
                       minimumFractionDigits: selectedAsset.type === 'forex' ? 4 : 2,
                       maximumFractionDigits: selectedAsset.type === 'forex' ? 4 : 2
                     })}
@@ -928,9 +981,9 @@ const Trading: React.FC<TradingProps> = ({
                 <div className="text-center bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
                   <p className="text-sm text-gray-600 dark:text-gray-400">24h Change</p>
                   <p className={`text-lg font-bold ${
-                    selectedAsset.change_percentage >= 0 ? 'text-green-600' : 'text-red-600'
+                    (quotes[selectedAsset.id]?.changePercent ?? selectedAsset.change_percentage) >= 0 ? 'text-green-600' : 'text-red-600'
                   }`}>
-                    {selectedAsset.change_percentage >= 0 ? '+' : ''}{selectedAsset.change_percentage.toFixed(2)}%
+                    {formatPercent(quotes[selectedAsset.id]?.changePercent ?? selectedAsset.change_percentage, { signed: true })}
                   </p>
                 </div>
               </div>
@@ -989,25 +1042,25 @@ const Trading: React.FC<TradingProps> = ({
                 </div>
 
                 {/* Investment Summary */}
-                {investmentAmount && parseFloat(investmentAmount) >= selectedAsset.min_investment && (
+                {investmentKes !== null && investmentKes >= selectedAsset.min_investment && (
                   <div className="bg-green-800 rounded-xl p-4 space-y-3">
                     <h4 className="font-semibold text-lg text-center mb-2">Investment Summary</h4>
                     
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span className="text-green-200">Amount:</span>
-                        <span className="font-semibold">{formatCurrency(parseFloat(investmentAmount))}</span>
+                        <span className="font-semibold">{formatCurrency(investmentKes)}</span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-green-200">Hourly Return:</span>
                         <span className="text-green-300 font-semibold">
-                          {formatCurrency(selectedAsset.hourly_income * (parseFloat(investmentAmount) / selectedAsset.min_investment))}
+                          {formatCurrency(selectedAsset.hourly_income * (investmentKes / selectedAsset.min_investment))}
                         </span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-green-200">Total Return:</span>
                         <span className="text-green-300 font-bold text-lg">
-                          {formatCurrency(calculateTotalIncome(selectedAsset, parseFloat(investmentAmount)))}
+                          {formatCurrency(calculateTotalIncome(selectedAsset, investmentKes))}
                         </span>
                       </div>
                       <div className="flex justify-between text-sm border-t border-green-600 pt-2">
@@ -1033,7 +1086,7 @@ const Trading: React.FC<TradingProps> = ({
                   </button>
                   <button
                     onClick={handleInvest}
-                    disabled={isInvesting || !investmentAmount || parseFloat(investmentAmount) < selectedAsset.min_investment}
+                    disabled={isInvesting || investmentKes === null || investmentKes < selectedAsset.min_investment}
                     className="flex-1 py-4 bg-white text-green-600 hover:bg-gray-100 rounded-xl font-semibold transition duration-200 disabled:bg-gray-400 disabled:text-gray-600 disabled:cursor-not-allowed text-lg"
                   >
                     {isInvesting ? (
@@ -1042,7 +1095,7 @@ const Trading: React.FC<TradingProps> = ({
                         Processing...
                       </div>
                     ) : (
-                      `INVEST ${formatCurrency(parseFloat(investmentAmount))}`
+                      `INVEST ${formatCurrency(investmentKes ?? 0)}`
                     )}
                   </button>
                 </div>
@@ -1054,7 +1107,7 @@ const Trading: React.FC<TradingProps> = ({
                     return (
                       <button
                         key={multiplier}
-                        onClick={() => setInvestmentAmount(amount.toString())}
+                        onClick={() => setInvestmentAmount(toInputAmount(amount))}
                         className="py-3 bg-green-700 hover:bg-green-600 text-white rounded-lg text-sm transition duration-200"
                       >
                         {formatCurrency(amount)}
@@ -1077,6 +1130,15 @@ const Trading: React.FC<TradingProps> = ({
           </div>
         </div>
       </div>
+
+      {alertAsset && (
+        <PriceAlertModal
+          symbol={alertAsset.symbol}
+          assetName={alertAsset.name}
+          currentPrice={quotes[alertAsset.id]?.price ?? alertAsset.current_price}
+          onClose={() => setAlertAsset(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,244 @@
+// components/TwoFactorSettings.tsx
+import { useState, useEffect } from 'react';
+import {
+  apiService,
+  ApiErrorHandler,
+  type TwoFactorStatus,
+  type TwoFactorSetupResponse
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import TotpPrompt from './TotpPrompt';
+
+type PendingAction = 'disable' | 'regenerate' | null;
+
+const TwoFactorSettings = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [setupCode, setSetupCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [error, setError] = useState('');
+  const [promptError, setPromptError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const { refreshUser } = useAuth();
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await apiService.getTwoFactorStatus());
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Load two-factor status'));
+    }
+  };
+
+  const startSetup = async () => {
+    setError('');
+    setBusy(true);
+    try {
+      setSetup(await apiService.setupTwoFactor());
+      setSetupCode('');
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Start two-factor setup'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setBusy(true);
+    try {
+      const response = await apiService.enableTwoFactor(setupCode);
+      setBackupCodes(response.backup_codes);
+      setSetup(null);
+      await Promise.all([fetchStatus(), refreshUser()]);
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Enable two-factor'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePromptConfirm = async (code: string) => {
+    setPromptError('');
+    setBusy(true);
+    try {
+      if (pendingAction === 'disable') {
+        await apiService.disableTwoFactor(code);
+        setBackupCodes([]);
+        await Promise.all([fetchStatus(), refreshUser()]);
+      } else if (pendingAction === 'regenerate') {
+        const response = await apiService.regenerateBackupCodes(code);
+        setBackupCodes(response.backup_codes);
+        await fetchStatus();
+      }
+      setPendingAction(null);
+    } catch (err) {
+      setPromptError(ApiErrorHandler.handle(err, 'Confirm two-factor code'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadBackupCodes = () => {
+    const blob = new Blob(
+      [`PesaPrime Capital backup codes\nEach code can be used once.\n\n${backupCodes.join('\n')}\n`],
+      { type: 'text/plain' }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pesaprime-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="w-full mt-8 pt-6 border-t border-gray-600">
+      <p className="text-center text-xl font-bold mb-2">Two-Factor Authentication</p>
+      <p className="text-center text-sm text-gray-300 mb-4">
+        Require a code from an authenticator app when you sign in and before every withdrawal.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 border border-red-700 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Freshly issued backup codes are only ever shown once */}
+      {backupCodes.length > 0 && (
+        <div className="mb-4 p-4 bg-gray-700 rounded-xl">
+          <p className="text-sm font-semibold mb-1">Save your backup codes</p>
+          <p className="text-xs text-gray-300 mb-3">
+            Use one if you lose your phone. Each code works once and they won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm mb-3">
+            {backupCodes.map(code => (
+              <span key={code} className="bg-gray-800 rounded px-2 py-1 text-center">{code}</span>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => navigator.clipboard?.writeText(backupCodes.join('\n'))}
+              className="flex-1 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold transition duration-200"
+            >
+              Copy
+            </button>
+            <button
+              onClick={downloadBackupCodes}
+              className="flex-1 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold transition duration-200"
+            >
+              Download
+            </button>
+            <button
+              onClick={() => setBackupCodes([])}
+              className="flex-1 py-2 bg-green-700 hover:bg-green-600 rounded-lg text-sm font-semibold transition duration-200"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!status ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-500"></div>
+        </div>
+      ) : status.enabled ? (
+        <div className="space-y-3">
+          <div className="p-3 bg-green-900 border border-green-700 rounded-xl text-sm">
+            <p className="font-semibold">Enabled</p>
+            {status.enabled_at && (
+              <p className="text-xs text-gray-300">Since {new Date(status.enabled_at).toLocaleDateString()}</p>
+            )}
+            <p className="text-xs text-gray-300">{status.backup_codes_remaining} backup codes left</p>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => { setPromptError(''); setPendingAction('regenerate'); }}
+              className="flex-1 py-3 bg-gray-600 hover:bg-gray-500 text-white rounded-xl font-semibold transition duration-200"
+            >
+              New Backup Codes
+            </button>
+            <button
+              onClick={() => { setPromptError(''); setPendingAction('disable'); }}
+              className="flex-1 py-3 bg-red-700 hover:bg-red-600 text-white rounded-xl font-semibold transition duration-200"
+            >
+              Turn Off
+            </button>
+          </div>
+        </div>
+      ) : setup ? (
+        <form onSubmit={confirmSetup} className="space-y-4">
+          <p className="text-sm text-gray-300">
+            1. Scan this QR code with Google Authenticator, Authy or a similar app.
+          </p>
+          <div className="flex justify-center">
+            <img src={setup.qr_code} alt="Two-factor QR code" className="w-44 h-44 bg-white p-2 rounded-xl" />
+          </div>
+          <p className="text-xs text-gray-400 text-center break-all">
+            Can't scan it? Enter this key: <span className="font-mono text-gray-200">{setup.secret}</span>
+          </p>
+          <p className="text-sm text-gray-300">2. Enter the 6-digit code the app shows.</p>
+          <input
+            type="text"
+            value={setupCode}
+            onChange={(e) => setSetupCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="000000"
+            className="w-full p-3 border border-gray-600 rounded-xl bg-gray-700 text-white text-center text-xl tracking-widest focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="flex-1 py-3 bg-gray-600 hover:bg-gray-500 text-white rounded-xl font-semibold transition duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || setupCode.length !== 6}
+              className="flex-1 py-3 bg-green-700 hover:bg-green-600 disabled:bg-gray-600 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+            >
+              {busy ? 'Verifying...' : 'Turn On'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={startSetup}
+          disabled={busy}
+          className="w-full py-3 bg-green-700 hover:bg-green-600 disabled:bg-gray-600 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+        >
+          {busy ? 'Preparing...' : 'Set Up Two-Factor'}
+        </button>
+      )}
+
+      {pendingAction && (
+        <TotpPrompt
+          title={pendingAction === 'disable' ? 'Turn Off Two-Factor' : 'New Backup Codes'}
+          description={
+            pendingAction === 'disable'
+              ? 'Enter a code from your authenticator app to turn off two-factor authentication.'
+              : 'Enter a code from your authenticator app. Your old backup codes will stop working.'
+          }
+          confirmLabel={pendingAction === 'disable' ? 'Turn Off' : 'Generate'}
+          error={promptError}
+          loading={busy}
+          onConfirm={handlePromptConfirm}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,144 @@
+// components/WatchlistBar.tsx
+import { useState } from 'react';
+import { ApiErrorHandler } from '../services/api';
+import { useWatchlists } from '../contexts/WatchlistContext';
+
+type EditMode = 'create' | 'rename' | null;
+
+// Picks, names and removes watchlists above the Watchlist tab in Trading
+const WatchlistBar = () => {
+  const [mode, setMode] = useState<EditMode>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const {
+    watchlists,
+    activeWatchlist,
+    setActiveWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+  } = useWatchlists();
+
+  const startEditing = (next: EditMode) => {
+    setMode(next);
+    setName(next === 'rename' && activeWatchlist ? activeWatchlist.name : '');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Give the watchlist a name');
+      return;
+    }
+
+    setBusy(true);
+    setError('');
+    try {
+      if (mode === 'rename' && activeWatchlist) {
+        await renameWatchlist(activeWatchlist.id, trimmed);
+      } else {
+        await createWatchlist(trimmed);
+      }
+      setMode(null);
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, mode === 'rename' ? 'Rename watchlist' : 'Create watchlist'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeWatchlist || !window.confirm(`Delete the "${activeWatchlist.name}" watchlist?`)) return;
+    setBusy(true);
+    setError('');
+    try {
+      await deleteWatchlist(activeWatchlist.id);
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Delete watchlist'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      {mode ? (
+        <form onSubmit={handleSubmit} className="flex space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Watchlist name"
+            maxLength={40}
+            autoFocus
+            disabled={busy}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg text-sm font-semibold transition duration-200"
+          >
+            {mode === 'rename' ? 'Save' : 'Create'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode(null)}
+            disabled={busy}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg text-sm font-semibold transition duration-200"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div className="flex space-x-2">
+          <select
+            value={activeWatchlist?.id ?? ''}
+            onChange={(e) => setActiveWatchlist(e.target.value)}
+            disabled={watchlists.length === 0}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {watchlists.length === 0 && <option value="">No watchlists yet</option>}
+            {watchlists.map(list => (
+              <option key={list.id} value={list.id}>{list.name} ({list.symbols.length})</option>
+            ))}
+          </select>
+          <button
+            onClick={() => startEditing('create')}
+            className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-semibold transition duration-200"
+          >
+            + New
+          </button>
+          {activeWatchlist && (
+            <>
+              <button
+                onClick={() => startEditing('rename')}
+                className="px-3 py-2 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-800 dark:text-white rounded-lg text-sm font-semibold transition duration-200"
+              >
+                Rename
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={busy}
+                className="px-3 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg text-sm font-semibold transition duration-200"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {!mode && activeWatchlist && activeWatchlist.symbols.length > 1 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Drag cards to reorder.</p>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistBar;
@@ -0,0 +1,74 @@
+// components/WatchlistWidget.tsx
+import { Link } from 'react-router-dom';
+import type { Asset } from '../services/api';
+import { useWatchlists } from '../contexts/WatchlistContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { usePrices } from '../hooks/usePrice';
+import { formatAssetPrice } from '../services/priceAlerts';
+
+const MAX_ROWS = 6;
+
+interface WatchlistWidgetProps {
+  assets: Asset[]; // for names and a price to show before the first tick
+}
+
+// Compact live view of the active watchlist for Home
+const WatchlistWidget = ({ assets }: WatchlistWidgetProps) => {
+  const { activeWatchlist } = useWatchlists();
+  const { formatPercent } = useCurrency();
+
+  const symbols = (activeWatchlist?.symbols ?? []).slice(0, MAX_ROWS);
+  const ticks = usePrices(symbols);
+
+  return (
+    <div className="mt-6 bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4 text-white">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold">★ {activeWatchlist?.name ?? 'Watchlist'}</h3>
+        {activeWatchlist && activeWatchlist.symbols.length > MAX_ROWS && (
+          <span className="text-xs text-gray-400">+{activeWatchlist.symbols.length - MAX_ROWS} more</span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {symbols.map(symbol => {
+          const asset = assets.find(a => a.symbol === symbol);
+          const tick = ticks[symbol];
+          const price = tick?.price ?? asset?.current_price;
+          const change = tick?.changePercent ?? asset?.change_percentage;
+
+          const row = (
+            <div className="flex justify-between items-center p-3 bg-gray-700 rounded-lg hover:bg-gray-600 transition duration-200">
+              <div>
+                <span className="font-semibold">{symbol}</span>
+                {asset && <p className="text-xs text-gray-400">{asset.name}</p>}
+              </div>
+              <div className="text-right">
+                <p className="font-semibold">{price !== undefined ? formatAssetPrice(price) : '—'}</p>
+                {change !== undefined && (
+                  <p className={`text-sm ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatPercent(change, { signed: true })}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+
+          return asset ? (
+            <Link key={symbol} to={`/trading/${asset.id}`} className="block">{row}</Link>
+          ) : (
+            <div key={symbol}>{row}</div>
+          );
+        })}
+
+        {symbols.length === 0 && (
+          <div className="text-center py-4 text-gray-400">
+            <p>Your watchlist is empty</p>
+            <p className="text-sm">Star assets below to follow them here</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistWidget;
@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { apiService, type Asset, type UserInvestment, type WalletData } from '../services/api';
+import { kes } from '../services/money';
 
 interface TradingProps {
   onInvestmentUpdate?: () => void;
@@ -17,7 +18,7 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   
   const { user } = useAuth();
-  const { formatCurrency, convertAmount, currentCurrency } = useCurrency();
+  const { formatCurrency, formatMoney, converter, toDisplay, fromDisplay } = useCurrency();
 
   useEffect(() => {
     loadData();
@@ -35,28 +36,16 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
       // Auto-select first asset
       if (assetsData.length > 0 && !selectedAsset) {
         setSelectedAsset(assetsData[0]);
-        setInvestmentAmount(formatMinInvestment(assetsData[0].min_investment_kes));
+        setInvestmentAmount(formatMinInvestment(assetsData[0].min_investment));
       }
     } catch (error) {
       console.error('Failed to load data:', error);
     }
   };
 
+  // The amount field is in the selected currency, rounded up so the minimum still holds in KES
   const formatMinInvestment = (minKes: number): string => {
-    const converted = convertAmount(minKes);
-    return converted.toString();
-  };
-
-  const getConvertedMinInvestment = (asset: Asset): number => {
-    return convertAmount(asset.min_investment_kes);
-  };
-
-  const getConvertedHourlyIncome = (asset: Asset): number => {
-    return convertAmount(asset.hourly_income_kes);
-  };
-
-  const getConvertedTotalIncome = (asset: Asset): number => {
-    return convertAmount(asset.total_income_kes);
+    return String(Math.ceil(toDisplay(kes(minKes)).amount * 100) / 100);
   };
 
   const handleInvest = async () => {
@@ -66,16 +55,14 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
     }
 
     const amount = parseFloat(investmentAmount);
-    const minInvestment = getConvertedMinInvestment(selectedAsset);
+    const minInvestment = selectedAsset.min_investment;
+    const amountKes = isNaN(amount) ? NaN : converter.toBase(fromDisplay(amount)).amount;
 
-    if (isNaN(amount) || amount < minInvestment) {
+    if (isNaN(amountKes) || amountKes < minInvestment) {
       setMessage({ type: 'error', text: `Minimum investment is ${formatCurrency(minInvestment)}` });
       return;
     }
 
-    // Convert back to KES for API
-    const amountKes = amount / currentCurrency.exchangeRate;
-
     if (amountKes > walletData.balance) {
       setMessage({ type: 'error', text: 'Insufficient balance' });
       return;
@@ -87,15 +74,14 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
     try {
       const investmentData = {
         asset_id: selectedAsset.id,
-        amount: amount,
-        phone_number: user.phone_number,
-        currency: currentCurrency.code
+        amount: amountKes,
+        phone_number: user.phone_number
       };
 
       const result = await apiService.buyInvestment(investmentData);
       
       setMessage({ type: 'success', text: result.message });
-      setInvestmentAmount(formatMinInvestment(selectedAsset.min_investment_kes));
+      setInvestmentAmount(formatMinInvestment(selectedAsset.min_investment));
       
       // Refresh data
       await loadData();
@@ -109,9 +95,9 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
   };
 
   const AssetCard = ({ asset }: { asset: Asset }) => {
-    const minInvestment = getConvertedMinInvestment(asset);
-    const hourlyIncome = getConvertedHourlyIncome(asset);
-    const totalIncome = getConvertedTotalIncome(asset);
+    const minInvestment = asset.min_investment;
+    const hourlyIncome = asset.hourly_income;
+    const totalIncome = asset.total_income;
 
     return (
       <div 
@@ -120,7 +106,7 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
         }`}
         onClick={() => {
           setSelectedAsset(asset);
-          setInvestmentAmount(minInvestment.toString());
+          setInvestmentAmount(formatMinInvestment(minInvestment));
         }}
       >
         <div className="flex justify-between items-center mb-3">
@@ -203,9 +189,9 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
                   type="number"
                   value={investmentAmount}
                   onChange={(e) => setInvestmentAmount(e.target.value)}
-                  min={getConvertedMinInvestment(selectedAsset)}
+                  min={formatMinInvestment(selectedAsset.min_investment)}
                   className="w-full p-3 rounded-lg bg-green-800 text-white border border-green-600"
-                  placeholder={`Min: ${formatCurrency(getConvertedMinInvestment(selectedAsset))}`}
+                  placeholder={`Min: ${formatCurrency(selectedAsset.min_investment)}`}
                 />
                 {walletData && (
                   <p className="text-sm text-green-200 mt-2">
@@ -219,7 +205,7 @@ const RealTrading: React.FC<TradingProps> = ({ onInvestmentUpdate }) => {
                 disabled={isInvesting}
                 className="w-full py-3 bg-white text-green-600 rounded-lg font-bold hover:bg-gray-100 disabled:bg-gray-400"
               >
-                {isInvesting ? 'Processing...' : `Invest ${formatCurrency(parseFloat(investmentAmount) || 0)}`}
+                {isInvesting ? 'Processing...' : `Invest ${formatMoney(fromDisplay(parseFloat(investmentAmount) || 0))}`}
               </button>
             </div>
           ) : (
@@ -1,16 +1,35 @@
 // contexts/AuthContext.tsx
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import { apiService, type UserResponse, type UserLogin, type UserCreate } from '../services/api';
+import { useNavigate } from 'react-router-dom';
+import {
+  apiService,
+  type AuthResponse,
+  type TwoFactorChallengeResponse,
+  type UserResponse,
+  type UserLogin,
+  type UserCreate
+} from '../services/api';
 
 interface AuthContextType {
   user: UserResponse | null;
   login: (email: string, password: string) => Promise<void>;
+  // Set when login needs a TOTP/backup code before the session is issued
+  twoFactorChallenge: TwoFactorChallengeResponse | null;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
+  refreshUser: () => Promise<void>;
   register: (userData: UserCreate) => Promise<void>;
   logout: () => void;
   loading: boolean;
   isAuthenticated: boolean;
 }
 
+// Router state handed to the sign-in page so it can send the user back afterwards
+export interface AuthRedirectState {
+  from?: string;
+  reason?: 'session_expired' | 'password_reset';
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -25,11 +44,28 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<UserResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallengeResponse | null>(null);
+  const navigate = useNavigate();
 
   useEffect(() => {
     checkAuth();
   }, []);
 
+  // apiService calls this once a 401 could not be recovered by refreshing the session
+  useEffect(() => {
+    apiService.setSessionExpiredHandler(() => {
+      console.log('🔒 Session expired, logging out...');
+      const from = `${window.location.pathname}${window.location.search}`;
+      localStorage.removeItem('authToken');
+      localStorage.removeItem('userData');
+      setUser(null);
+      setIsAuthenticated(false);
+      const state: AuthRedirectState = { from, reason: 'session_expired' };
+      navigate('/', { replace: true, state });
+    });
+    return () => apiService.setSessionExpiredHandler(null);
+  }, [navigate]);
+
   const checkAuth = async () => {
     try {
       setLoading(true);
@@ -55,6 +91,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const applyAuthResponse = (response: AuthResponse) => {
+    if (response.access_token) {
+      localStorage.setItem('authToken', response.access_token);
+      
+      // Set user from response
+      if (response.user) {
+        setUser(response.user);
+        setIsAuthenticated(true);
+        localStorage.setItem('userData', JSON.stringify(response.user));
+        console.log('👤 User authenticated:', response.user);
+      } else {
+        throw new Error('No user data received');
+      }
+    } else {
+      throw new Error(response.message || 'Login failed - no token received');
+    }
+  };
+
   const login = async (email: string, password: string): Promise<void> => {
     setLoading(true);
     try {
@@ -76,21 +130,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       console.log('✅ Login response received:', response);
       
-      if (response.access_token) {
-        localStorage.setItem('authToken', response.access_token);
-        
-        // Set user from response
-        if (response.user) {
-          setUser(response.user);
-          setIsAuthenticated(true);
-          localStorage.setItem('userData', JSON.stringify(response.user));
-          console.log('👤 User authenticated:', response.user);
-        } else {
-          throw new Error('No user data received');
-        }
-      } else {
-        throw new Error(response.message || 'Login failed - no token received');
+      if (response.two_factor_required) {
+        console.log('🔐 Two-factor code required');
+        setTwoFactorChallenge(response);
+        return;
       }
+
+      applyAuthResponse(response);
     } catch (error: any) {
       console.error('❌ Login error:', error);
       
@@ -117,6 +163,34 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const verifyTwoFactor = async (code: string): Promise<void> => {
+    if (!twoFactorChallenge) {
+      throw new Error('Your sign-in attempt has expired. Please sign in again.');
+    }
+
+    setLoading(true);
+    try {
+      const response = await apiService.verifyTwoFactorLogin({
+        challenge_token: twoFactorChallenge.challenge_token,
+        code: code.replace(/\s/g, ''),
+      });
+      applyAuthResponse(response);
+      setTwoFactorChallenge(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = (): void => {
+    setTwoFactorChallenge(null);
+  };
+
+  const refreshUser = async (): Promise<void> => {
+    const userData = await apiService.getCurrentUser();
+    setUser(userData);
+    localStorage.setItem('userData', JSON.stringify(userData));
+  };
+
   const register = async (userData: UserCreate): Promise<void> => {
     setLoading(true);
     try {
@@ -164,12 +238,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.removeItem('userData');
     setUser(null);
     setIsAuthenticated(false);
+    setTwoFactorChallenge(null);
     apiService.logout();
   };
 
   const value: AuthContextType = {
     user,
     login,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    refreshUser,
     register,
     logout,
     loading,
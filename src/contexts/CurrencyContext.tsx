@@ -1,19 +1,41 @@
 // contexts/CurrencyContext.tsx
-import React, { createContext, useContext, useState, type ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, type ReactNode } from 'react';
+import { exchangeRateService, type RateResult, type RateStatus } from '../services/exchangeRates';
+import {
+  CurrencyConverter,
+  formatMoneyValue,
+  formatPercentValue,
+  isSupportedLocale,
+  kes,
+  money,
+  type Money,
+  type MoneyFormatOptions
+} from '../services/money';
 
 export interface Currency {
   code: string;
   symbol: string;
   name: string;
+  decimals: number; // minor units shown when formatting
   exchangeRate: number; // Relative to base currency (KES)
 }
 
 interface CurrencyContextType {
   currentCurrency: Currency;
   setCurrency: (currency: Currency) => void;
-  convertAmount: (amount: number) => number;
-  formatCurrency: (amount: number) => string;
+  converter: CurrencyConverter;
+  toDisplay: (value: Money) => Money;
+  fromDisplay: (amount: number) => Money;
+  formatMoney: (value: Money, options?: MoneyFormatOptions) => string;
+  formatCurrency: (amountKes: number, options?: MoneyFormatOptions) => string;
+  formatPercent: (value: number, options?: { signed?: boolean }) => string;
   availableCurrencies: Currency[];
+  numberLocale: string;
+  setNumberLocale: (locale: string) => void;
+  ratesAsOf: Date | null;
+  ratesStatus: RateStatus;
+  ratesSource: string;
+  refreshRates: () => Promise<void>;
 }
 
 const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
@@ -26,54 +48,135 @@ export const useCurrency = () => {
   return context;
 };
 
-// Available currencies with exchange rates (example rates)
-const CURRENCIES: Currency[] = [
-  { code: 'KES', symbol: 'KSh', name: 'Kenyan Shilling', exchangeRate: 1 },
-  { code: 'USD', symbol: '$', name: 'US Dollar', exchangeRate: 0.0078 },
-  { code: 'EUR', symbol: '€', name: 'Euro', exchangeRate: 0.0072 },
-  { code: 'GBP', symbol: '£', name: 'British Pound', exchangeRate: 0.0062 },
-  { code: 'ZAR', symbol: 'R', name: 'South African Rand', exchangeRate: 0.15 },
-  { code: 'UGX', symbol: 'USh', name: 'Ugandan Shilling', exchangeRate: 28.5 },
-  { code: 'TZS', symbol: 'TSh', name: 'Tanzanian Shilling', exchangeRate: 20.1 },
+const STORAGE_KEY = 'preferredCurrency';
+const LOCALE_STORAGE_KEY = 'numberLocale';
+const REFRESH_INTERVAL = 60 * 60 * 1000;
+
+// Supported currencies; rates come from the exchange rate service.
+// UGX and TZS have no coins in circulation, so they're shown without decimals.
+const CURRENCIES: Omit<Currency, 'exchangeRate'>[] = [
+  { code: 'KES', symbol: 'KSh', name: 'Kenyan Shilling', decimals: 2 },
+  { code: 'USD', symbol: '$', name: 'US Dollar', decimals: 2 },
+  { code: 'EUR', symbol: '€', name: 'Euro', decimals: 2 },
+  { code: 'GBP', symbol: '£', name: 'British Pound', decimals: 2 },
+  { code: 'ZAR', symbol: 'R', name: 'South African Rand', decimals: 2 },
+  { code: 'UGX', symbol: 'USh', name: 'Ugandan Shilling', decimals: 0 },
+  { code: 'TZS', symbol: 'TSh', name: 'Tanzanian Shilling', decimals: 0 },
+];
+
+// Number formats offered in Profile; '' follows the browser
+export const NUMBER_LOCALES = [
+  { code: '', label: 'Browser default' },
+  { code: 'en-KE', label: 'English (Kenya) · 1,234.50' },
+  { code: 'sw-KE', label: 'Kiswahili (Kenya) · 1,234.50' },
+  { code: 'en-US', label: 'English (US) · 1,234.50' },
+  { code: 'en-GB', label: 'English (UK) · 1,234.50' },
+  { code: 'de-DE', label: 'Deutsch · 1.234,50' },
+  { code: 'fr-FR', label: 'Français · 1 234,50' },
 ];
 
+const loadCurrencyCode = (): string => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return 'KES';
+    // Older versions stored the whole Currency object, rate included
+    const code = saved.startsWith('{') ? JSON.parse(saved).code : saved;
+    return CURRENCIES.some(c => c.code === code) ? code : 'KES';
+  } catch {
+    return 'KES';
+  }
+};
+
+const loadNumberLocale = (): string => {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY) || '';
+  return saved && isSupportedLocale(saved) ? saved : '';
+};
+
 interface CurrencyProviderProps {
   children: ReactNode;
 }
 
 export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
-  const [currentCurrency, setCurrentCurrency] = useState<Currency>(() => {
-    // Get saved currency from localStorage or default to KES
-    const saved = localStorage.getItem('preferredCurrency');
-    return saved ? JSON.parse(saved) : CURRENCIES[0];
-  });
+  const [currencyCode, setCurrencyCode] = useState<string>(loadCurrencyCode);
+  const [numberLocale, setNumberLocaleState] = useState<string>(loadNumberLocale);
+  const [rates, setRates] = useState<RateResult>(() => exchangeRateService.getCachedRates());
 
-  const setCurrency = (currency: Currency) => {
-    setCurrentCurrency(currency);
-    localStorage.setItem('preferredCurrency', JSON.stringify(currency));
-  };
+  const refreshRates = useCallback(async (force = false) => {
+    setRates(await exchangeRateService.getRates(force));
+  }, []);
+
+  useEffect(() => {
+    refreshRates();
+    const interval = setInterval(() => refreshRates(), REFRESH_INTERVAL);
+    // Pick up fresh rates as soon as the connection comes back
+    const handleOnline = () => refreshRates(true);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [refreshRates]);
+
+  const converter = useMemo(() => new CurrencyConverter(rates.snapshot.rates), [rates]);
 
-  const convertAmount = (amount: number): number => {
-    return amount * currentCurrency.exchangeRate;
+  const availableCurrencies = useMemo<Currency[]>(
+    () => CURRENCIES
+      .filter(c => converter.canConvert(c.code))
+      .map(c => ({ ...c, exchangeRate: converter.convert(kes(1), c.code).amount })),
+    [converter]
+  );
+
+  const currentCurrency = availableCurrencies.find(c => c.code === currencyCode) || availableCurrencies[0];
+
+  const setCurrency = (currency: Currency) => {
+    setCurrencyCode(currency.code);
+    localStorage.setItem(STORAGE_KEY, currency.code);
   };
 
-  const formatCurrency = (amount: number): string => {
-    const convertedAmount = convertAmount(amount);
-    
-    if (currentCurrency.code === 'KES') {
-      return `${currentCurrency.symbol} ${convertedAmount.toLocaleString()}`;
+  const setNumberLocale = (locale: string) => {
+    const next = locale && isSupportedLocale(locale) ? locale : '';
+    setNumberLocaleState(next);
+    if (next) {
+      localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    } else {
+      localStorage.removeItem(LOCALE_STORAGE_KEY);
     }
-    
-    // For other currencies, show 2 decimal places
-    return `${currentCurrency.symbol} ${convertedAmount.toFixed(2)}`;
   };
 
+  const locale = numberLocale || undefined;
+
+  // Any amount into the currency the user picked
+  const toDisplay = (value: Money): Money => converter.convert(value, currentCurrency.code);
+
+  // An amount the user typed in the selected currency
+  const fromDisplay = (amount: number): Money => money(amount, currentCurrency.code);
+
+  const formatMoney = (value: Money, options?: MoneyFormatOptions): string =>
+    formatMoneyValue(toDisplay(value), currentCurrency.decimals, locale, options);
+
+  // Shorthand for the common case: backend amounts are always KES
+  const formatCurrency = (amountKes: number, options?: MoneyFormatOptions): string =>
+    formatMoney(kes(amountKes), options);
+
+  const formatPercent = (value: number, options?: { signed?: boolean }): string =>
+    formatPercentValue(value, locale, options);
+
   const value = {
     currentCurrency,
     setCurrency,
-    convertAmount,
+    converter,
+    toDisplay,
+    fromDisplay,
+    formatMoney,
     formatCurrency,
-    availableCurrencies: CURRENCIES,
+    formatPercent,
+    availableCurrencies,
+    numberLocale,
+    setNumberLocale,
+    ratesAsOf: rates.snapshot.asOf ? new Date(rates.snapshot.asOf) : null,
+    ratesStatus: rates.status,
+    ratesSource: rates.snapshot.source,
+    refreshRates: () => refreshRates(true),
   };
 
   return (
@@ -81,4 +184,4 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
       {children}
     </CurrencyContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,160 @@
+// contexts/PriceAlertsContext.tsx
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+import { usePrices } from '../hooks/usePrice';
+import { apiService, type PriceAlert, type PriceAlertRequest } from '../services/api';
+import { describeAlert, formatAssetPrice, isAlertTriggered } from '../services/priceAlerts';
+
+interface AlertToast {
+  id: string;
+  title: string;
+  body: string;
+}
+
+interface PriceAlertsContextType {
+  alerts: PriceAlert[];
+  loading: boolean;
+  createAlert: (data: PriceAlertRequest) => Promise<PriceAlert>;
+  deleteAlert: (alertId: string) => Promise<void>;
+  setAlertPaused: (alert: PriceAlert, paused: boolean, currentPrice?: number) => Promise<void>;
+  refreshAlerts: () => Promise<void>;
+}
+
+const PriceAlertsContext = createContext<PriceAlertsContextType | undefined>(undefined);
+
+export const usePriceAlerts = () => {
+  const context = useContext(PriceAlertsContext);
+  if (context === undefined) {
+    throw new Error('usePriceAlerts must be used within a PriceAlertsProvider');
+  }
+  return context;
+};
+
+const TOAST_DURATION = 8000;
+
+interface PriceAlertsProviderProps {
+  children: ReactNode;
+}
+
+export const PriceAlertsProvider: React.FC<PriceAlertsProviderProps> = ({ children }) => {
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [toasts, setToasts] = useState<AlertToast[]>([]);
+  // Alerts already fired in this session, so a burst of ticks can't fire one twice
+  const firedRef = useRef(new Set<string>());
+  const { isAuthenticated } = useAuth();
+
+  const refreshAlerts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAlerts(await apiService.getPriceAlerts());
+    } catch (error) {
+      console.error('Failed to load price alerts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshAlerts();
+    } else {
+      setAlerts([]);
+    }
+  }, [isAuthenticated, refreshAlerts]);
+
+  const replaceAlert = (updated: PriceAlert) =>
+    setAlerts(prev => prev.map(alert => (alert.id === updated.id ? updated : alert)));
+
+  const dismissToast = (id: string) => setToasts(prev => prev.filter(toast => toast.id !== id));
+
+  const showToast = (toast: AlertToast) => {
+    setToasts(prev => [...prev.filter(t => t.id !== toast.id), toast]);
+    setTimeout(() => dismissToast(toast.id), TOAST_DURATION);
+  };
+
+  // Only symbols with an active alert need to stream
+  const ticks = usePrices([...new Set(alerts.filter(a => a.status === 'active').map(a => a.symbol))]);
+
+  useEffect(() => {
+    alerts.forEach(alert => {
+      const tick = ticks[alert.symbol];
+      if (alert.status !== 'active' || !tick || firedRef.current.has(alert.id)) return;
+      if (!isAlertTriggered(alert, tick.price)) return;
+
+      firedRef.current.add(alert.id);
+      showToast({ id: alert.id, title: `🔔 ${alert.asset_name}`, body: `${describeAlert(alert)} · now ${formatAssetPrice(tick.price)}` });
+
+      apiService.triggerPriceAlert(alert.id, tick.price)
+        .then(replaceAlert)
+        .catch(error => {
+          console.error('Failed to record price alert trigger:', error);
+          // Still stop watching it here; the server's own check will catch up
+          replaceAlert({ ...alert, status: 'triggered', triggered_at: new Date().toISOString(), triggered_price: tick.price });
+        });
+    });
+  }, [ticks, alerts]);
+
+  const createAlert = async (data: PriceAlertRequest): Promise<PriceAlert> => {
+    const alert = await apiService.createPriceAlert(data);
+    setAlerts(prev => [alert, ...prev]);
+    return alert;
+  };
+
+  const deleteAlert = async (alertId: string): Promise<void> => {
+    await apiService.deletePriceAlert(alertId);
+    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+  };
+
+  const setAlertPaused = async (alert: PriceAlert, paused: boolean, currentPrice?: number): Promise<void> => {
+    // Without a new reference the old one would stay, and the alert could fire straight away
+    if (!paused && alert.condition === 'change_percent' && currentPrice === undefined) {
+      throw new Error(`No current price for ${alert.symbol} yet, so the alert can't be resumed. Please try again shortly.`);
+    }
+    const updated = await apiService.updatePriceAlert(alert.id, {
+      status: paused ? 'paused' : 'active',
+      reference_price: !paused && alert.condition === 'change_percent' ? currentPrice : undefined,
+    });
+    // A re-armed alert may fire again
+    firedRef.current.delete(alert.id);
+    replaceAlert(updated);
+  };
+
+  const value = {
+    alerts,
+    loading,
+    createAlert,
+    deleteAlert,
+    setAlertPaused,
+    refreshAlerts,
+  };
+
+  return (
+    <PriceAlertsContext.Provider value={value}>
+      {children}
+      {toasts.length > 0 && (
+        <div className="fixed top-20 right-4 z-50 space-y-2 w-72">
+          {toasts.map(toast => (
+            <div
+              key={toast.id}
+              role="alert"
+              className="bg-gray-900 text-white rounded-xl shadow-lg p-4 border border-yellow-500/50"
+            >
+              <div className="flex justify-between items-start">
+                <p className="font-semibold">{toast.title}</p>
+                <button onClick={() => dismissToast(toast.id)} className="text-gray-400 hover:text-white ml-2" aria-label="Dismiss">
+                  ✕
+                </button>
+              </div>
+              <p className="text-sm text-gray-300 mt-1">{toast.body}</p>
+              <Link to="/profile#price-alerts" onClick={() => dismissToast(toast.id)} className="text-xs text-yellow-400 hover:underline mt-2 inline-block">
+                Manage alerts
+              </Link>
+            </div>
+          ))}
+        </div>
+      )}
+    </PriceAlertsContext.Provider>
+  );
+};
@@ -0,0 +1,164 @@
+// contexts/WatchlistContext.tsx
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { apiService, type Watchlist } from '../services/api';
+
+interface WatchlistContextType {
+  watchlists: Watchlist[];
+  activeWatchlist: Watchlist | null;
+  loading: boolean;
+  setActiveWatchlist: (watchlistId: string) => void;
+  isWatched: (symbol: string) => boolean;
+  toggleWatched: (symbol: string) => Promise<void>;
+  moveSymbol: (symbol: string, toIndex: number) => Promise<void>;
+  createWatchlist: (name: string) => Promise<Watchlist>;
+  renameWatchlist: (watchlistId: string, name: string) => Promise<void>;
+  deleteWatchlist: (watchlistId: string) => Promise<void>;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+export const useWatchlists = () => {
+  const context = useContext(WatchlistContext);
+  if (context === undefined) {
+    throw new Error('useWatchlists must be used within a WatchlistProvider');
+  }
+  return context;
+};
+
+const ACTIVE_WATCHLIST_KEY = 'activeWatchlist';
+const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+
+// Moves (or puts back) a symbol to an index, clamped to the list
+const placeAt = (symbols: string[], symbol: string, index: number): string[] => {
+  const rest = symbols.filter(s => s !== symbol);
+  rest.splice(Math.min(index, rest.length), 0, symbol);
+  return rest;
+};
+
+interface WatchlistProviderProps {
+  children: ReactNode;
+}
+
+export const WatchlistProvider: React.FC<WatchlistProviderProps> = ({ children }) => {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_WATCHLIST_KEY));
+  const [loading, setLoading] = useState(false);
+  const [ready, setReady] = useState(false); // lists loaded, so a first star can be told apart
+  const creatingDefault = useRef(false);
+  const { isAuthenticated } = useAuth();
+
+  const refreshWatchlists = useCallback(async () => {
+    setLoading(true);
+    try {
+      setWatchlists(await apiService.getWatchlists());
+      setReady(true);
+    } catch (error) {
+      console.error('Failed to load watchlists:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setReady(false);
+    if (isAuthenticated) {
+      refreshWatchlists();
+    } else {
+      setWatchlists([]);
+    }
+  }, [isAuthenticated, refreshWatchlists]);
+
+  // The remembered list may have been deleted elsewhere; fall back to the first
+  const activeWatchlist = watchlists.find(list => list.id === activeId) || watchlists[0] || null;
+
+  const setActiveWatchlist = (watchlistId: string) => {
+    setActiveId(watchlistId);
+    localStorage.setItem(ACTIVE_WATCHLIST_KEY, watchlistId);
+  };
+
+  const replaceWatchlist = (updated: Watchlist) =>
+    setWatchlists(prev => prev.map(list => (list.id === updated.id ? updated : list)));
+
+  // Applied straight away so stars and dragging feel instant. If the server refuses, `undo`
+  // reverts just this change, so another one made meanwhile isn't rolled back with it.
+  const saveSymbols = async (list: Watchlist, symbols: string[], undo: (symbols: string[]) => string[]) => {
+    replaceWatchlist({ ...list, symbols });
+    try {
+      replaceWatchlist(await apiService.updateWatchlist(list.id, { symbols }));
+    } catch (error) {
+      setWatchlists(prev => prev.map(l => (l.id === list.id ? { ...l, symbols: undo(l.symbols) } : l)));
+      throw error;
+    }
+  };
+
+  const createWatchlist = async (name: string, symbols: string[] = []): Promise<Watchlist> => {
+    const list = await apiService.createWatchlist(name, symbols);
+    setWatchlists(prev => [...prev, list]);
+    setActiveWatchlist(list.id);
+    return list;
+  };
+
+  const isWatched = (symbol: string) => !!activeWatchlist?.symbols.includes(symbol);
+
+  const toggleWatched = async (symbol: string): Promise<void> => {
+    // Until the lists load we can't tell a first star from one on an existing list
+    if (!ready) {
+      throw new Error(loading ? 'Watchlists are still loading' : 'Watchlists could not be loaded. Please refresh the page.');
+    }
+    // The first star creates a list to hold it
+    if (!activeWatchlist) {
+      if (creatingDefault.current) return;
+      creatingDefault.current = true;
+      try {
+        await createWatchlist(DEFAULT_WATCHLIST_NAME, [symbol]);
+      } finally {
+        creatingDefault.current = false;
+      }
+      return;
+    }
+    const { symbols } = activeWatchlist;
+    const index = symbols.indexOf(symbol);
+    if (index === -1) {
+      await saveSymbols(activeWatchlist, [...symbols, symbol], current => current.filter(s => s !== symbol));
+    } else {
+      await saveSymbols(activeWatchlist, symbols.filter(s => s !== symbol), current => placeAt(current, symbol, index));
+    }
+  };
+
+  const moveSymbol = async (symbol: string, toIndex: number): Promise<void> => {
+    if (!activeWatchlist) return;
+    const fromIndex = activeWatchlist.symbols.indexOf(symbol);
+    const symbols = placeAt(activeWatchlist.symbols, symbol, toIndex);
+    if (symbols.join() === activeWatchlist.symbols.join()) return;
+    await saveSymbols(activeWatchlist, symbols, current => placeAt(current, symbol, fromIndex));
+  };
+
+  const renameWatchlist = async (watchlistId: string, name: string): Promise<void> => {
+    replaceWatchlist(await apiService.updateWatchlist(watchlistId, { name }));
+  };
+
+  const deleteWatchlist = async (watchlistId: string): Promise<void> => {
+    await apiService.deleteWatchlist(watchlistId);
+    setWatchlists(prev => prev.filter(list => list.id !== watchlistId));
+  };
+
+  const value = {
+    watchlists,
+    activeWatchlist,
+    loading,
+    setActiveWatchlist,
+    isWatched,
+    toggleWatched,
+    moveSymbol,
+    createWatchlist: (name: string) => createWatchlist(name),
+    renameWatchlist,
+    deleteWatchlist,
+  };
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+};
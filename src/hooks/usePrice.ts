@@ -0,0 +1,58 @@
+// hooks/usePrice.ts - Live prices and P&L from the shared price stream
+import { useState, useEffect } from 'react';
+import { priceStream, type PriceTick, type StreamStatus, type StreamTransport } from '../services/priceStream';
+import type { PnLData } from '../services/api';
+
+// Latest tick for one symbol; null until the first one arrives
+export const usePrice = (symbol: string | null | undefined): PriceTick | null => {
+  const [tick, setTick] = useState<PriceTick | null>(() => (symbol ? priceStream.getLatest(symbol) : null));
+
+  useEffect(() => {
+    setTick(symbol ? priceStream.getLatest(symbol) : null);
+    if (!symbol) return;
+    return priceStream.subscribe(symbol, setTick);
+  }, [symbol]);
+
+  return tick;
+};
+
+// Latest tick per symbol, for lists
+export const usePrices = (symbols: string[]): Record<string, PriceTick> => {
+  const [ticks, setTicks] = useState<Record<string, PriceTick>>({});
+  // Callers usually build the array inline; only its contents matter
+  const key = [...symbols].sort().join(',');
+
+  useEffect(() => {
+    const list = key ? key.split(',') : [];
+    const initial: Record<string, PriceTick> = {};
+    list.forEach(symbol => {
+      const latest = priceStream.getLatest(symbol);
+      if (latest) initial[symbol] = latest;
+    });
+    setTicks(initial);
+
+    const unsubscribes = list.map(symbol =>
+      priceStream.subscribe(symbol, tick => setTicks(prev => ({ ...prev, [tick.symbol]: tick })))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [key]);
+
+  return ticks;
+};
+
+// The signed-in user's P&L, pushed whenever it changes
+export const usePnL = (): PnLData | null => {
+  const [pnl, setPnl] = useState<PnLData | null>(() => priceStream.getLatestPnL());
+
+  useEffect(() => priceStream.subscribePnL(setPnl), []);
+
+  return pnl;
+};
+
+export const useStreamStatus = (): { status: StreamStatus; transport: StreamTransport } => {
+  const [state, setState] = useState(() => priceStream.getStatus());
+
+  useEffect(() => priceStream.onStatusChange((status, transport) => setState({ status, transport })), []);
+
+  return state;
+};
@@ -0,0 +1,100 @@
+// hooks/useStkPushDeposit.ts - Drives an M-Pesa STK push from initiation to its final status
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  apiService,
+  ApiError,
+  ApiErrorHandler,
+  type DepositRequest,
+  type DepositStatus,
+  type DepositStatusResponse,
+  type StkPushResponse
+} from '../services/api';
+
+export type DepositPhase = 'idle' | 'initiating' | DepositStatus;
+
+const POLL_INTERVAL = 3000;
+// Extra time past the prompt expiry for M-Pesa's callback to reach the server
+const CALLBACK_GRACE = 30;
+
+export const isFinalDepositStatus = (status: DepositPhase): boolean =>
+  status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'timeout';
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+export const useStkPushDeposit = () => {
+  const [phase, setPhase] = useState<DepositPhase>('idle');
+  const [checkout, setCheckout] = useState<StkPushResponse | null>(null);
+  const [result, setResult] = useState<DepositStatusResponse | null>(null);
+  const [error, setError] = useState('');
+  const pollRef = useRef<AbortController | null>(null);
+
+  // Stop polling when the page unmounts; the server still records the outcome
+  useEffect(() => () => pollRef.current?.abort(), []);
+
+  const poll = useCallback(async (push: StkPushResponse, signal: AbortSignal) => {
+    const deadline = Date.now() + (push.expires_in + CALLBACK_GRACE) * 1000;
+
+    while (!signal.aborted) {
+      await sleep(POLL_INTERVAL, signal);
+      if (signal.aborted) return;
+
+      try {
+        const status = await apiService.getDepositStatus(push.checkout_request_id, { signal, retries: 0 });
+        if (status.status !== 'pending') {
+          setResult(status);
+          setPhase(status.status);
+          return;
+        }
+      } catch (err) {
+        if (err instanceof ApiError && err.code === 'ABORTED') return;
+        // Network blips are expected while the customer is on their phone; keep polling
+        console.warn('Deposit status check failed:', err);
+      }
+
+      if (Date.now() > deadline) {
+        setPhase('timeout');
+        return;
+      }
+    }
+  }, []);
+
+  const start = useCallback(async (data: DepositRequest) => {
+    pollRef.current?.abort();
+    setError('');
+    setResult(null);
+    setCheckout(null);
+    setPhase('initiating');
+
+    try {
+      const push = await apiService.initiateDeposit(data);
+      setCheckout(push);
+      setPhase(push.status);
+      if (push.status === 'pending') {
+        const controller = new AbortController();
+        pollRef.current = controller;
+        await poll(push, controller.signal);
+      }
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Initiate deposit'));
+      setPhase('failed');
+    }
+  }, [poll]);
+
+  const reset = useCallback(() => {
+    pollRef.current?.abort();
+    pollRef.current = null;
+    setPhase('idle');
+    setCheckout(null);
+    setResult(null);
+    setError('');
+  }, []);
+
+  return { phase, checkout, result, error, start, reset };
+};
@@ -1,78 +1,40 @@
 // pages/Bonus.tsx
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { apiService, type ApiError } from '../services/api';
-import { useAuth } from '../contexts/AuthContext';
+import {
+  apiService,
+  ApiErrorHandler,
+  type AvailableBonus,
+  type ReferralStatus,
+  type ReferralSummary,
+  type UserActivity
+} from '../services/api';
 import { useCurrency } from '../contexts/CurrencyContext';
+import { buildReferralLink } from '../auth/referral';
 
-interface Activity {
-  id: string;
-  user_phone: string;
-  activity_type: string;
-  amount: number;
-  description: string;
-  timestamp: string;
-  status: string;
-}
-
-interface Bonus {
-  id: number;
-  title: string;
-  description: string;
-  amount: string;
-  type: string;
-  minDeposit: number;
-  claimed: boolean;
-}
+const REFERRAL_STATUS_STYLES: Record<ReferralStatus, { label: string; className: string }> = {
+  signed_up: { label: 'Signed up', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' },
+  deposited: { label: 'Deposited', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300' },
+  rewarded: { label: 'Rewarded', className: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300' },
+  expired: { label: 'Expired', className: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-400' },
+};
 
 const Bonus = () => {
   const [loading, setLoading] = useState(false);
+  const [bonusesLoading, setBonusesLoading] = useState(true);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
   const [walletBalance, setWalletBalance] = useState<number>(0);
-  const [bonusActivities, setBonusActivities] = useState<Activity[]>([]);
-  const [availableBonuses, setAvailableBonuses] = useState<Bonus[]>([
-    {
-      id: 1,
-      title: "Welcome Bonus",
-      description: "Get 10% bonus on your first deposit",
-      amount: "10%",
-      type: "percentage",
-      minDeposit: 1000,
-      claimed: false
-    },
-    {
-      id: 2,
-      title: "Weekly Reward",
-      description: "Claim your weekly trading bonus",
-      amount: "500",
-      type: "fixed",
-      minDeposit: 0,
-      claimed: false
-    },
-    {
-      id: 3,
-      title: "Referral Bonus",
-      description: "Earn 1,000 for each friend you refer",
-      amount: "1,000",
-      type: "fixed",
-      minDeposit: 0,
-      claimed: false
-    },
-    {
-      id: 4,
-      title: "Loyalty Bonus",
-      description: "Monthly bonus for active traders",
-      amount: "5%",
-      type: "percentage",
-      minDeposit: 5000,
-      claimed: true
-    }
-  ]);
-  const { user } = useAuth();
-  const { formatCurrency, currentCurrency } = useCurrency();
+  const [bonusActivities, setBonusActivities] = useState<UserActivity[]>([]);
+  const [availableBonuses, setAvailableBonuses] = useState<AvailableBonus[]>([]);
+  const [bonusError, setBonusError] = useState('');
+  const [referrals, setReferrals] = useState<ReferralSummary | null>(null);
+  const { formatCurrency } = useCurrency();
   const navigate = useNavigate();
 
   useEffect(() => {
     fetchWalletData();
+    fetchBonuses();
+    fetchReferrals();
   }, []);
 
   const fetchWalletData = async () => {
@@ -80,11 +42,8 @@ const Bonus = () => {
       const wallet = await apiService.getWalletBalance();
       setWalletBalance(wallet.balance);
       
-      const activities = await apiService.getMyActivities();
-      const bonusActivitiesList = activities
-        .filter(activity => activity.activity_type === 'bonus')
-        .slice(0, 10);
-      setBonusActivities(bonusActivitiesList);
+      const activities = await apiService.getMyActivities({ type: 'bonus', limit: 10 });
+      setBonusActivities(activities.items);
     } catch (error) {
       console.error('Failed to fetch wallet data:', error);
       // Set fallback values
@@ -93,71 +52,72 @@ const Bonus = () => {
     }
   };
 
-  const formatBonusAmount = (bonus: Bonus) => {
+  const fetchBonuses = async () => {
+    try {
+      setBonusError('');
+      const bonuses = await apiService.getAvailableBonuses();
+      setAvailableBonuses(bonuses);
+    } catch (error) {
+      setBonusError(ApiErrorHandler.handle(error, 'Fetch bonuses'));
+    } finally {
+      setBonusesLoading(false);
+    }
+  };
+
+  const fetchReferrals = async () => {
+    try {
+      setReferrals(await apiService.getReferralSummary());
+    } catch (error) {
+      console.error('Failed to fetch referrals:', error);
+    }
+  };
+
+  const formatBonusAmount = (bonus: AvailableBonus) => {
     if (bonus.type === 'percentage') {
-      return bonus.amount;
+      return `${bonus.value}%`;
+    }
+    return formatCurrency(bonus.value);
+  };
+
+  const getIneligibleText = (bonus: AvailableBonus) => {
+    if (bonus.ineligible_reason === 'cooldown' && bonus.next_available_at) {
+      return `Available again ${new Date(bonus.next_available_at).toLocaleString()}`;
     }
-    return `${currentCurrency.symbol} ${bonus.amount}`;
+    return bonus.ineligible_message || 'Not available yet';
   };
 
-  const claimBonus = async (bonusId: number, bonusAmount: string, bonusType: string) => {
+  const claimBonus = async (bonus: AvailableBonus) => {
     setLoading(true);
+    setClaimingId(bonus.id);
     try {
-      // Calculate bonus amount
-      let amount = 0;
-      if (bonusType === 'fixed') {
-        amount = parseFloat(bonusAmount.replace(',', ''));
-      } else {
-        // For percentage bonuses, we'd need deposit amount - simplified for demo
-        amount = 1000; // Default fixed amount for percentage bonuses in demo
-      }
+      // The server re-checks eligibility and computes the payout from the qualifying deposit
+      const result = await apiService.claimBonus(bonus.id);
 
-      // In a real app, you would call the backend API here
-      // For now, we'll simulate the API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mark bonus as claimed
-      setAvailableBonuses(prev => 
-        prev.map(bonus => 
-          bonus.id === bonusId ? { ...bonus, claimed: true } : bonus
-        )
-      );
-
-      // Add to activity list
-      const bonusTitle = availableBonuses.find(b => b.id === bonusId)?.title || 'Bonus';
-      const newActivity: Activity = {
-        id: Date.now().toString(),
-        user_phone: user?.phone_number || '',
-        activity_type: 'bonus',
-        amount: amount,
-        description: `Claimed ${bonusTitle}`,
-        timestamp: new Date().toISOString(),
-        status: 'completed'
-      };
-      
-      setBonusActivities(prev => [newActivity, ...prev]);
-      
-      // Update wallet balance locally (in real app, this would come from backend)
-      setWalletBalance(prev => prev + amount);
+      setWalletBalance(result.new_balance);
+      setBonusActivities(prev => [result.activity, ...prev.filter(a => a.id !== result.activity.id)].slice(0, 10));
+      await fetchBonuses();
 
-      alert(`Bonus claimed successfully! ${formatCurrency(amount)} has been added to your wallet.`);
+      alert(`Bonus claimed successfully! ${formatCurrency(result.activity.amount)} has been added to your wallet.`);
       
     } catch (error: unknown) {
-      const apiError = error as ApiError;
-      alert(`Failed to claim bonus: ${apiError.message || 'Unknown error'}`);
+      alert(`Failed to claim bonus: ${ApiErrorHandler.handle(error, 'Claim bonus')}`);
+      // Eligibility may have changed since the list was loaded
+      await fetchBonuses();
     } finally {
       setLoading(false);
+      setClaimingId(null);
     }
   };
 
   const shareReferral = () => {
-    const referralCode = user?.phone_number || 'PESADASH';
-    const referralLink = `https://pesadash.com/invite?ref=${referralCode}`;
+    if (!referrals) return;
+    const referralCode = referrals.code;
+    const referralLink = buildReferralLink(referralCode);
     
     if (navigator.share) {
       navigator.share({
-        title: 'Join PesaDash - Smart Investing',
-        text: `Join PesaDash and get started with smart investing! Use my referral code: ${referralCode}`,
+        title: 'Join PesaPrime Capital - Smart Investing',
+        text: `Join PesaPrime Capital and get started with smart investing! Use my referral code: ${referralCode}`,
         url: referralLink,
       });
     } else {
@@ -202,12 +162,25 @@ const Bonus = () => {
           <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
             Available Bonuses
           </h2>
+          {bonusError && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-xl text-sm">
+              {bonusError}
+            </div>
+          )}
           <div className="space-y-4">
+            {bonusesLoading && (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              </div>
+            )}
+            {!bonusesLoading && availableBonuses.length === 0 && !bonusError && (
+              <p className="text-center py-4 text-gray-500 dark:text-gray-400">No bonuses on offer right now</p>
+            )}
             {availableBonuses.map((bonus) => (
               <div 
                 key={bonus.id}
                 className={`p-4 rounded-xl border-2 ${
-                  bonus.claimed 
+                  bonus.claimed || !bonus.eligible
                     ? 'border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700' 
                     : 'border-yellow-400 bg-yellow-50 dark:bg-yellow-900/20'
                 }`}
@@ -220,14 +193,26 @@ const Bonus = () => {
                     <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
                       {bonus.description}
                     </p>
-                    {bonus.minDeposit > 0 && (
+                    {bonus.min_deposit > 0 && (
                       <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        Min. deposit: {formatCurrency(bonus.minDeposit)}
+                        Min. deposit: {formatCurrency(bonus.min_deposit)}
+                        {bonus.max_amount ? ` · Up to ${formatCurrency(bonus.max_amount)}` : ''}
+                      </p>
+                    )}
+                    {bonus.eligible && !bonus.claimed && bonus.type === 'percentage' && bonus.estimated_amount !== undefined && (
+                      <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                        You'll receive {formatCurrency(bonus.estimated_amount)}
+                        {bonus.qualifying_deposit ? ` on your ${formatCurrency(bonus.qualifying_deposit)} deposit` : ''}
+                      </p>
+                    )}
+                    {!bonus.eligible && !bonus.claimed && (
+                      <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                        {getIneligibleText(bonus)}
                       </p>
                     )}
                   </div>
                   <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                    bonus.claimed 
+                    bonus.claimed || !bonus.eligible
                       ? 'bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
                       : 'bg-green-500 text-white'
                   }`}>
@@ -235,15 +220,19 @@ const Bonus = () => {
                   </span>
                 </div>
                 <button
-                  onClick={() => !bonus.claimed && claimBonus(bonus.id, bonus.amount, bonus.type)}
-                  disabled={bonus.claimed || loading}
+                  onClick={() => bonus.eligible && !bonus.claimed && claimBonus(bonus)}
+                  disabled={bonus.claimed || !bonus.eligible || loading}
                   className={`w-full py-2 rounded-lg font-semibold transition duration-200 ${
-                    bonus.claimed
+                    bonus.claimed || !bonus.eligible
                       ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
                       : 'bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white'
                   }`}
                 >
-                  {bonus.claimed ? 'Claimed' : 'Claim Bonus'}
+                  {bonus.claimed
+                    ? 'Claimed'
+                    : claimingId === bonus.id
+                      ? 'Claiming...'
+                      : bonus.eligible ? 'Claim Bonus' : 'Not Eligible'}
                 </button>
               </div>
             ))}
@@ -260,20 +249,80 @@ const Bonus = () => {
             </div>
             <h3 className="text-xl font-bold mb-2">Invite Friends & Earn</h3>
             <p className="text-purple-100 mb-4">
-              Get {formatCurrency(1000)} for each friend who joins and deposits
+              Get {formatCurrency(referrals?.reward_amount ?? 1000)} for each friend who joins and deposits
             </p>
           </div>
           <button
             onClick={shareReferral}
-            className="w-full py-3 bg-white text-purple-600 rounded-xl font-semibold hover:bg-purple-50 transition duration-200"
+            disabled={!referrals}
+            className="w-full py-3 bg-white text-purple-600 rounded-xl font-semibold hover:bg-purple-50 disabled:opacity-60 disabled:cursor-not-allowed transition duration-200"
           >
             Share Referral Link
           </button>
           <div className="mt-3 text-center text-purple-200 text-sm">
-            Your code: <strong>{user?.phone_number || 'PESADASH'}</strong>
+            Your code: <strong className="tracking-wider">{referrals?.code || '…'}</strong>
           </div>
         </div>
 
+        {/* Referrals Dashboard */}
+        {referrals && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
+              Your Referrals
+            </h3>
+            <div className="grid grid-cols-2 gap-3 mb-4 text-center">
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Invited</p>
+                <p className="text-lg font-bold text-gray-800 dark:text-white">{referrals.invited_count}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Qualified</p>
+                <p className="text-lg font-bold text-gray-800 dark:text-white">{referrals.qualified_count}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Earned</p>
+                <p className="text-lg font-bold text-green-600">{formatCurrency(referrals.earned_total)}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Pending</p>
+                <p className="text-lg font-bold text-yellow-600">{formatCurrency(referrals.pending_total)}</p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {referrals.referrals.map((referral) => {
+                const status = REFERRAL_STATUS_STYLES[referral.status];
+                return (
+                  <div key={referral.id} className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-800 dark:text-white">{referral.display_name}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Joined {new Date(referral.joined_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>
+                        {status.label}
+                      </span>
+                      {referral.bonus_status !== 'none' && (
+                        <p className={`text-sm font-semibold mt-1 ${referral.bonus_status === 'paid' ? 'text-green-600' : 'text-yellow-600'}`}>
+                          {referral.bonus_status === 'paid' ? '+' : ''}{formatCurrency(referral.bonus_amount)}
+                          {referral.bonus_status === 'pending' && <span className="text-xs font-normal"> pending</span>}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {referrals.referrals.length === 0 && (
+                <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+                  <p>No referrals yet</p>
+                  <p className="text-sm">Share your link and friends who join will show up here</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Bonus History */}
         <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6">
           <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
@@ -1,9 +1,11 @@
 // pages/Deposit.tsx
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { apiService, type DepositRequest, type ApiError } from '../services/api';
+import { apiService, type DepositRequest } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useCurrency } from '../contexts/CurrencyContext';
+import { useStkPushDeposit, isFinalDepositStatus } from '../hooks/useStkPushDeposit';
+import { formatMpesaPhone } from '../auth/validation';
 
 interface Activity {
   id: string;
@@ -15,29 +17,55 @@ interface Activity {
   status: string;
 }
 
+const FAILURE_MESSAGES: Record<'failed' | 'cancelled' | 'timeout', { title: string; hint: string }> = {
+  failed: {
+    title: 'Payment failed',
+    hint: 'M-Pesa could not complete the payment. Check your M-Pesa balance and try again.',
+  },
+  cancelled: {
+    title: 'Payment cancelled',
+    hint: 'The M-Pesa prompt was cancelled on your phone. No money was taken.',
+  },
+  timeout: {
+    title: 'No response from your phone',
+    hint: "We didn't get a confirmation in time. If you did enter your PIN, the deposit will show in your history once M-Pesa confirms it.",
+  },
+};
+
 const Deposit = () => {
   const [amount, setAmount] = useState<string>('');
-  const [loading, setLoading] = useState(false);
   const [walletBalance, setWalletBalance] = useState<number>(0);
   const [recentActivities, setRecentActivities] = useState<Activity[]>([]);
   const { user } = useAuth();
   const { formatCurrency, currentCurrency } = useCurrency();
   const navigate = useNavigate();
+  const { phase, checkout, result, error: depositError, start, reset } = useStkPushDeposit();
 
   useEffect(() => {
     fetchWalletData();
   }, []);
 
+  // The balance only moves once M-Pesa has confirmed the payment
+  useEffect(() => {
+    if (phase === 'completed') {
+      if (result?.new_balance !== undefined) {
+        setWalletBalance(result.new_balance);
+      }
+      setAmount('');
+    }
+    if (isFinalDepositStatus(phase)) {
+      fetchWalletData();
+    }
+  }, [phase]);
+
   const fetchWalletData = async () => {
+    if (!user?.phone_number) return;
     try {
-      const wallet = await apiService.getWalletBalance();
+      const wallet = await apiService.getWalletBalance(user.phone_number);
       setWalletBalance(wallet.balance);
       
-      const activities = await apiService.getMyActivities();
-      const depositActivities = activities
-        .filter(activity => activity.activity_type === 'deposit')
-        .slice(0, 5);
-      setRecentActivities(depositActivities);
+      const activities = await apiService.getMyActivities({ type: 'deposit', limit: 5 });
+      setRecentActivities(activities.items);
     } catch (error) {
       console.error('Failed to fetch wallet data:', error);
       // Set fallback values
@@ -57,27 +85,16 @@ const Deposit = () => {
       return;
     }
 
-    setLoading(true);
-    try {
-      const depositData: DepositRequest = {
-        amount: parseFloat(amount),
-        phone_number: user.phone_number
-      };
+    const depositData: DepositRequest = {
+      amount: parseFloat(amount),
+      phone_number: user.phone_number
+    };
 
-      const result = await apiService.depositFunds(depositData);
-      
-      alert(`Deposit successful! New balance: ${formatCurrency(result.new_balance)}`);
-      setAmount('');
-      await fetchWalletData(); // Refresh data
-      
-    } catch (error: unknown) {
-      const apiError = error as ApiError;
-      alert(`Deposit failed: ${apiError.message || 'Unknown error'}`);
-    } finally {
-      setLoading(false);
-    }
+    await start(depositData);
   };
 
+  const inProgress = phase === 'initiating' || phase === 'pending';
+
   const quickAmounts = [100, 500, 1000, 2000, 5000, 10000];
 
   return (
@@ -114,19 +131,26 @@ const Deposit = () => {
 
           {/* Amount Input */}
           <div className="mb-6">
+            {/* M-Pesa only moves KES, so the amount is always entered in shillings */}
             <label className="block text-gray-700 dark:text-gray-300 mb-2">
-              Enter Amount ({currentCurrency.code})
+              Enter Amount (KES)
             </label>
             <div className="relative">
-              <span className="absolute left-3 top-3 text-gray-500">{currentCurrency.symbol}</span>
+              <span className="absolute left-3 top-3 text-gray-500">KSh</span>
               <input
                 type="number"
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 placeholder="0.00"
+                disabled={inProgress}
                 className="w-full pl-12 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500"
               />
             </div>
+            {currentCurrency.code !== 'KES' && Number(amount) > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                ≈ {formatCurrency(Number(amount))}
+              </p>
+            )}
           </div>
 
           {/* Quick Amounts */}
@@ -137,29 +161,76 @@ const Deposit = () => {
                 <button
                   key={quickAmount}
                   onClick={() => setAmount(quickAmount.toString())}
+                  disabled={inProgress}
                   className="py-2 px-3 bg-gray-100 dark:bg-gray-600 hover:bg-green-500 hover:text-white rounded-lg transition duration-200 text-gray-700 dark:text-gray-300"
                 >
-                  {currentCurrency.symbol} {quickAmount.toLocaleString()}
+                  KSh {quickAmount.toLocaleString()}
                 </button>
               ))}
             </div>
           </div>
 
-          {/* Deposit Button */}
-          <button
-            onClick={handleDeposit}
-            disabled={loading || !amount || parseFloat(amount) <= 0}
-            className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white rounded-xl font-semibold text-lg transition duration-200 disabled:cursor-not-allowed"
-          >
-            {loading ? (
-              <div className="flex items-center justify-center">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-2"></div>
-                Processing...
+          {/* Payment Status */}
+          {phase === 'pending' && checkout && (
+            <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-xl text-center">
+              <div className="animate-pulse text-4xl mb-2">📱</div>
+              <p className="font-semibold text-gray-800 dark:text-white">Check your phone</p>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                Enter your M-Pesa PIN on {user?.phone_number ? formatMpesaPhone(user.phone_number) : 'your phone'} to
+                approve {formatCurrency(parseFloat(amount) || 0)}.
+              </p>
+              <div className="flex items-center justify-center mt-3 text-xs text-gray-500 dark:text-gray-400">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600 mr-2"></div>
+                Waiting for M-Pesa confirmation...
               </div>
-            ) : (
-              'Deposit Now'
-            )}
-          </button>
+            </div>
+          )}
+
+          {phase === 'completed' && result && (
+            <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-xl text-center">
+              <p className="font-semibold text-green-700 dark:text-green-300">Deposit received</p>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                {formatCurrency(result.amount)} has been added to your wallet.
+              </p>
+              {result.mpesa_receipt && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">M-Pesa receipt: {result.mpesa_receipt}</p>
+              )}
+            </div>
+          )}
+
+          {(phase === 'failed' || phase === 'cancelled' || phase === 'timeout') && (
+            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-center">
+              <p className="font-semibold text-red-700 dark:text-red-300">{FAILURE_MESSAGES[phase].title}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                {depositError || result?.result_description || FAILURE_MESSAGES[phase].hint}
+              </p>
+            </div>
+          )}
+
+          {/* Deposit Button */}
+          {isFinalDepositStatus(phase) ? (
+            <button
+              onClick={reset}
+              className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white rounded-xl font-semibold text-lg transition duration-200"
+            >
+              {phase === 'completed' ? 'Make Another Deposit' : 'Try Again'}
+            </button>
+          ) : (
+            <button
+              onClick={handleDeposit}
+              disabled={inProgress || !amount || parseFloat(amount) <= 0}
+              className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white rounded-xl font-semibold text-lg transition duration-200 disabled:cursor-not-allowed"
+            >
+              {inProgress ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-2"></div>
+                  {phase === 'initiating' ? 'Sending M-Pesa prompt...' : 'Waiting for payment...'}
+                </div>
+              ) : (
+                'Deposit Now'
+              )}
+            </button>
+          )}
 
           {/* User Info */}
           <div className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">
@@ -213,7 +284,7 @@ const Deposit = () => {
                 Secure Transaction
               </p>
               <p className="text-xs text-yellow-700 dark:text-yellow-300">
-                Your funds are secured with bank-level encryption. Deposits are processed instantly.
+                Your funds are secured with bank-level encryption. Deposits are credited as soon as M-Pesa confirms your payment.
               </p>
             </div>
           </div>
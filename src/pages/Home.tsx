@@ -11,6 +11,8 @@ import {
 import { useAuth } from '../contexts/AuthContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import Trading from '../components/Trading';
+import { portfolioTotals } from '../services/portfolio';
+import WatchlistWidget from '../components/WatchlistWidget';
 
 const Home = () => {
   const [walletData, setWalletData] = useState<WalletData | null>(null);
@@ -19,7 +21,7 @@ const Home = () => {
   const [activities, setActivities] = useState<UserActivity[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatPercent } = useCurrency();
 
   useEffect(() => {
     if (user) {
@@ -35,13 +37,13 @@ const Home = () => {
         apiService.getWalletBalance(),
         apiService.getAssets(),
         apiService.getMyInvestments(),
-        apiService.getMyActivities()
+        apiService.getMyActivities({ limit: 5 })
       ]);
       
       setWalletData(wallet);
       setAssets(assetsData);
       setInvestments(investmentsData);
-      setActivities(activitiesData);
+      setActivities(activitiesData.items);
     } catch (error) {
       console.error('Failed to fetch data:', error);
       // Set proper fallback data that matches the interface
@@ -62,11 +64,11 @@ const Home = () => {
     }
   };
 
-  // Calculate totals
-  const totalInvested = investments.reduce((sum, inv) => sum + inv.invested_amount, 0);
-  const totalCurrentValue = investments.reduce((sum, inv) => sum + inv.current_value, 0);
-  const totalProfitLoss = totalCurrentValue - totalInvested;
-  const totalProfitLossPercentage = totalInvested > 0 ? (totalProfitLoss / totalInvested) * 100 : 0;
+  const {
+    invested: totalInvested,
+    profitLoss: totalProfitLoss,
+    profitLossPercentage: totalProfitLossPercentage
+  } = portfolioTotals(investments);
 
   if (loading) {
     return (
@@ -110,29 +112,29 @@ const Home = () => {
         <div className="flex justify-around items-center py-3 rounded-xl">
           <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-orange-500 to-amber-900">
             Cash Balance: <br />
-            <span className="text-xl font-bold">{formatCurrency(walletData?.balance || 0)}</span>
+            <span className="text-xl font-bold">{formatCurrency(walletData?.balance || 0, { compact: true })}</span>
           </div>
           <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600">
             Total Equity:<br />
-            <span className="text-xl font-bold">{formatCurrency(walletData?.equity || 0)}</span>
+            <span className="text-xl font-bold">{formatCurrency(walletData?.equity || 0, { compact: true })}</span>
           </div>
         </div>
 
         {/* Investment Summary */}
         <div className="flex justify-around items-center rounded-xl mb-4">
           <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600">
-            Total Invested: <br />
-            <span className="text-lg font-semibold">{formatCurrency(totalInvested)}</span>
+            Invested (open positions): <br />
+            <span className="text-lg font-semibold">{formatCurrency(totalInvested, { compact: true })}</span>
           </div>
           <div className={`flex-col text-center p-3 w-2/5 rounded-xl bg-gradient-to-br ${
             totalProfitLoss >= 0 ? 'from-green-500 to-emerald-600' : 'from-red-500 to-rose-600'
           }`}>
-            Total P&L: <br />
+            Open P&L: <br />
             <span className="text-lg font-semibold">
-              {totalProfitLoss >= 0 ? '+' : ''}{formatCurrency(Math.abs(totalProfitLoss))}
+              {formatCurrency(totalProfitLoss, { signed: true, compact: true })}
             </span>
             <div className="text-sm">
-              ({totalProfitLoss >= 0 ? '+' : ''}{totalProfitLossPercentage.toFixed(2)}%)
+              ({formatPercent(totalProfitLossPercentage, { signed: true })})
             </div>
           </div>
         </div>
@@ -178,6 +180,9 @@ const Home = () => {
         <NumberCarousel />
       </div>
 
+      {/* Watchlist */}
+      <WatchlistWidget assets={assets} />
+
       
 
       {/* My Investments */}
@@ -185,7 +190,7 @@ const Home = () => {
         <h3 className="text-xl font-bold mb-4 text-center">My Investments</h3>
         <div className="space-y-3">
           {investments.map((investment) => (
-            <div key={investment.id} className="bg-blue-800 rounded-lg p-3">
+            <Link key={investment.id} to={`/investments/${investment.id}`} className="block bg-blue-800 rounded-lg p-3 hover:bg-blue-700 transition duration-200">
               <div className="flex justify-between items-center">
                 <div>
                   <h4 className="font-semibold">{investment.asset_name}</h4>
@@ -196,12 +201,12 @@ const Home = () => {
                 <div className="text-right">
                   <p className="font-semibold">{formatCurrency(investment.current_value)}</p>
                   <p className={`text-sm ${investment.profit_loss >= 0 ? 'text-green-300' : 'text-red-300'}`}>
-                    {investment.profit_loss >= 0 ? '+' : ''}{formatCurrency(Math.abs(investment.profit_loss))} 
-                    ({investment.profit_loss_percentage.toFixed(2)}%)
+                    {formatCurrency(investment.profit_loss, { signed: true })}{' '}
+                    ({formatPercent(investment.profit_loss_percentage, { signed: true })})
                   </p>
                 </div>
               </div>
-            </div>
+            </Link>
           ))}
           {investments.length === 0 && (
             <div className="text-center py-4 text-blue-300">
@@ -233,7 +238,7 @@ const Home = () => {
               </div>
               <div className="flex-1 text-right">
                 <span className={activity.amount > 0 ? 'text-green-400' : 'text-red-400'}>
-                  {activity.amount > 0 ? '+' : ''}{formatCurrency(Math.abs(activity.amount))}
+                  {formatCurrency(activity.amount, { signed: true })}
                 </span>
                 <p className="text-xs text-gray-400">
                   {new Date(activity.timestamp).toLocaleDateString()}
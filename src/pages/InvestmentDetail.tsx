@@ -0,0 +1,384 @@
+// pages/InvestmentDetail.tsx - One position: accrual, maturity countdown, price since entry and closing
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { format } from 'date-fns';
+import { apiService, ApiErrorHandler, type CloseInvestmentResponse, type InvestmentPosition } from '../services/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { usePrice } from '../hooks/usePrice';
+import { DEFAULT_INTERVALS, marketDataService, type AssetClass, type Candle } from '../services/marketData';
+import {
+  accrualTimeline,
+  countdownTo,
+  formatCountdown,
+  rangeSince,
+  termProgress
+} from '../services/investmentLifecycle';
+import { formatAssetPrice } from '../services/priceAlerts';
+import CloseInvestmentModal from '../components/CloseInvestmentModal';
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-900 text-green-300',
+  matured: 'bg-yellow-900 text-yellow-300',
+  closed: 'bg-gray-600 text-gray-300',
+};
+
+const InvestmentDetail = () => {
+  const { id } = useParams();
+  const [investment, setInvestment] = useState<InvestmentPosition | null>(null);
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [showClose, setShowClose] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const { formatCurrency, formatPercent } = useCurrency();
+  const tick = usePrice(investment?.symbol);
+
+  useEffect(() => {
+    if (!id) return;
+    const fetchInvestment = async () => {
+      setLoading(true);
+      try {
+        setInvestment(await apiService.getInvestment(id));
+      } catch (err) {
+        setError(ApiErrorHandler.handle(err, 'Load investment'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchInvestment();
+  }, [id]);
+
+  // Drives the countdown; the accrual chart only moves once an hour but follows along
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Price history from when the position was opened
+  useEffect(() => {
+    if (!investment) return;
+    let cancelled = false;
+    const range = rangeSince(investment.created_at);
+    marketDataService
+      .getCandles(
+        {
+          symbol: investment.symbol,
+          assetClass: investment.asset_type as AssetClass,
+          reference: { price: investment.current_price, changePercent: 0 },
+        },
+        DEFAULT_INTERVALS[range],
+        range
+      )
+      .then(series => {
+        if (cancelled) return;
+        const opened = new Date(investment.created_at).getTime();
+        const since = series.candles.filter(candle => candle.time >= opened);
+        // A very new position may not have a full candle yet; show the last few for context
+        setCandles(since.length >= 2 ? since : series.candles.slice(-10));
+      })
+      .catch(err => console.error('Failed to load price history:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [investment?.id]);
+
+  const isOpen = investment?.status === 'active' || investment?.status === 'matured';
+  const currentPrice = (isOpen && tick?.price) || investment?.current_price || 0;
+  // The server values the position in KES; a live price moves it proportionally
+  const currentValue = investment && investment.current_price > 0
+    ? investment.current_value * (currentPrice / investment.current_price)
+    : investment?.current_value ?? 0;
+  const profitLoss = currentValue - (investment?.invested_amount ?? 0);
+  const profitLossPercentage = investment?.invested_amount ? (profitLoss / investment.invested_amount) * 100 : 0;
+
+  // Hourly points are plenty; recomputing every second would just redraw the same chart
+  const hourBucket = Math.floor(now / (60 * 60 * 1000));
+  const accrual = useMemo(
+    () => (investment ? accrualTimeline(investment, now) : []),
+    [investment, hourBucket]
+  );
+
+  const priceRows = useMemo(() => {
+    const rows = candles.map(candle => ({ time: candle.time, price: candle.close }));
+    if (isOpen && tick && (rows.length === 0 || tick.timestamp > rows[rows.length - 1].time)) {
+      rows.push({ time: tick.timestamp, price: tick.price });
+    }
+    return rows;
+  }, [candles, tick, isOpen]);
+
+  const toggleAutoRoll = async () => {
+    if (!investment) return;
+    setError('');
+    try {
+      const updated = await apiService.setAutoRoll(investment.id, !investment.auto_roll);
+      setInvestment({ ...investment, auto_roll: updated.auto_roll });
+    } catch (err) {
+      setError(ApiErrorHandler.handle(err, 'Update auto-roll'));
+    }
+  };
+
+  const handleClosed = (response: CloseInvestmentResponse) => {
+    setInvestment(response.investment);
+    setShowClose(false);
+    setSuccess(`${formatCurrency(response.proceeds)} has been added to your wallet. New balance: ${formatCurrency(response.wallet_balance)}.`);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!investment) {
+    return (
+      <div className="max-w-3xl mx-auto p-4 text-center text-white">
+        <div className="text-6xl mb-4">📉</div>
+        <p className="text-lg font-semibold mb-2">We couldn't load this investment</p>
+        {error && <p className="text-sm text-gray-400 mb-4">{error}</p>}
+        <Link to="/assets" className="text-yellow-400 hover:underline">Back to my assets</Link>
+      </div>
+    );
+  }
+
+  const countdown = countdownTo(investment.matures_at, now);
+  const matured = countdown.totalMs === 0;
+  const progress = termProgress(investment, now);
+  const totalIncome = investment.hourly_income * investment.duration;
+  const decimals = investment.asset_type === 'forex' ? 4 : 2;
+  const priceUp = currentPrice >= investment.entry_price;
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 mb-20 lg:mb-5 space-y-4 text-white">
+      <Link to="/assets" className="text-sm text-gray-400 hover:text-yellow-400">← My assets</Link>
+
+      {/* Header */}
+      <div className="bg-gradient-to-br from-blue-900 to-purple-900 rounded-xl p-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold">{investment.asset_name}</h1>
+            <p className="text-sm text-blue-200">
+              {investment.units.toFixed(4)} {investment.symbol} · opened {format(new Date(investment.created_at), 'd MMM yyyy, HH:mm')}
+            </p>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs font-semibold capitalize ${STATUS_STYLES[investment.status] ?? STATUS_STYLES.closed}`}>
+            {investment.status}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 text-sm">
+          <div>
+            <p className="text-blue-200">Invested</p>
+            <p className="font-semibold">{formatCurrency(investment.invested_amount)}</p>
+          </div>
+          <div>
+            <p className="text-blue-200">{isOpen ? 'Current value' : 'Final value'}</p>
+            <p className="font-semibold">{formatCurrency(currentValue)}</p>
+          </div>
+          <div>
+            <p className="text-blue-200">P&L</p>
+            <p className={`font-semibold ${profitLoss >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+              {formatCurrency(profitLoss, { signed: true })} ({formatPercent(profitLossPercentage, { signed: true })})
+            </p>
+          </div>
+          <div>
+            <p className="text-blue-200">Income received</p>
+            <p className="font-semibold text-green-300">{formatCurrency(investment.accrued_income)}</p>
+          </div>
+        </div>
+      </div>
+
+      {success && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg">
+          {success}
+        </div>
+      )}
+
+      {/* Maturity */}
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-bold">Maturity</h3>
+          <span className="text-sm text-gray-400">{format(new Date(investment.matures_at), 'd MMM yyyy, HH:mm')}</span>
+        </div>
+        {investment.status === 'closed' ? (
+          <p className="text-sm text-gray-300">
+            Closed {investment.closed_at ? format(new Date(investment.closed_at), 'd MMM yyyy, HH:mm') : ''}
+          </p>
+        ) : matured ? (
+          <p className="text-2xl font-mono font-bold text-yellow-400">Matured</p>
+        ) : (
+          <p className="text-2xl font-mono font-bold">{formatCountdown(countdown)}</p>
+        )}
+        <div className="w-full bg-gray-700 rounded-full h-2 mt-3">
+          <div className="bg-gradient-to-r from-green-500 to-emerald-500 h-2 rounded-full" style={{ width: `${progress}%` }}></div>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          {Math.floor(progress)}% of {investment.duration} hours · {formatCurrency(investment.hourly_income)} per hour
+        </p>
+        {investment.status === 'active' && (
+          <label className="flex items-center justify-between mt-3 pt-3 border-t border-gray-700 text-sm cursor-pointer">
+            <span>
+              Auto-roll on maturity
+              <span className="block text-xs text-gray-400">Reinvest into {investment.asset_name} instead of paying out</span>
+            </span>
+            <input type="checkbox" checked={!!investment.auto_roll} onChange={toggleAutoRoll} className="w-5 h-5 accent-green-500" />
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900 border border-red-700 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Accrual timeline */}
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-bold">Income</h3>
+          <span className="text-sm text-gray-400">
+            {formatCurrency(investment.accrued_income)} of {formatCurrency(totalIncome)}
+          </span>
+        </div>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={accrual} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+              <CartesianGrid stroke="#374151" strokeDasharray="5 5" vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={time => format(time, investment.duration > 48 ? 'd MMM' : 'HH:mm')}
+                stroke="#6B7280"
+                tick={{ fontSize: 10 }}
+                minTickGap={40}
+              />
+              <YAxis
+                orientation="right"
+                tickFormatter={value => formatCurrency(Number(value), { compact: true })}
+                stroke="#6B7280"
+                tick={{ fontSize: 10 }}
+                width={80}
+              />
+              <Tooltip
+                labelFormatter={time => format(Number(time), 'd MMM, HH:mm')}
+                formatter={(value, name) => [formatCurrency(Number(value)), name === 'accrued' ? 'Earned' : 'Projected']}
+                contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: 8 }}
+              />
+              <Area dataKey="accrued" stroke="#10B981" fill="#10B981" fillOpacity={0.25} strokeWidth={2} isAnimationActive={false} connectNulls />
+              <Line dataKey="projected" stroke="#9CA3AF" strokeDasharray="4 4" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+              {isOpen && !matured && <ReferenceLine x={now} stroke="#FCD34D" strokeDasharray="3 3" label={{ value: 'Now', fill: '#FCD34D', fontSize: 10 }} />}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Price since entry */}
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-bold">Price since entry</h3>
+          <div className="text-right text-sm">
+            <p>
+              <span className="text-gray-400">Entry </span>{formatAssetPrice(investment.entry_price)}
+              <span className="text-gray-400"> · {isOpen ? 'Now' : 'Exit'} </span>
+              <span className={priceUp ? 'text-green-400' : 'text-red-400'}>{formatAssetPrice(currentPrice)}</span>
+            </p>
+          </div>
+        </div>
+        <div className="h-48">
+          {priceRows.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={priceRows} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+                <CartesianGrid stroke="#374151" strokeDasharray="5 5" vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={time => format(time, 'd MMM HH:mm')}
+                  stroke="#6B7280"
+                  tick={{ fontSize: 10 }}
+                  minTickGap={40}
+                />
+                <YAxis
+                  orientation="right"
+                  domain={[
+                    (min: number) => Math.min(min, investment.entry_price),
+                    (max: number) => Math.max(max, investment.entry_price),
+                  ]}
+                  tickFormatter={value => Number(value).toFixed(decimals)}
+                  stroke="#6B7280"
+                  tick={{ fontSize: 10 }}
+                  width={80}
+                />
+                <Tooltip
+                  labelFormatter={time => format(Number(time), 'd MMM, HH:mm')}
+                  formatter={value => [formatAssetPrice(Number(value)), 'Price']}
+                  contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: 8 }}
+                />
+                <ReferenceLine
+                  y={investment.entry_price}
+                  stroke="#FCD34D"
+                  strokeDasharray="4 4"
+                  label={{ value: 'Entry', fill: '#FCD34D', fontSize: 10, position: 'insideTopLeft' }}
+                />
+                <Line dataKey="price" stroke={priceUp ? '#10B981' : '#EF4444'} strokeWidth={2} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-gray-400">No price history yet</div>
+          )}
+        </div>
+      </div>
+
+      {/* Closing */}
+      {isOpen && (
+        <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl p-4">
+          <p className="text-sm text-gray-300 mb-3">
+            {matured
+              ? 'This position has matured. Sell it to move the proceeds to your wallet.'
+              : 'Closing before maturity forfeits unpaid income and may carry a penalty. You will see the exact amounts before confirming.'}
+          </p>
+          <button
+            onClick={() => {
+              setSuccess('');
+              setShowClose(true);
+            }}
+            className={`w-full py-3 rounded-xl font-bold text-white transition duration-200 ${
+              matured
+                ? 'bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700'
+                : 'bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700'
+            }`}
+          >
+            {matured ? 'SELL' : 'EXIT EARLY'}
+          </button>
+        </div>
+      )}
+
+      {showClose && (
+        <CloseInvestmentModal
+          investment={investment}
+          onClose={() => setShowClose(false)}
+          onClosed={handleClosed}
+        />
+      )}
+    </div>
+  );
+};
+
+export default InvestmentDetail;
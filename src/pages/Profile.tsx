@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { apiService, type UserInvestment, type UserActivity } from '../services/api';
-import { useCurrency } from '../contexts/CurrencyContext';
+import { apiService, ApiError, ApiErrorHandler, type UserInvestment, type UserActivity } from '../services/api';
+import { useCurrency, NUMBER_LOCALES } from '../contexts/CurrencyContext';
+import { validatePassword } from '../auth/validation';
+import PasswordChecklist from '../components/PasswordChecklist';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import { portfolioTotals } from '../services/portfolio';
+import PriceAlertSettings from '../components/PriceAlertSettings';
 
 const Profile = () => {
   const [userInvestments, setUserInvestments] = useState<UserInvestment[]>([]);
@@ -15,10 +20,11 @@ const Profile = () => {
     confirmPassword: ''
   });
   const [passwordError, setPasswordError] = useState('');
+  const [currentPasswordError, setCurrentPasswordError] = useState('');
   const [passwordSuccess, setPasswordSuccess] = useState('');
 
   const { user, logout } = useAuth();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatPercent, numberLocale, setNumberLocale } = useCurrency();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -33,12 +39,12 @@ const Profile = () => {
     try {
       const [investments, activities, wallet] = await Promise.all([ // ADD WALLET
         apiService.getMyInvestments(user.phone_number),
-        apiService.getMyActivities(user.phone_number),
+        apiService.getMyActivities({ limit: 4 }),
         apiService.getWalletBalance(user.phone_number) // ADD WALLET FETCH
       ]);
       
       setUserInvestments(investments);
-      setRecentActivities(activities.slice(1, 5)); // Last 5 activities
+      setRecentActivities(activities.items); // Latest 4 activities
       setWalletData(wallet); // SET WALLET DATA
     } catch (error) {
       console.error('Failed to fetch user data:', error);
@@ -62,6 +68,7 @@ const Profile = () => {
   const handlePasswordChange = async (e: React.FormEvent) => {
     e.preventDefault();
     setPasswordError('');
+    setCurrentPasswordError('');
     setPasswordSuccess('');
 
     if (passwordData.newPassword !== passwordData.confirmPassword) {
@@ -69,23 +76,25 @@ const Profile = () => {
       return;
     }
 
-    if (passwordData.newPassword.length < 8) {
-      setPasswordError('Password must be at least 8 characters long');
-      return;
-    }
-
-    if (!/(?=.*[0-9])/.test(passwordData.newPassword)) {
-      setPasswordError('Password must include at least one number');
+    const strengthError = validatePassword(passwordData.newPassword);
+    if (strengthError) {
+      setPasswordError(strengthError);
       return;
     }
 
     setChangingPassword(true);
     try {
-      // Note: You'll need to implement changePassword in your apiService
-      // For now, we'll simulate the API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setPasswordSuccess('Password changed successfully!');
+      const response = await apiService.changePassword(passwordData.currentPassword, passwordData.newPassword);
+
+      const revoked = response.revoked_sessions;
+      setPasswordSuccess(
+        revoked > 0
+          ? `Password changed. Signed out of ${revoked} other session${revoked === 1 ? '' : 's'}.`
+          : 'Password changed successfully!'
+      );
+      if (response.activity) {
+        setRecentActivities(prev => [response.activity!, ...prev].slice(0, 4));
+      }
       setPasswordData({
         currentPassword: '',
         newPassword: '',
@@ -95,7 +104,11 @@ const Profile = () => {
       // Clear success message after 3 seconds
       setTimeout(() => setPasswordSuccess(''), 3000);
     } catch (error: unknown) {
-      setPasswordError(error.message || 'Failed to change password');
+      if (error instanceof ApiError && error.code === 'INVALID_CURRENT_PASSWORD') {
+        setCurrentPasswordError(error.message || 'Current password is incorrect');
+      } else {
+        setPasswordError(ApiErrorHandler.handle(error, 'Change password'));
+      }
     } finally {
       setChangingPassword(false);
     }
@@ -110,9 +123,11 @@ const Profile = () => {
       .slice(0, 2);
   };
 
-  const totalInvested = userInvestments.reduce((sum, inv) => sum + inv.invested_amount, 0);
-  const totalCurrentValue = userInvestments.reduce((sum, inv) => sum + inv.current_value, 0);
-  const totalProfitLoss = totalCurrentValue - totalInvested;
+  const {
+    invested: totalInvested,
+    currentValue: totalCurrentValue,
+    profitLoss: totalProfitLoss
+  } = portfolioTotals(userInvestments);
 
   if (loading) {
     return (
@@ -189,17 +204,17 @@ const Profile = () => {
           {/* Investment Summary */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
             <div className="bg-gray-700 rounded-lg p-4 text-center">
-              <p className="text-gray-400 text-sm">Total Invested</p>
-              <p className="text-xl font-bold text-green-400">{formatCurrency(totalInvested)}</p>
+              <p className="text-gray-400 text-sm">Invested (open positions)</p>
+              <p className="text-xl font-bold text-green-400">{formatCurrency(totalInvested, { compact: true })}</p>
             </div>
             <div className="bg-gray-700 rounded-lg p-4 text-center">
               <p className="text-gray-400 text-sm">Current Value</p>
-              <p className="text-xl font-bold text-blue-400">{formatCurrency(totalCurrentValue)}</p>
+              <p className="text-xl font-bold text-blue-400">{formatCurrency(totalCurrentValue, { compact: true })}</p>
             </div>
             <div className="bg-gray-700 rounded-lg p-4 text-center">
-              <p className="text-gray-400 text-sm">Total P&L</p>
+              <p className="text-gray-400 text-sm">Open P&L</p>
               <p className={`text-xl font-bold ${totalProfitLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                {totalProfitLoss >= 0 ? '+' : ''}{formatCurrency(Math.abs(totalProfitLoss))}
+                {formatCurrency(totalProfitLoss, { signed: true, compact: true })}
               </p>
             </div>
           </div>
@@ -221,7 +236,7 @@ const Profile = () => {
                       <div className="text-right">
                         <p className="font-semibold">{formatCurrency(investment.current_value)}</p>
                         <p className={`text-sm ${investment.profit_loss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {investment.profit_loss >= 0 ? '+' : ''}{investment.profit_loss_percentage.toFixed(2)}%
+                          {formatPercent(investment.profit_loss_percentage, { signed: true })}
                         </p>
                       </div>
                     </div>
@@ -265,7 +280,7 @@ const Profile = () => {
                   </div>
                   <div className="flex-1 text-right">
                     <span className={activity.amount > 0 ? 'text-green-400' : 'text-red-400'}>
-                      {activity.amount > 0 ? '+' : ''}{formatCurrency(Math.abs(activity.amount))}
+                      {formatCurrency(activity.amount, { signed: true })}
                     </span>
                     <p className="text-xs text-gray-400">
                       {new Date(activity.timestamp).toLocaleDateString()}
@@ -286,7 +301,7 @@ const Profile = () => {
         <div className="flex flex-col w-full lg:w-1/4 p-4 lg:border-l-2 lg:border-l-orange-300 items-center">
           <p className="text-center text-xl font-bold mb-4">Change Password</p>
           <p className="text-center text-sm text-gray-300 mb-6">
-            Use a strong password and keep it private. Passwords must be at least 8 characters and include a number.
+            Use a strong password and keep it private. Passwords must be at least 8 characters and include a number. Changing it signs you out on your other devices.
           </p>
           
           <form onSubmit={handlePasswordChange} className="w-full space-y-4">
@@ -295,10 +310,18 @@ const Profile = () => {
               <input 
                 type="password" 
                 value={passwordData.currentPassword}
-                onChange={(e) => setPasswordData({...passwordData, currentPassword: e.target.value})}
-                className="w-full p-3 border border-gray-600 rounded-xl bg-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+                onChange={(e) => {
+                  setPasswordData({...passwordData, currentPassword: e.target.value});
+                  if (currentPasswordError) setCurrentPasswordError('');
+                }}
+                className={`w-full p-3 border rounded-xl bg-gray-700 text-white focus:outline-none focus:ring-2 ${
+                  currentPasswordError ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-green-500'
+                }`}
                 required
               />
+              {currentPasswordError && (
+                <p className="mt-1 text-sm text-red-400">{currentPasswordError}</p>
+              )}
             </div>
             
             <div>
@@ -310,6 +333,11 @@ const Profile = () => {
                 className="w-full p-3 border border-gray-600 rounded-xl bg-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-green-500"
                 required
               />
+              {passwordData.newPassword && (
+                <div className="mt-2">
+                  <PasswordChecklist password={passwordData.newPassword} />
+                </div>
+              )}
             </div>
             
             <div>
@@ -368,6 +396,32 @@ const Profile = () => {
             </div>
           </form>
 
+          <TwoFactorSettings />
+
+          <PriceAlertSettings />
+
+          <div className="w-full mt-8 pt-6 border-t border-gray-600">
+            <p className="text-center text-xl font-bold mb-2">Number Format</p>
+            <p className="text-center text-sm text-gray-300 mb-4">
+              Choose how amounts and percentages are written across the app.
+            </p>
+            <select
+              value={numberLocale}
+              onChange={(e) => setNumberLocale(e.target.value)}
+              className="w-full p-3 border border-gray-600 rounded-xl bg-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              {NUMBER_LOCALES.map(({ code, label }) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+            <div className="mt-3 p-3 bg-gray-700 rounded-xl text-sm flex justify-between">
+              <span className="text-gray-400">Preview</span>
+              <span>
+                {formatCurrency(1234567.5)} · <span className="text-green-400">{formatPercent(2.5, { signed: true })}</span>
+              </span>
+            </div>
+          </div>
+
           <div className="text-center mt-20 block lg:hidden">
             <h2 className="text-lg font-semibold text-white mb-4 underline dark:text-gray-200">Useful Links</h2>
             <ul className="space-y-2">
@@ -0,0 +1,332 @@
+// pages/Transactions.tsx
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  apiService,
+  ApiError,
+  ApiErrorHandler,
+  type ActivityQuery,
+  type UserActivity
+} from '../services/api';
+import { isDebitActivity } from '../services/statement';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE = 300;
+
+const TYPE_FILTERS = [
+  { value: 'deposit', label: 'Deposits' },
+  { value: 'withdraw', label: 'Withdrawals' },
+  { value: 'investment', label: 'Investments' },
+  { value: 'bonus', label: 'Bonuses' },
+  { value: 'referral', label: 'Referrals' },
+];
+
+const STATUS_FILTERS = [
+  { value: 'completed', label: 'Completed' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  pending: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  cancelled: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
+};
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const Chip = ({ active, label, onClick }: { active: boolean; label: string; onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1 rounded-full text-sm font-semibold whitespace-nowrap transition duration-200 ${
+      active
+        ? 'bg-emerald-600 text-white'
+        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-emerald-100 dark:hover:bg-gray-700'
+    }`}
+  >
+    {label}
+  </button>
+);
+
+const Transactions = () => {
+  const [types, setTypes] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<UserActivity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<UserActivity | null>(null);
+  const loadMoreController = useRef<AbortController | null>(null);
+
+  const { formatCurrency } = useCurrency();
+  const navigate = useNavigate();
+
+  // Only hit the server once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const buildQuery = (cursor?: string): ActivityQuery => ({
+    type: types.length ? types : undefined,
+    status: statuses.length ? statuses : undefined,
+    // The pickers give calendar days; send the whole of the "to" day
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    q: query || undefined,
+    cursor,
+    limit: PAGE_SIZE,
+  });
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoadingMore(false);
+    setLoading(true);
+    setError('');
+
+    apiService.getMyActivities(buildQuery(), { signal: controller.signal })
+      .then(page => {
+        setItems(page.items);
+        setNextCursor(page.next_cursor);
+        setTotal(page.total);
+      })
+      .catch(err => {
+        if (err instanceof ApiError && err.code === 'ABORTED') return;
+        setError(ApiErrorHandler.handle(err, 'Load transactions'));
+        setItems([]);
+        setNextCursor(null);
+        setTotal(0);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      // A next page still loading belongs to the old filters
+      loadMoreController.current?.abort();
+    };
+  }, [types, statuses, from, to, query]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const controller = new AbortController();
+    loadMoreController.current = controller;
+    setLoadingMore(true);
+    try {
+      const page = await apiService.getMyActivities(buildQuery(nextCursor), { signal: controller.signal });
+      setItems(prev => [...prev, ...page.items]);
+      setNextCursor(page.next_cursor);
+      setTotal(page.total);
+    } catch (err) {
+      if (err instanceof ApiError && err.code === 'ABORTED') return;
+      setError(ApiErrorHandler.handle(err, 'Load more transactions'));
+    } finally {
+      if (!controller.signal.aborted) setLoadingMore(false);
+    }
+  };
+
+  const hasFilters = types.length > 0 || statuses.length > 0 || from || to || search;
+
+  const clearFilters = () => {
+    setTypes([]);
+    setStatuses([]);
+    setFrom('');
+    setTo('');
+    setSearch('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-100 dark:from-gray-900 dark:to-emerald-900 p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          <button
+            onClick={() => navigate('/wallet')}
+            className="p-2 rounded-full bg-white dark:bg-gray-800 shadow-lg mr-3"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="currentColor" viewBox="0 0 16 16">
+              <path fillRule="evenodd" d="M11.354 1.646a.5.5 0 0 1 0 .708L5.707 8l5.647 5.646a.5.5 0 0 1-.708.708l-6-6a.5.5 0 0 1 0-.708l6-6a.5.5 0 0 1 .708 0z"/>
+            </svg>
+          </button>
+          <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Transactions</h1>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white/60 dark:bg-gray-800/60 rounded-2xl shadow-lg p-4 mb-6 space-y-3">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search descriptions"
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+
+          <div className="flex space-x-2 overflow-x-auto pb-1">
+            <Chip active={types.length === 0} label="All" onClick={() => setTypes([])} />
+            {TYPE_FILTERS.map(({ value, label }) => (
+              <Chip
+                key={value}
+                active={types.includes(value)}
+                label={label}
+                onClick={() => setTypes(prev => toggle(prev, value))}
+              />
+            ))}
+          </div>
+
+          <div className="flex space-x-2 overflow-x-auto pb-1">
+            {STATUS_FILTERS.map(({ value, label }) => (
+              <Chip
+                key={value}
+                active={statuses.includes(value)}
+                label={label}
+                onClick={() => setStatuses(prev => toggle(prev, value))}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600 dark:text-gray-300">
+              From
+              <input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-800 dark:text-white"
+              />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-300">
+              To
+              <input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-800 dark:text-white"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-300">
+            <span>{loading ? 'Loading...' : `${total} transaction${total !== 1 ? 's' : ''}`}</span>
+            {hasFilters && (
+              <button onClick={clearFilters} className="font-semibold text-emerald-700 dark:text-emerald-400">
+                Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/40 border border-red-300 dark:border-red-700 rounded-xl text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* List */}
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            {hasFilters ? 'No transactions match these filters' : 'No transactions yet'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {items.map((activity) => (
+              <button
+                key={activity.id}
+                onClick={() => setSelected(activity)}
+                className="w-full text-left bg-white dark:bg-gray-800 rounded-xl shadow p-4 flex justify-between items-center hover:shadow-lg transition duration-200"
+              >
+                <div className="min-w-0 mr-3">
+                  <p className="font-semibold text-gray-800 dark:text-white capitalize">{activity.activity_type}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{activity.description}</p>
+                  <p className="text-xs text-gray-400">{format(new Date(activity.timestamp), 'd MMM yyyy, HH:mm')}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`font-bold ${isDebitActivity(activity) ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(isDebitActivity(activity) ? -activity.amount : activity.amount, { signed: true })}
+                  </p>
+                  <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[activity.status] || STATUS_STYLES.cancelled}`}>
+                    {activity.status}
+                  </span>
+                </div>
+              </button>
+            ))}
+
+            {nextCursor && (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-400 text-white rounded-xl font-semibold transition duration-200 disabled:cursor-not-allowed"
+              >
+                {loadingMore ? 'Loading...' : `Load more (${items.length} of ${total})`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Detail drawer */}
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50" onClick={() => setSelected(null)}>
+          <div
+            className="w-full max-w-md bg-white dark:bg-gray-800 rounded-t-2xl shadow-xl p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="w-12 h-1.5 bg-gray-300 dark:bg-gray-600 rounded-full mx-auto mb-4"></div>
+            <div className="text-center mb-6">
+              <p className="text-sm text-gray-500 dark:text-gray-400 capitalize">{selected.activity_type}</p>
+              <p className={`text-3xl font-bold ${isDebitActivity(selected) ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(isDebitActivity(selected) ? -selected.amount : selected.amount, { signed: true })}
+              </p>
+              <span className={`inline-block mt-2 px-3 py-1 rounded-full text-sm capitalize ${STATUS_STYLES[selected.status] || STATUS_STYLES.cancelled}`}>
+                {selected.status}
+              </span>
+            </div>
+
+            <dl className="space-y-3 text-sm">
+              {[
+                { label: 'Description', value: selected.description },
+                { label: 'Date', value: format(new Date(selected.timestamp), 'EEEE d MMMM yyyy, HH:mm:ss') },
+                { label: 'Transaction ID', value: selected.id, mono: true },
+                { label: 'Reference', value: selected.reference_id, mono: true },
+              ].filter(row => row.value).map(({ label, value, mono }) => (
+                <div key={label} className="flex justify-between gap-4">
+                  <dt className="text-gray-500 dark:text-gray-400 shrink-0">{label}</dt>
+                  <dd className={`text-right text-gray-800 dark:text-white break-all ${mono ? 'font-mono text-xs' : ''}`}>
+                    {value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            <button
+              onClick={() => setSelected(null)}
+              className="w-full mt-6 py-3 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded-xl font-semibold transition duration-200"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Transactions;
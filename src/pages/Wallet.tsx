@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { apiService, type WalletData, type UserActivity, type UserInvestment } from '../services/api';
+import { format } from 'date-fns';
+import { apiService, type WalletData, type UserActivity } from '../services/api';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { useAuth } from '../contexts/AuthContext';
+import StatementExport from '../components/StatementExport';
+import { portfolioTotals } from '../services/portfolio';
 
 const Wallet = () => {
   const [walletData, setWalletData] = useState<WalletData | null>(null);
   const [activities, setActivities] = useState<UserActivity[]>([]);
+  const [recordCounts, setRecordCounts] = useState({ deposit: 0, withdraw: 0 });
   const [loading, setLoading] = useState(true);
   const [investmentStats, setInvestmentStats] = useState({
     totalProfit: 0,
@@ -15,7 +19,7 @@ const Wallet = () => {
     activeInvestments: 0
   });
   
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatPercent } = useCurrency();
   const { user } = useAuth();
 
   useEffect(() => {
@@ -28,18 +32,28 @@ const Wallet = () => {
     if (!user) return;
     
     try {
-      const [wallet, activitiesData, investments] = await Promise.all([
+      const [wallet, activitiesData, investments, deposits, withdrawals] = await Promise.all([
         apiService.getWalletBalance(),
-        apiService.getMyActivities(),
-        apiService.getMyInvestments()
+        apiService.getMyActivities({ type: ['deposit', 'withdraw'], limit: 10 }),
+        apiService.getMyInvestments(),
+        // Only the totals are needed here
+        apiService.getMyActivities({ type: 'deposit', limit: 1 }),
+        apiService.getMyActivities({ type: 'withdraw', limit: 1 })
       ]);
       
       setWalletData(wallet);
-      setActivities(activitiesData);
+      setActivities(activitiesData.items);
+      setRecordCounts({ deposit: deposits.total, withdraw: withdrawals.total });
       
       // Calculate investment statistics from real data
-      const stats = calculateInvestmentStats(investments);
-      setInvestmentStats(stats);
+      const totals = portfolioTotals(investments);
+      setInvestmentStats({
+        totalProfit: totals.gains,
+        totalLoss: totals.losses,
+        netProfitLoss: totals.unrealizedProfitLoss,
+        // Matured positions are still open but no longer active
+        activeInvestments: investments.filter(investment => investment.status === 'active').length
+      });
       
     } catch (error) {
       console.error('Failed to fetch data:', error);
@@ -65,30 +79,6 @@ const Wallet = () => {
     }
   };
 
-  const calculateInvestmentStats = (investments: UserInvestment[]) => {
-    let totalProfit = 0;
-    let totalLoss = 0;
-    let activeInvestments = 0;
-
-    investments.forEach(investment => {
-      if (investment.status === 'active') {
-        activeInvestments++;
-        if (investment.profit_loss > 0) {
-          totalProfit += investment.profit_loss;
-        } else {
-          totalLoss += investment.profit_loss;
-        }
-      }
-    });
-
-    return {
-      totalProfit,
-      totalLoss,
-      netProfitLoss: totalProfit + totalLoss,
-      activeInvestments
-    };
-  };
-
   const getProfitLossPercentage = () => {
     if (!walletData?.balance || walletData.balance === 0) return 0;
     return (investmentStats.netProfitLoss / walletData.balance) * 100;
@@ -102,16 +92,13 @@ const Wallet = () => {
     return Math.max(percentage, -100) * -1;
   };
 
-  // Filter transactions from activities
-  const transactions = activities
-    .filter(activity => activity.activity_type === 'deposit' || activity.activity_type === 'withdraw')
-    .map(activity => ({
-      id: activity.id,
-      type: activity.activity_type,
-      amount: activity.amount,
-      status: activity.status,
-      date: new Date(activity.timestamp).toLocaleDateString()
-    }));
+  const transactions = activities.map(activity => ({
+    id: activity.id,
+    type: activity.activity_type,
+    amount: activity.amount,
+    status: activity.status,
+    date: format(new Date(activity.timestamp), 'd MMM yyyy, HH:mm')
+  }));
 
   if (loading) {
     return (
@@ -146,7 +133,7 @@ const Wallet = () => {
                   <path fillRule="evenodd" d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd"/>
                 </svg>
                 <span className="text-green-300 text-sm font-semibold">
-                  +{formatCurrency(Math.max(0, investmentStats.totalProfit))}
+                  {formatCurrency(Math.max(0, investmentStats.totalProfit), { signed: true, compact: true })}
                 </span>
               </div>
               
@@ -166,7 +153,7 @@ const Wallet = () => {
                   <path fillRule="evenodd" d="M14.707 10.293a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 111.414-1.414L9 12.586V5a1 1 0 012 0v7.586l2.293-2.293a1 1 0 011.414 0z" clipRule="evenodd"/>
                 </svg>
                 <span className="text-red-300 text-sm font-semibold">
-                  {formatCurrency(Math.min(0, investmentStats.totalLoss))}
+                  {formatCurrency(Math.min(0, investmentStats.totalLoss), { signed: true, compact: true })}
                 </span>
               </div>
             </div>
@@ -176,10 +163,10 @@ const Wallet = () => {
               <span className={`text-lg font-bold ${
                 investmentStats.netProfitLoss >= 0 ? 'text-green-300' : 'text-red-300'
               }`}>
-                Net P/L: {investmentStats.netProfitLoss >= 0 ? '+' : ''}{formatCurrency(investmentStats.netProfitLoss)}
+                Net P/L: {formatCurrency(investmentStats.netProfitLoss, { signed: true })}
                 {getProfitLossPercentage() !== 0 && (
                   <span className="text-sm ml-2">
-                    ({getProfitLossPercentage() >= 0 ? '+' : ''}{getProfitLossPercentage().toFixed(1)}%)
+                    ({formatPercent(getProfitLossPercentage(), { signed: true })})
                   </span>
                 )}
               </span>
@@ -204,11 +191,11 @@ const Wallet = () => {
       <div className="flex flex-cols-2 justify-around items-center w-full py-3 border border-indigo-400 rounded-xl"> 
         <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-orange-500 to-amber-900">
           Wallet balance: <br />
-          <span className="text-xl font-bold">{formatCurrency(walletData?.balance || 0)}</span>
+          <span className="text-xl font-bold">{formatCurrency(walletData?.balance || 0, { compact: true })}</span>
         </div>
         <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600">
           Equity:<br />
-          <span className="text-xl font-bold">{formatCurrency(walletData?.equity || 0)}</span>
+          <span className="text-xl font-bold">{formatCurrency(walletData?.equity || 0, { compact: true })}</span>
         </div>
       </div>
 
@@ -253,18 +240,23 @@ const Wallet = () => {
       <div className="flex flex-col justify-around items-center w-full py-3 bg-emerald-700 rounded-xl px-3"> 
         <div className="flex flex-cols-2 justify-around items-center w-full mb-4 bg-teal-700 rounded-xl"> 
           <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-orange-500 to-amber-900">
-            Deposit Records: {transactions.filter(t => t.type === 'deposit').length}
+            Deposit Records: {recordCounts.deposit}
           </div>
           <div className="flex-col text-center p-4 w-2/5 rounded-xl bg-gradient-to-br from-orange-500 to-amber-900">
-            Withdrawal Records: {transactions.filter(t => t.type === 'withdraw').length}
+            Withdrawal Records: {recordCounts.withdraw}
           </div>
         </div>
         
         {/* Transactions List */}
         <div className="w-full bg-white rounded-lg p-4">
-          <h3 className="text-xl font-bold mb-4">Recent Transactions</h3>
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-xl font-bold">Recent Transactions</h3>
+            <Link to="/transactions" className="text-sm font-semibold text-emerald-700 hover:text-emerald-500">
+              View all →
+            </Link>
+          </div>
           <div className="space-y-2">
-            {transactions.slice(0, 10).map((transaction) => (
+            {transactions.map((transaction) => (
               <div key={transaction.id} className="flex justify-between items-center p-3 border-b">
                 <div>
                   <span className={`px-2 py-1 rounded text-xs ${
@@ -276,7 +268,7 @@ const Wallet = () => {
                 </div>
                 <div className="text-right">
                   <span className={transaction.type === 'deposit' ? 'text-green-600' : 'text-red-600'}>
-                    {transaction.type === 'deposit' ? '+' : '-'}{formatCurrency(transaction.amount)}
+                    {formatCurrency(transaction.type === 'deposit' ? transaction.amount : -transaction.amount, { signed: true })}
                   </span>
                   <div className={`text-xs ${
                     transaction.status === 'completed' ? 'text-green-600' : 
@@ -296,6 +288,9 @@ const Wallet = () => {
           </div>
         </div>
       </div>
+
+      {/* Statement Export */}
+      <StatementExport />
     </div>
   );
 };
@@ -1,25 +1,46 @@
 // pages/Withdraw.tsx
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { apiService, type WithdrawRequest, type ApiError } from '../services/api';
+import {
+  apiService,
+  ApiError,
+  ApiErrorHandler,
+  type Withdrawal,
+  type WithdrawalFeeTier,
+  type WithdrawalLimits,
+  type WithdrawalStatus,
+  type WithdrawRequest
+} from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useCurrency } from '../contexts/CurrencyContext';
+import TotpPrompt from '../components/TotpPrompt';
 
-interface Activity {
-  id: string;
-  user_phone: string;
-  activity_type: string;
-  amount: number;
-  description: string;
-  timestamp: string;
-  status: string;
-}
+const STATUS_STYLES: Record<WithdrawalStatus, { label: string; className: string }> = {
+  requested: { label: 'Requested', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' },
+  under_review: { label: 'Under review', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300' },
+  processing: { label: 'Processing', className: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-400' },
+};
+
+// Preview only; the server charges the fee from the same schedule when the request is created
+const feeFor = (amount: number, schedule: WithdrawalFeeTier[]): number => {
+  const tier = schedule.find(t => amount >= t.min_amount && (t.max_amount === null || amount <= t.max_amount));
+  return tier ? tier.fee : 0;
+};
 
 const Withdraw = () => {
   const [amount, setAmount] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [walletBalance, setWalletBalance] = useState<number>(0);
-  const [recentActivities, setRecentActivities] = useState<Activity[]>([]);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [limits, setLimits] = useState<WithdrawalLimits | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [showTotpPrompt, setShowTotpPrompt] = useState(false);
+  const [totpError, setTotpError] = useState('');
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const { user } = useAuth();
   const { formatCurrency, currentCurrency } = useCurrency();
   const navigate = useNavigate();
@@ -29,33 +50,69 @@ const Withdraw = () => {
   }, []);
 
   const fetchWalletData = async () => {
+    if (!user?.phone_number) return;
     try {
-      const wallet = await apiService.getWalletBalance();
+      const [wallet, withdrawalList, withdrawalLimits] = await Promise.all([
+        apiService.getWalletBalance(user.phone_number),
+        apiService.getMyWithdrawals(),
+        apiService.getWithdrawalLimits()
+      ]);
       setWalletBalance(wallet.balance);
-      
-      const activities = await apiService.getMyActivities();
-      const withdrawActivities = activities
-        .filter(activity => activity.activity_type === 'withdraw')
-        .slice(0, 5);
-      setRecentActivities(withdrawActivities);
+      setWithdrawals(withdrawalList.slice(0, 10));
+      setLimits(withdrawalLimits);
     } catch (error) {
       console.error('Failed to fetch wallet data:', error);
       // Set fallback values
       setWalletBalance(0);
-      setRecentActivities([]);
+      setWithdrawals([]);
+    }
+  };
+
+  const withdrawAmount = parseFloat(amount) || 0;
+  const fee = limits ? feeFor(withdrawAmount, limits.fee_schedule) : 0;
+  const netAmount = Math.max(withdrawAmount - fee, 0);
+  const dailyRemaining = limits ? Math.max(limits.daily_limit - limits.daily_used, 0) : Infinity;
+  const monthlyRemaining = limits ? Math.max(limits.monthly_limit - limits.monthly_used, 0) : Infinity;
+  const maxWithdrawal = Math.min(
+    walletBalance,
+    limits?.max_per_transaction ?? Infinity,
+    dailyRemaining,
+    monthlyRemaining
+  );
+
+  const getAmountError = (): string | null => {
+    if (!withdrawAmount) return null;
+    if (limits && withdrawAmount < limits.min_amount) {
+      return `Minimum withdrawal is ${formatCurrency(limits.min_amount)}`;
     }
+    if (withdrawAmount > walletBalance) {
+      return 'Insufficient balance for withdrawal';
+    }
+    if (limits && withdrawAmount > limits.max_per_transaction) {
+      return `Maximum per withdrawal is ${formatCurrency(limits.max_per_transaction)}`;
+    }
+    if (withdrawAmount > dailyRemaining) {
+      return `This exceeds your daily limit. You can withdraw ${formatCurrency(dailyRemaining)} more today.`;
+    }
+    if (withdrawAmount > monthlyRemaining) {
+      return `This exceeds your monthly limit. You can withdraw ${formatCurrency(monthlyRemaining)} more this month.`;
+    }
+    if (fee >= withdrawAmount) {
+      return 'Amount must be more than the withdrawal fee';
+    }
+    return null;
   };
 
+  const amountError = getAmountError();
+
   const handleWithdraw = async () => {
-    if (!amount || parseFloat(amount) <= 0) {
+    if (!withdrawAmount || withdrawAmount <= 0) {
       alert('Please enter a valid amount');
       return;
     }
 
-    const withdrawAmount = parseFloat(amount);
-    
-    if (withdrawAmount > walletBalance) {
-      alert('Insufficient balance for withdrawal');
+    if (amountError) {
+      alert(amountError);
       return;
     }
 
@@ -64,27 +121,75 @@ const Withdraw = () => {
       return;
     }
 
+    setShowConfirm(true);
+  };
+
+  const handleConfirm = async () => {
+    setShowConfirm(false);
+
+    // Accounts with 2FA must confirm every withdrawal with a fresh code
+    if (user?.two_factor_enabled) {
+      setTotpError('');
+      setShowTotpPrompt(true);
+      return;
+    }
+
+    await submitWithdrawal();
+  };
+
+  const submitWithdrawal = async (totpCode?: string) => {
+    if (!user?.phone_number) return;
+
     setLoading(true);
     try {
       const withdrawData: WithdrawRequest = {
         amount: withdrawAmount,
-        phone_number: user.phone_number
+        phone_number: user.phone_number,
+        totp_code: totpCode
       };
 
-      const result = await apiService.withdrawFunds(withdrawData);
+      const withdrawal = await apiService.withdrawFunds(withdrawData);
       
-      alert(`Withdrawal successful! New balance: ${formatCurrency(result.new_balance)}`);
+      setShowTotpPrompt(false);
+      setWithdrawals(prev => [withdrawal, ...prev]);
+      alert(`Withdrawal requested! ${formatCurrency(withdrawal.net_amount)} will be sent to ${withdrawal.phone_number} once it has been reviewed.`);
       setAmount('');
       await fetchWalletData(); // Refresh data
       
     } catch (error: unknown) {
-      const apiError = error as ApiError;
-      alert(`Withdrawal failed: ${apiError.message || 'Unknown error'}`);
+      if (error instanceof ApiError && error.code === 'TWO_FACTOR_REQUIRED') {
+        setTotpError('');
+        setShowTotpPrompt(true);
+      } else if (error instanceof ApiError && error.code === 'INVALID_TOTP') {
+        setTotpError('That code is incorrect or has expired. Try the next one.');
+      } else {
+        setShowTotpPrompt(false);
+        alert(`Withdrawal failed: ${ApiErrorHandler.handle(error, 'Withdraw funds')}`);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const handleCancel = async (withdrawal: Withdrawal) => {
+    if (!window.confirm(`Cancel your ${formatCurrency(withdrawal.amount)} withdrawal? The funds will go back to your balance.`)) {
+      return;
+    }
+
+    setCancellingId(withdrawal.id);
+    try {
+      const updated = await apiService.cancelWithdrawal(withdrawal.id);
+      setWithdrawals(prev => prev.map(w => (w.id === updated.id ? updated : w)));
+      await fetchWalletData();
+    } catch (error: unknown) {
+      alert(`Could not cancel withdrawal: ${ApiErrorHandler.handle(error, 'Cancel withdrawal')}`);
+      // It may have moved on to processing in the meantime
+      await fetchWalletData();
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const quickAmounts = [100, 500, 1000, 2000, 5000];
 
   return (
@@ -111,11 +216,55 @@ const Withdraw = () => {
               {formatCurrency(walletBalance)}
             </p>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-              Maximum withdrawal: {formatCurrency(walletBalance)}
+              Maximum withdrawal: {formatCurrency(Math.max(maxWithdrawal, 0))}
             </p>
           </div>
         </div>
 
+        {/* Limits */}
+        {limits && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
+              Withdrawal Limits
+            </h3>
+            {[
+              { label: 'Today', used: limits.daily_used, limit: limits.daily_limit },
+              { label: 'This month', used: limits.monthly_used, limit: limits.monthly_limit },
+            ].map(({ label, used, limit }) => (
+              <div key={label} className="mb-3">
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-600 dark:text-gray-300">{label}</span>
+                  <span className="text-gray-800 dark:text-white">
+                    {formatCurrency(used)} / {formatCurrency(limit)}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-red-500 to-orange-500"
+                    style={{ width: `${limit > 0 ? Math.min((used / limit) * 100, 100) : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="mt-4">
+              <p className="text-sm font-semibold text-gray-800 dark:text-white mb-2">Fees</p>
+              <div className="space-y-1 text-sm">
+                {limits.fee_schedule.map((tier) => (
+                  <div key={tier.min_amount} className="flex justify-between text-gray-600 dark:text-gray-300">
+                    <span>
+                      {formatCurrency(tier.min_amount)}
+                      {tier.max_amount === null ? ' and above' : ` – ${formatCurrency(tier.max_amount)}`}
+                    </span>
+                    <span className={tier.fee === 0 ? 'text-green-600' : ''}>
+                      {tier.fee === 0 ? 'Free' : formatCurrency(tier.fee)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Withdrawal Card */}
         <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
@@ -124,24 +273,33 @@ const Withdraw = () => {
 
           {/* Amount Input */}
           <div className="mb-6">
+            {/* M-Pesa only moves KES, so the amount is always entered in shillings */}
             <label className="block text-gray-700 dark:text-gray-300 mb-2">
-              Enter Amount ({currentCurrency.code})
+              Enter Amount (KES)
             </label>
             <div className="relative">
-              <span className="absolute left-3 top-3 text-gray-500">{currentCurrency.symbol}</span>
+              <span className="absolute left-3 top-3 text-gray-500">KSh</span>
               <input
                 type="number"
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 placeholder="0.00"
-                max={walletBalance}
+                max={maxWithdrawal}
                 className="w-full pl-12 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-red-500"
               />
             </div>
+            {currentCurrency.code !== 'KES' && Number(amount) > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                ≈ {formatCurrency(Number(amount))}
+              </p>
+            )}
             <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400 mt-2">
-              <span>Min: {formatCurrency(100)}</span>
-              <span>Max: {formatCurrency(walletBalance)}</span>
+              <span>Min: {formatCurrency(limits?.min_amount ?? 100)}</span>
+              <span>Max: {formatCurrency(Math.max(maxWithdrawal, 0))}</span>
             </div>
+            {amountError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mt-2">{amountError}</p>
+            )}
           </div>
 
           {/* Quick Amounts */}
@@ -149,14 +307,14 @@ const Withdraw = () => {
             <p className="text-gray-700 dark:text-gray-300 mb-3">Quick Select</p>
             <div className="grid grid-cols-3 gap-2">
               {quickAmounts
-                .filter(quickAmount => quickAmount <= walletBalance)
+                .filter(quickAmount => quickAmount <= maxWithdrawal)
                 .map((quickAmount) => (
                   <button
                     key={quickAmount}
                     onClick={() => setAmount(quickAmount.toString())}
                     className="py-2 px-3 bg-gray-100 dark:bg-gray-600 hover:bg-red-500 hover:text-white rounded-lg transition duration-200 text-gray-700 dark:text-gray-300"
                   >
-                    {currentCurrency.symbol} {quickAmount.toLocaleString()}
+                    KSh {quickAmount.toLocaleString()}
                   </button>
                 ))}
             </div>
@@ -170,15 +328,19 @@ const Withdraw = () => {
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span className="text-gray-600 dark:text-gray-300">Amount:</span>
-                <span className="font-semibold">{amount ? `${currentCurrency.symbol} ${amount}` : `${currentCurrency.symbol} 0`}</span>
+                <span className="font-semibold">{formatCurrency(withdrawAmount)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600 dark:text-gray-300">Fee:</span>
-                <span className="text-green-600">Free</span>
+                {fee === 0 ? (
+                  <span className="text-green-600">Free</span>
+                ) : (
+                  <span className="text-red-600">-{formatCurrency(fee)}</span>
+                )}
               </div>
               <div className="flex justify-between border-t border-gray-200 dark:border-gray-600 pt-2">
                 <span className="text-gray-800 dark:text-white font-semibold">Total to receive:</span>
-                <span className="font-semibold">{amount ? `${currentCurrency.symbol} ${amount}` : `${currentCurrency.symbol} 0`}</span>
+                <span className="font-semibold">{formatCurrency(netAmount)}</span>
               </div>
             </div>
           </div>
@@ -186,7 +348,7 @@ const Withdraw = () => {
           {/* Withdraw Button */}
           <button
             onClick={handleWithdraw}
-            disabled={loading || !amount || parseFloat(amount) <= 0 || parseFloat(amount) > walletBalance}
+            disabled={loading || !withdrawAmount || withdrawAmount <= 0 || !!amountError}
             className="w-full py-4 bg-gradient-to-r from-red-500 to-orange-600 hover:from-red-600 hover:to-orange-700 disabled:from-gray-400 disabled:to-gray-500 text-white rounded-xl font-semibold text-lg transition duration-200 disabled:cursor-not-allowed"
           >
             {loading ? (
@@ -195,7 +357,7 @@ const Withdraw = () => {
                 Processing...
               </div>
             ) : (
-              'Withdraw Now'
+              'Request Withdrawal'
             )}
           </button>
 
@@ -205,33 +367,80 @@ const Withdraw = () => {
           </div>
         </div>
 
-        {/* Recent Withdrawals */}
+        {/* Withdrawal Requests */}
         <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6">
           <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
-            Recent Withdrawals
+            Withdrawal Requests
           </h3>
           <div className="space-y-3">
-            {recentActivities.map((activity) => (
-              <div key={activity.id} className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                <div>
-                  <p className="font-medium text-gray-800 dark:text-white">
-                    Withdrawal
-                  </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {new Date(activity.timestamp).toLocaleDateString()}
-                  </p>
-                </div>
-                <div className="text-right">
-                  <p className="text-red-600 font-semibold">
-                    -{formatCurrency(activity.amount)}
-                  </p>
-                  <p className="text-xs text-gray-500 capitalize">
-                    {activity.status}
-                  </p>
+            {withdrawals.map((withdrawal) => {
+              const status = STATUS_STYLES[withdrawal.status];
+              const expanded = expandedId === withdrawal.id;
+              return (
+                <div key={withdrawal.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : withdrawal.id)}
+                    className="w-full flex justify-between items-center text-left"
+                  >
+                    <div>
+                      <p className="font-medium text-gray-800 dark:text-white">
+                        Withdrawal
+                      </p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {new Date(withdrawal.requested_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-red-600 font-semibold">
+                        -{formatCurrency(withdrawal.amount)}
+                      </p>
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                  </button>
+
+                  {expanded && (
+                    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600 text-sm">
+                      <div className="flex justify-between text-gray-600 dark:text-gray-300">
+                        <span>Fee</span>
+                        <span>{withdrawal.fee === 0 ? 'Free' : formatCurrency(withdrawal.fee)}</span>
+                      </div>
+                      <div className="flex justify-between text-gray-600 dark:text-gray-300 mb-2">
+                        <span>To receive</span>
+                        <span>{formatCurrency(withdrawal.net_amount)}</span>
+                      </div>
+                      {withdrawal.rejection_reason && (
+                        <p className="text-red-600 dark:text-red-400 mb-2">{withdrawal.rejection_reason}</p>
+                      )}
+                      {withdrawal.mpesa_receipt && (
+                        <p className="text-gray-500 dark:text-gray-400 mb-2">M-Pesa receipt: {withdrawal.mpesa_receipt}</p>
+                      )}
+                      <ol className="space-y-1 border-l-2 border-gray-300 dark:border-gray-600 pl-3">
+                        {withdrawal.history.map((change) => (
+                          <li key={`${change.status}-${change.at}`} className="text-xs text-gray-600 dark:text-gray-400">
+                            <span className="font-semibold text-gray-800 dark:text-white">{STATUS_STYLES[change.status].label}</span>
+                            {' · '}{new Date(change.at).toLocaleString()}
+                            {change.note && <span className="block">{change.note}</span>}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+
+                  {withdrawal.cancellable && (
+                    <button
+                      onClick={() => handleCancel(withdrawal)}
+                      disabled={cancellingId === withdrawal.id}
+                      className="mt-3 w-full py-2 text-sm font-semibold text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-60 disabled:cursor-not-allowed transition duration-200"
+                    >
+                      {cancellingId === withdrawal.id ? 'Cancelling...' : 'Cancel Withdrawal'}
+                    </button>
+                  )}
                 </div>
-              </div>
-            ))}
-            {recentActivities.length === 0 && (
+              );
+            })}
+            {withdrawals.length === 0 && (
               <div className="text-center py-4 text-gray-500 dark:text-gray-400">
                 <p>No recent withdrawals</p>
                 <p className="text-sm">Your withdrawal history will appear here</p>
@@ -251,12 +460,72 @@ const Withdraw = () => {
                 Processing Time
               </p>
               <p className="text-xs text-blue-700 dark:text-blue-300">
-                Withdrawals are processed within 2-4 hours during business days. Weekend withdrawals may take longer.
+                Withdrawals are reviewed and then paid to your M-Pesa within 2-4 hours during business days. Weekend withdrawals may take longer. You can cancel a request until it starts processing.
               </p>
             </div>
           </div>
         </div>
       </div>
+
+      {showConfirm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6">
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white text-center mb-4">
+              Confirm Withdrawal
+            </h3>
+            <div className="space-y-2 text-sm mb-4">
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-300">Amount</span>
+                <span className="font-semibold text-gray-800 dark:text-white">{formatCurrency(withdrawAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-300">Fee</span>
+                <span className="text-gray-800 dark:text-white">{fee === 0 ? 'Free' : formatCurrency(fee)}</span>
+              </div>
+              <div className="flex justify-between border-t border-gray-200 dark:border-gray-600 pt-2">
+                <span className="font-semibold text-gray-800 dark:text-white">You receive</span>
+                <span className="font-semibold text-gray-800 dark:text-white">{formatCurrency(netAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-300">To</span>
+                <span className="text-gray-800 dark:text-white">{user?.phone_number}</span>
+              </div>
+              {limits && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 pt-2">
+                  Left after this: {formatCurrency(Math.max(dailyRemaining - withdrawAmount, 0))} today,{' '}
+                  {formatCurrency(Math.max(monthlyRemaining - withdrawAmount, 0))} this month.
+                </p>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setShowConfirm(false)}
+                className="flex-1 py-3 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-xl font-semibold transition duration-200"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                className="flex-1 py-3 bg-gradient-to-r from-red-500 to-orange-600 hover:from-red-600 hover:to-orange-700 text-white rounded-xl font-semibold transition duration-200"
+              >
+                Confirm
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showTotpPrompt && (
+        <TotpPrompt
+          title="Confirm Withdrawal"
+          description={`Enter the code from your authenticator app to withdraw ${formatCurrency(parseFloat(amount) || 0)} to ${user?.phone_number}.`}
+          confirmLabel="Withdraw"
+          error={totpError}
+          loading={loading}
+          onConfirm={(code) => submitWithdrawal(code)}
+          onCancel={() => setShowTotpPrompt(false)}
+        />
+      )}
     </div>
   );
 };
@@ -23,6 +23,62 @@ export interface UserCreate {
   email: string;
   phone_number: string;
   password: string;
+  verification_token: string; // from verifyOtp, proves ownership of phone_number
+  terms_accepted: boolean;
+  referral_code?: string; // invite code captured from a ?ref= link
+}
+
+export type OtpPurpose = 'registration';
+
+export interface OtpRequest {
+  phone_number: string;
+  purpose: OtpPurpose;
+}
+
+export interface OtpResponse {
+  success: boolean;
+  message: string;
+  expires_in: number; // seconds until the code stops working
+  resend_after: number; // seconds before another code can be requested
+}
+
+export interface OtpVerifyRequest {
+  phone_number: string;
+  code: string;
+  purpose: OtpPurpose;
+}
+
+export interface OtpVerifyResponse {
+  success: boolean;
+  message: string;
+  verification_token: string;
+}
+
+export type PasswordResetChannel = 'email' | 'sms';
+
+export interface PasswordResetRequest {
+  identifier: string; // email address or phone number
+  channel: PasswordResetChannel;
+}
+
+export interface PasswordResetConfirm {
+  identifier: string;
+  code: string;
+  new_password: string;
+}
+
+export interface MessageResponse {
+  success: boolean;
+  message: string;
+}
+
+export interface PasswordChangeResponse {
+  success: boolean;
+  message: string;
+  access_token?: string; // the current session is re-issued; every other session is revoked
+  refresh_token?: string;
+  revoked_sessions: number;
+  activity?: UserActivity;
 }
 
 export interface UserResponse {
@@ -31,14 +87,57 @@ export interface UserResponse {
   email: string;
   phone_number: string;
   created_at: string;
+  two_factor_enabled?: boolean;
 }
 
 export interface AuthResponse {
   success: boolean;
   message: string;
   access_token: string;
+  refresh_token?: string;
   token_type: string;
   user: UserResponse;
+  two_factor_required?: false;
+}
+
+// Returned by login instead of tokens when the account has TOTP enabled
+export interface TwoFactorChallengeResponse {
+  success: boolean;
+  message: string;
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number; // seconds the challenge stays valid
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorVerifyRequest {
+  challenge_token: string;
+  code: string; // 6-digit TOTP or a backup code
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at?: string;
+  backup_codes_remaining: number;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string; // PNG data URI of otpauth_url
+}
+
+export interface TwoFactorBackupCodesResponse {
+  success: boolean;
+  message: string;
+  backup_codes: string[];
+}
+
+export interface RefreshResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
 }
 
 export interface WalletData {
@@ -52,9 +151,73 @@ export interface DepositRequest {
   phone_number: string;
 }
 
+// Lifecycle of an M-Pesa STK push; everything but 'pending' is final
+export type DepositStatus = 'pending' | 'completed' | 'failed' | 'cancelled' | 'timeout';
+
+export interface StkPushResponse {
+  success: boolean;
+  message: string;
+  checkout_request_id: string;
+  status: DepositStatus;
+  expires_in: number; // seconds the customer has to approve the prompt
+}
+
+export interface DepositStatusResponse {
+  checkout_request_id: string;
+  status: DepositStatus;
+  amount: number;
+  phone_number: string;
+  result_code?: number; // M-Pesa ResultCode from the callback
+  result_description?: string;
+  mpesa_receipt?: string;
+  new_balance?: number; // only set once the deposit is completed
+  updated_at: string;
+}
+
 export interface WithdrawRequest {
   amount: number;
   phone_number: string;
+  totp_code?: string; // required when the account has 2FA enabled
+}
+
+// requested → under_review → processing → paid, or rejected / cancelled along the way
+export type WithdrawalStatus = 'requested' | 'under_review' | 'processing' | 'paid' | 'rejected' | 'cancelled';
+
+export interface WithdrawalStatusChange {
+  status: WithdrawalStatus;
+  at: string;
+  note?: string;
+}
+
+export interface Withdrawal {
+  id: string;
+  amount: number;
+  fee: number;
+  net_amount: number; // amount minus fee, what reaches the phone
+  phone_number: string;
+  status: WithdrawalStatus;
+  cancellable: boolean;
+  rejection_reason?: string;
+  mpesa_receipt?: string;
+  requested_at: string;
+  updated_at: string;
+  history: WithdrawalStatusChange[];
+}
+
+export interface WithdrawalFeeTier {
+  min_amount: number;
+  max_amount: number | null; // null for the open-ended top tier
+  fee: number;
+}
+
+export interface WithdrawalLimits {
+  min_amount: number;
+  max_per_transaction: number;
+  daily_limit: number;
+  daily_used: number;
+  monthly_limit: number;
+  monthly_used: number;
+  fee_schedule: WithdrawalFeeTier[];
 }
 
 export interface TransactionResponse {
@@ -96,6 +259,7 @@ export interface UserInvestment {
   profit_loss_percentage: number;
   status: string;
   created_at: string;
+  auto_roll?: boolean; // reinvest principal into the same asset when it matures
 }
 
 export interface UserActivity {
@@ -106,6 +270,97 @@ export interface UserActivity {
   description: string;
   timestamp: string;
   status: string;
+  reference_id?: string; // the deposit, withdrawal or investment this entry belongs to
+}
+
+// Filters for the activity feed; array values match any of the given types/statuses
+export interface ActivityQuery {
+  type?: string | string[];
+  status?: string | string[];
+  from?: string; // ISO 8601 timestamp, inclusive
+  to?: string; // ISO 8601 timestamp, inclusive
+  q?: string; // free-text search over description
+  cursor?: string; // next_cursor from the previous page
+  limit?: number;
+}
+
+export interface ActivityPage {
+  items: UserActivity[];
+  next_cursor: string | null; // null on the last page
+  total: number; // activities matching the filters, across all pages
+}
+
+export type InvestmentStatus = 'active' | 'matured' | 'closed';
+
+// One position with what's needed to show its lifecycle
+export interface InvestmentPosition extends UserInvestment {
+  symbol: string;
+  asset_type: string;
+  hourly_income: number; // KES per hour for this position's size
+  duration: number; // hours from created_at to maturity
+  accrued_income: number; // KES credited so far
+  matures_at: string;
+  closed_at: string | null;
+}
+
+// Valid until expires_at; closing with an expired quote_id is refused so the user re-confirms
+export interface CloseInvestmentPreview {
+  quote_id: string;
+  expires_at: string;
+  early: boolean; // false once matured, when nothing is withheld
+  market_value: number; // units at the current price, KES
+  accrued_income: number;
+  forfeited_income: number; // income accrued but not paid out on an early exit
+  penalty_rate: number; // percent of market_value
+  penalty: number;
+  net_proceeds: number; // what reaches the wallet
+}
+
+export interface CloseInvestmentResponse {
+  investment: InvestmentPosition;
+  proceeds: number;
+  wallet_balance: number;
+}
+
+export type PlanFrequency = 'daily' | 'weekly' | 'monthly';
+
+// 'insufficient_balance': the server paused the plan because a run found the wallet too low
+export type PlanPauseReason = 'user' | 'insufficient_balance';
+
+// A fixed amount bought into one asset on a schedule; the server runs it
+export interface InvestmentPlan {
+  id: string;
+  asset_id: string;
+  asset_name: string;
+  amount: number; // KES per run
+  frequency: PlanFrequency;
+  status: 'active' | 'paused';
+  paused_reason: PlanPauseReason | null;
+  next_run_at: string | null; // null while paused
+  last_run_at: string | null;
+  created_at: string;
+}
+
+export interface InvestmentPlanRequest {
+  asset_id: string;
+  amount: number;
+  frequency: PlanFrequency;
+}
+
+export interface InvestmentPlanUpdate {
+  amount?: number;
+  frequency?: PlanFrequency;
+  status?: 'active' | 'paused';
+}
+
+export interface PlanExecution {
+  id: string;
+  plan_id: string;
+  executed_at: string;
+  amount: number;
+  status: 'success' | 'skipped' | 'failed';
+  investment_id: string | null; // the position it opened, on success
+  reason: string | null; // why it was skipped or failed
 }
 
 export interface InvestmentRequest {
@@ -114,12 +369,241 @@ export interface InvestmentRequest {
   phone_number: string;
 }
 
+export type BonusType = 'percentage' | 'fixed';
+
+export type BonusIneligibleReason =
+  | 'min_deposit'
+  | 'first_deposit_only'
+  | 'cooldown'
+  | 'already_claimed'
+  | 'no_qualifying_deposit';
+
+// Eligibility and payouts are decided by the server; the client only displays them
+export interface AvailableBonus {
+  id: string;
+  title: string;
+  description: string;
+  type: BonusType;
+  value: number; // percent for percentage bonuses, amount for fixed ones
+  min_deposit: number;
+  max_amount?: number; // cap on percentage bonuses
+  eligible: boolean;
+  claimed: boolean;
+  ineligible_reason?: BonusIneligibleReason;
+  ineligible_message?: string;
+  qualifying_deposit?: number; // deposit a percentage bonus would be computed from
+  estimated_amount?: number; // what claiming now would credit
+  next_available_at?: string; // when a cooldown ends
+}
+
+export type ReferralStatus = 'signed_up' | 'deposited' | 'rewarded' | 'expired';
+
+export interface Referral {
+  id: string;
+  display_name: string; // masked by the server, e.g. "Jane W."
+  joined_at: string;
+  status: ReferralStatus;
+  bonus_amount: number;
+  bonus_status: 'pending' | 'paid' | 'none';
+}
+
+export interface ReferralSummary {
+  code: string;
+  reward_amount: number; // paid per referral once the invitee makes a qualifying deposit
+  invited_count: number;
+  qualified_count: number;
+  earned_total: number;
+  pending_total: number;
+  referrals: Referral[];
+}
+
+export interface BonusClaimResponse {
+  success: boolean;
+  message: string;
+  new_balance: number;
+  activity: UserActivity;
+}
+
+export interface ExchangeRatesResponse {
+  base: string;
+  rates: Record<string, number>; // units of each currency per 1 base
+  as_of: string; // when the upstream rates were published
+}
+
+// 'change_percent': fires when the price moves `target` percent either way from reference_price
+export type PriceAlertCondition = 'above' | 'below' | 'change_percent';
+export type PriceAlertStatus = 'active' | 'paused' | 'triggered';
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  asset_name: string;
+  condition: PriceAlertCondition;
+  target: number; // a price for above/below, a percentage for change_percent
+  reference_price: number; // the price when the alert was set
+  status: PriceAlertStatus;
+  created_at: string;
+  triggered_at: string | null;
+  triggered_price: number | null;
+}
+
+export interface PriceAlertRequest {
+  symbol: string;
+  asset_name: string;
+  condition: PriceAlertCondition;
+  target: number;
+  reference_price: number;
+}
+
+export interface PushConfig {
+  vapid_public_key: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[]; // in the order the user arranged them
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatchlistUpdate {
+  name?: string;
+  symbols?: string[]; // replaces the whole list, so reordering is a single update
+}
+
+// End-of-day value of the open portfolio
+export interface PortfolioSnapshot {
+  date: string; // YYYY-MM-DD
+  value: number; // KES
+  // Money moved into positions (opened, including plan runs and auto-rolls) minus money moved
+  // out (closing proceeds) that day, KES. Deposits and withdrawals only touch the wallet.
+  net_flow: number;
+}
+
+export interface PnLData {
+  profit_loss: number;
+  percentage: number;
+  trend: 'up' | 'down';
+}
+
+// Messages on the price stream, the same over WebSocket, SSE and long polling
+export type PriceStreamMessage =
+  | { type: 'tick'; symbol: string; price: number; change_percent: number; timestamp: string; source: string }
+  | ({ type: 'pnl' } & PnLData);
+
+export interface PriceStreamPollResponse {
+  messages: PriceStreamMessage[];
+  cursor: string; // pass back to get only what came after
+}
+
+// Single-use credential for opening a WebSocket or EventSource, which can't send headers
+export interface StreamTicket {
+  ticket: string;
+  expires_at: string;
+}
+
+export interface RequestOptions extends Omit<RequestInit, 'signal'> {
+  timeout?: number; // ms before the request is aborted
+  retries?: number; // GET only; defaults to DEFAULT_RETRIES
+  signal?: AbortSignal;
+}
+
+// ===============================
+// ERRORS
+// ===============================
+
+const STATUS_CODES: { [status: number]: string } = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'VALIDATION_ERROR',
+  429: 'RATE_LIMITED',
+  500: 'SERVER_ERROR',
+  502: 'BAD_GATEWAY',
+  503: 'SERVICE_UNAVAILABLE',
+  504: 'GATEWAY_TIMEOUT',
+};
+
+export class ApiError extends Error {
+  status: number; // 0 when the request never got a response
+  code: string;
+  detail: unknown;
+  endpoint: string;
+
+  constructor(message: string, status: number, code: string, detail: unknown, endpoint: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.detail = detail;
+    this.endpoint = endpoint;
+  }
+
+  static async fromResponse(response: Response, endpoint: string): Promise<ApiError> {
+    const errorText = await response.text().catch(() => '');
+    let detail: unknown = errorText || null;
+    let message = errorText;
+    let code = STATUS_CODES[response.status] || `HTTP_${response.status}`;
+
+    try {
+      const errorData = JSON.parse(errorText);
+      detail = errorData.detail ?? errorData;
+      code = errorData.code || errorData.error_code || code;
+      if (typeof errorData.detail === 'string') {
+        message = errorData.detail;
+      } else if (Array.isArray(errorData.detail)) {
+        // FastAPI validation errors: [{ loc, msg, type }]
+        message = errorData.detail.map((item: { msg?: string }) => item.msg).filter(Boolean).join(', ');
+      } else if (errorData.message) {
+        message = errorData.message;
+      }
+    } catch {
+      // If not JSON, use the text as is
+    }
+
+    return new ApiError(
+      message || `HTTP error! status: ${response.status}`,
+      response.status,
+      code,
+      detail,
+      endpoint
+    );
+  }
+
+  get isNetworkError(): boolean {
+    return this.code === 'NETWORK_ERROR' || this.code === 'TIMEOUT';
+  }
+
+  get isRetryable(): boolean {
+    return this.isNetworkError || this.status === 429 || this.status >= 500;
+  }
+}
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
 // ===============================
 // API SERVICE
 // ===============================
 
 class ApiService {
   private baseURL: string;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredHandler: (() => void) | null = null;
+  private sessionListeners = new Set<() => void>();
   
   constructor() {
     this.baseURL = import.meta.env.VITE_API_BASE_URL || 'https://pesaprime-end-w4mx.onrender.com';
@@ -141,116 +625,410 @@ class ApiService {
     } catch (error) {
       console.error('Error setting token:', error);
     }
+    this.sessionListeners.forEach(listener => listener());
   }
 
   private removeToken(): void {
     try {
       localStorage.removeItem('authToken');
+      localStorage.removeItem('refreshToken');
     } catch (error) {
       console.error('Error removing token:', error);
     }
+    this.sessionListeners.forEach(listener => listener());
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  private getRefreshToken(): string | null {
+    try {
+      return localStorage.getItem('refreshToken');
+    } catch (error) {
+      console.error('Error getting refresh token:', error);
+      return null;
+    }
+  }
+
+  private storeTokens(response: { access_token?: string; refresh_token?: string }): void {
+    if (response.access_token) {
+      this.setToken(response.access_token);
+    }
+    if (response.refresh_token) {
+      try {
+        localStorage.setItem('refreshToken', response.refresh_token);
+      } catch (error) {
+        console.error('Error setting refresh token:', error);
+      }
+    }
+  }
+
+  // Auth endpoints answer 401 for bad credentials, which must not trigger a refresh.
+  // /api/auth/me and its sub-resources are ordinary authenticated calls, and so is
+  // password change, which reports a wrong current password as a 400 instead.
+  private isAuthEndpoint(endpoint: string): boolean {
+    if (endpoint === '/api/auth/me' || endpoint.startsWith('/api/auth/me/') || endpoint === '/api/auth/password/change') {
+      return false;
+    }
+    return endpoint.startsWith('/api/auth/');
+  }
+
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const { timeout = DEFAULT_TIMEOUT, retries, signal, headers: extraHeaders, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    // Only idempotent reads are safe to replay automatically
+    const maxRetries = method === 'GET' ? retries ?? DEFAULT_RETRIES : 0;
+
+    let attempt = 0;
+    let sessionRefreshed = false;
+    while (true) {
+      // send() attaches whatever token is stored now; without one there's no session to refresh or expire
+      const authenticated = this.isAuthenticated();
+      try {
+        return await this.send<T>(endpoint, method, init, extraHeaders, timeout, signal);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401 && authenticated && !this.isAuthEndpoint(endpoint)) {
+          // A 401 means the server rejected the request before acting on it, so a single replay is safe
+          if (!sessionRefreshed && await this.refreshSession()) {
+            sessionRefreshed = true;
+            continue;
+          }
+          this.expireSession();
+          throw error;
+        }
+
+        const retryable = error instanceof ApiError && error.isRetryable;
+        if (attempt >= maxRetries || !retryable || signal?.aborted) {
+          console.error(`API request failed for ${this.baseURL}${endpoint}:`, error);
+          throw error;
+        }
+        const delay = RETRY_BASE_DELAY * 2 ** attempt + Math.random() * RETRY_BASE_DELAY;
+        attempt++;
+        console.warn(`Retrying ${endpoint} (attempt ${attempt}/${maxRetries}) in ${Math.round(delay)}ms`);
+        await wait(delay, signal);
+      }
+    }
+  }
+
+  private async send<T>(
+    endpoint: string,
+    method: string,
+    init: RequestInit,
+    extraHeaders: HeadersInit | undefined,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
     const token = this.getToken();
-    
+
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
       ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...(extraHeaders as Record<string, string> | undefined),
     };
 
+    // Merge the caller's signal with our own timeout so either can cancel the request
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    if (signal) {
+      if (signal.aborted) controller.abort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let response: Response;
     try {
-      const response = await fetch(url, {
+      response = await fetch(url, {
+        ...init,
+        method,
         headers,
-        ...options,
+        signal: controller.signal,
       });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorMessage = errorText;
-        try {
-          const errorData = JSON.parse(errorText);
-          errorMessage = errorData.detail || errorData.message || errorText;
-        } catch {
-          // If not JSON, use the text as is
-        }
-        throw new Error(errorMessage || `HTTP error! status: ${response.status}`);
+    } catch (error) {
+      if (timedOut) {
+        throw new ApiError(`Request timed out after ${timeout}ms`, 0, 'TIMEOUT', null, endpoint);
       }
-
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return {} as T;
+      if (controller.signal.aborted) {
+        throw new ApiError('Request was cancelled', 0, 'ABORTED', null, endpoint);
       }
+      const message = error instanceof Error ? error.message : 'Network request failed';
+      throw new ApiError(message, 0, 'NETWORK_ERROR', null, endpoint);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
 
-      return await response.json();
-    } catch (error) {
-      console.error(`API request failed for ${url}:`, error);
-      throw error;
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response, endpoint);
     }
+
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return {} as T;
+    }
+
+    return await response.json();
   }
 
   // ===============================
   // AUTH METHODS
   // ===============================
   async register(userData: UserCreate): Promise<AuthResponse> {
-    return this.request<AuthResponse>('/api/auth/register', {
+    const response = await this.request<AuthResponse>('/api/auth/register', {
       method: 'POST',
       body: JSON.stringify(userData),
     });
+
+    this.storeTokens(response);
+
+    return response;
+  }
+
+  async requestOtp(data: OtpRequest): Promise<OtpResponse> {
+    return this.request<OtpResponse>('/api/auth/otp/request', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async verifyOtp(data: OtpVerifyRequest): Promise<OtpVerifyResponse> {
+    return this.request<OtpVerifyResponse>('/api/auth/otp/verify', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async requestPasswordReset(data: PasswordResetRequest): Promise<MessageResponse> {
+    return this.request<MessageResponse>('/api/auth/password/forgot', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
   }
 
-  async login(loginData: UserLogin): Promise<AuthResponse> {
-    const response = await this.request<AuthResponse>('/api/auth/login', {
+  async confirmPasswordReset(data: PasswordResetConfirm): Promise<MessageResponse> {
+    return this.request<MessageResponse>('/api/auth/password/reset', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Wrong current password comes back as 400 INVALID_CURRENT_PASSWORD
+  async changePassword(currentPassword: string, newPassword: string): Promise<PasswordChangeResponse> {
+    const response = await this.request<PasswordChangeResponse>('/api/auth/password/change', {
+      method: 'POST',
+      body: JSON.stringify({
+        current_password: currentPassword,
+        new_password: newPassword,
+        revoke_other_sessions: true,
+      }),
+    });
+
+    this.storeTokens(response);
+
+    return response;
+  }
+
+  async login(loginData: UserLogin): Promise<LoginResponse> {
+    const response = await this.request<LoginResponse>('/api/auth/login', {
       method: 'POST',
       body: JSON.stringify(loginData),
     });
     
-    if (response.access_token) {
-      this.setToken(response.access_token);
+    if (!response.two_factor_required) {
+      this.storeTokens(response);
     }
     
     return response;
   }
 
+  async verifyTwoFactorLogin(data: TwoFactorVerifyRequest): Promise<AuthResponse> {
+    const response = await this.request<AuthResponse>('/api/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    this.storeTokens(response);
+
+    return response;
+  }
+
   logout(): void {
     this.removeToken();
   }
 
-  async getCurrentUser(): Promise<UserResponse> {
-    return this.request<UserResponse>('/api/auth/me');
+  // Concurrent 401s share one refresh call instead of each rotating the token
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await this.send<RefreshResponse>(
+        '/api/auth/refresh',
+        'POST',
+        { body: JSON.stringify({ refresh_token: refreshToken }) },
+        undefined,
+        DEFAULT_TIMEOUT
+      );
+      if (!response.access_token) {
+        return false;
+      }
+      this.storeTokens(response);
+      return true;
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+      return false;
+    }
+  }
+
+  setSessionExpiredHandler(handler: (() => void) | null): void {
+    this.sessionExpiredHandler = handler;
+  }
+
+  // Called whenever the access token is replaced or removed: sign-in, refresh, logout
+  onSessionChange(listener: () => void): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  private expireSession(): void {
+    this.removeToken();
+    try {
+      localStorage.removeItem('userData');
+    } catch (error) {
+      console.error('Error clearing user data:', error);
+    }
+    this.sessionExpiredHandler?.();
+  }
+
+  async getCurrentUser(options?: RequestOptions): Promise<UserResponse> {
+    return this.request<UserResponse>('/api/auth/me', options);
+  }
+
+  // ===============================
+  // TWO-FACTOR METHODS
+  // ===============================
+  async getTwoFactorStatus(options?: RequestOptions): Promise<TwoFactorStatus> {
+    return this.request<TwoFactorStatus>('/api/auth/me/2fa', options);
+  }
+
+  // Issues a new, not yet active secret; it only takes effect once enableTwoFactor confirms a code
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    return this.request<TwoFactorSetupResponse>('/api/auth/me/2fa/setup', {
+      method: 'POST',
+    });
+  }
+
+  async enableTwoFactor(code: string): Promise<TwoFactorBackupCodesResponse> {
+    return this.request<TwoFactorBackupCodesResponse>('/api/auth/me/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableTwoFactor(code: string): Promise<MessageResponse> {
+    return this.request<MessageResponse>('/api/auth/me/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async regenerateBackupCodes(code: string): Promise<TwoFactorBackupCodesResponse> {
+    return this.request<TwoFactorBackupCodesResponse>('/api/auth/me/2fa/backup-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
   }
 
   // ===============================
   // WALLET METHODS
   // ===============================
-  async getWalletBalance(phoneNumber: string): Promise<WalletData> {
-    return this.request<WalletData>(`/api/wallet/balance/${phoneNumber}`);
+  async getWalletBalance(phoneNumber: string, options?: RequestOptions): Promise<WalletData> {
+    return this.request<WalletData>(`/api/wallet/balance/${phoneNumber}`, options);
   }
 
-  async depositFunds(data: DepositRequest): Promise<TransactionResponse> {
-    return this.request<TransactionResponse>('/api/wallet/deposit', {
+  // Sends the STK push prompt; the wallet is only credited once M-Pesa calls back
+  async initiateDeposit(data: DepositRequest): Promise<StkPushResponse> {
+    return this.request<StkPushResponse>('/api/wallet/deposit/stk-push', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async withdrawFunds(data: WithdrawRequest): Promise<TransactionResponse> {
-    return this.request<TransactionResponse>('/api/wallet/withdraw', {
+  async getDepositStatus(checkoutRequestId: string, options?: RequestOptions): Promise<DepositStatusResponse> {
+    return this.request<DepositStatusResponse>(
+      `/api/wallet/deposit/status/${encodeURIComponent(checkoutRequestId)}`,
+      options
+    );
+  }
+
+  // Creates a withdrawal request; the amount is held from the balance until it is paid or rejected
+  async withdrawFunds(data: WithdrawRequest): Promise<Withdrawal> {
+    return this.request<Withdrawal>('/api/wallet/withdrawals', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
+  async getMyWithdrawals(options?: RequestOptions): Promise<Withdrawal[]> {
+    return this.request<Withdrawal[]>('/api/wallet/withdrawals', options);
+  }
+
+  async getWithdrawalLimits(options?: RequestOptions): Promise<WithdrawalLimits> {
+    return this.request<WithdrawalLimits>('/api/wallet/withdrawals/limits', options);
+  }
+
+  async cancelWithdrawal(withdrawalId: string): Promise<Withdrawal> {
+    return this.request<Withdrawal>(`/api/wallet/withdrawals/${encodeURIComponent(withdrawalId)}/cancel`, {
+      method: 'POST',
+    });
+  }
+
   // ===============================
   // INVESTMENT METHODS
   // ===============================
-  async getMarketAssets(): Promise<Asset[]> {
-    return this.request<Asset[]>('/api/assets/market');
+  async getMarketAssets(options?: RequestOptions): Promise<Asset[]> {
+    return this.request<Asset[]>('/api/assets/market', options);
+  }
+
+  async getMyInvestments(phoneNumber: string, options?: RequestOptions): Promise<UserInvestment[]> {
+    return this.request<UserInvestment[]>(`/api/investments/my/${phoneNumber}`, options);
+  }
+
+  async setAutoRoll(investmentId: string, autoRoll: boolean): Promise<UserInvestment> {
+    return this.request<UserInvestment>(`/api/investments/${encodeURIComponent(investmentId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ auto_roll: autoRoll }),
+    });
+  }
+
+  async getInvestment(investmentId: string, options?: RequestOptions): Promise<InvestmentPosition> {
+    return this.request<InvestmentPosition>(`/api/investments/${encodeURIComponent(investmentId)}`, options);
   }
 
-  async getMyInvestments(phoneNumber: string): Promise<UserInvestment[]> {
-    return this.request<UserInvestment[]>(`/api/investments/my/${phoneNumber}`);
+  // What closing now would pay out, before the user commits to it
+  async previewCloseInvestment(investmentId: string, options?: RequestOptions): Promise<CloseInvestmentPreview> {
+    return this.request<CloseInvestmentPreview>(`/api/investments/${encodeURIComponent(investmentId)}/close/preview`, options);
+  }
+
+  async closeInvestment(investmentId: string, quoteId: string): Promise<CloseInvestmentResponse> {
+    return this.request<CloseInvestmentResponse>(`/api/investments/${encodeURIComponent(investmentId)}/close`, {
+      method: 'POST',
+      body: JSON.stringify({ quote_id: quoteId }),
+    });
   }
 
   async buyInvestment(investmentData: InvestmentRequest): Promise<any> {
@@ -260,18 +1038,199 @@ class ApiService {
     });
   }
 
+  async getPnL(options?: RequestOptions): Promise<PnLData> {
+    return this.request<PnLData>('/api/portfolio/pnl', options);
+  }
+
+  // Daily snapshots from `from` (YYYY-MM-DD), or the whole history without it
+  async getPortfolioHistory(from?: string, options?: RequestOptions): Promise<PortfolioSnapshot[]> {
+    const query = from ? `?from=${encodeURIComponent(from)}` : '';
+    return this.request<PortfolioSnapshot[]>(`/api/portfolio/history${query}`, options);
+  }
+
+  // ===============================
+  // INVESTMENT PLAN METHODS
+  // ===============================
+  async getInvestmentPlans(options?: RequestOptions): Promise<InvestmentPlan[]> {
+    return this.request<InvestmentPlan[]>('/api/plans', options);
+  }
+
+  async createInvestmentPlan(data: InvestmentPlanRequest): Promise<InvestmentPlan> {
+    return this.request<InvestmentPlan>('/api/plans', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Resuming a plan paused for low balance is refused until the wallet covers one run
+  async updateInvestmentPlan(planId: string, data: InvestmentPlanUpdate): Promise<InvestmentPlan> {
+    return this.request<InvestmentPlan>(`/api/plans/${encodeURIComponent(planId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteInvestmentPlan(planId: string): Promise<MessageResponse> {
+    return this.request<MessageResponse>(`/api/plans/${encodeURIComponent(planId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPlanExecutions(planId: string, options?: RequestOptions): Promise<PlanExecution[]> {
+    return this.request<PlanExecution[]>(`/api/plans/${encodeURIComponent(planId)}/executions`, options);
+  }
+
+  // ===============================
+  // BONUS METHODS
+  // ===============================
+  async getAvailableBonuses(options?: RequestOptions): Promise<AvailableBonus[]> {
+    return this.request<AvailableBonus[]>('/api/bonuses/available', options);
+  }
+
+  async claimBonus(bonusId: string): Promise<BonusClaimResponse> {
+    return this.request<BonusClaimResponse>(`/api/bonuses/${encodeURIComponent(bonusId)}/claim`, {
+      method: 'POST',
+    });
+  }
+
+  // ===============================
+  // REFERRAL METHODS
+  // ===============================
+  async getReferralSummary(options?: RequestOptions): Promise<ReferralSummary> {
+    return this.request<ReferralSummary>('/api/referrals/me', options);
+  }
+
   // ===============================
   // ACTIVITY METHODS
   // ===============================
-  async getMyActivities(phoneNumber: string): Promise<UserActivity[]> {
-    return this.request<UserActivity[]>(`/api/activities/my/${phoneNumber}`);
+  async getMyActivities(query: ActivityQuery = {}, options?: RequestOptions): Promise<ActivityPage> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value === undefined || value === '') return;
+      (Array.isArray(value) ? value : [value]).forEach(v => params.append(key, String(v)));
+    });
+    const search = params.toString();
+    return this.request<ActivityPage>(`/api/activities/me${search ? `?${search}` : ''}`, options);
+  }
+
+  // ===============================
+  // EXCHANGE RATE METHODS
+  // ===============================
+  async getExchangeRates(base: string, options?: RequestOptions): Promise<ExchangeRatesResponse> {
+    return this.request<ExchangeRatesResponse>(`/api/fx/rates?base=${encodeURIComponent(base)}`, options);
+  }
+
+  // ===============================
+  // PRICE ALERT METHODS
+  // ===============================
+  async getPriceAlerts(options?: RequestOptions): Promise<PriceAlert[]> {
+    return this.request<PriceAlert[]>('/api/alerts', options);
+  }
+
+  async createPriceAlert(data: PriceAlertRequest): Promise<PriceAlert> {
+    return this.request<PriceAlert>('/api/alerts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Pausing and resuming; a resumed alert measures change_percent from the new reference price
+  async updatePriceAlert(alertId: string, data: { status: 'active' | 'paused'; reference_price?: number }): Promise<PriceAlert> {
+    return this.request<PriceAlert>(`/api/alerts/${encodeURIComponent(alertId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deletePriceAlert(alertId: string): Promise<MessageResponse> {
+    return this.request<MessageResponse>(`/api/alerts/${encodeURIComponent(alertId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Reports a trigger seen in the app; the server records it and sends the Web Push
+  async triggerPriceAlert(alertId: string, price: number): Promise<PriceAlert> {
+    return this.request<PriceAlert>(`/api/alerts/${encodeURIComponent(alertId)}/trigger`, {
+      method: 'POST',
+      body: JSON.stringify({ price }),
+    });
+  }
+
+  async getPushConfig(options?: RequestOptions): Promise<PushConfig> {
+    return this.request<PushConfig>('/api/push/config', options);
+  }
+
+  async savePushSubscription(subscription: PushSubscriptionJSON): Promise<MessageResponse> {
+    return this.request<MessageResponse>('/api/push/subscriptions', {
+      method: 'POST',
+      body: JSON.stringify(subscription),
+    });
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<MessageResponse> {
+    return this.request<MessageResponse>('/api/push/subscriptions', {
+      method: 'DELETE',
+      body: JSON.stringify({ endpoint }),
+    });
+  }
+
+  // ===============================
+  // WATCHLIST METHODS
+  // ===============================
+  async getWatchlists(options?: RequestOptions): Promise<Watchlist[]> {
+    return this.request<Watchlist[]>('/api/watchlists', options);
+  }
+
+  async createWatchlist(name: string, symbols: string[] = []): Promise<Watchlist> {
+    return this.request<Watchlist>('/api/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({ name, symbols }),
+    });
+  }
+
+  async updateWatchlist(watchlistId: string, data: WatchlistUpdate): Promise<Watchlist> {
+    return this.request<Watchlist>(`/api/watchlists/${encodeURIComponent(watchlistId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteWatchlist(watchlistId: string): Promise<MessageResponse> {
+    return this.request<MessageResponse>(`/api/watchlists/${encodeURIComponent(watchlistId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // ===============================
+  // PRICE STREAM METHODS
+  // ===============================
+  // WebSocket and EventSource can't set headers, so they authenticate with a ticket in the
+  // query string instead of the access token, which would end up in access logs
+  async createStreamTicket(): Promise<StreamTicket> {
+    return this.request<StreamTicket>('/api/stream/ticket', { method: 'POST' });
+  }
+
+  getStreamUrl(path: string, params: Record<string, string> = {}): string {
+    const query = new URLSearchParams(params).toString();
+    return `${this.baseURL}${path}${query ? `?${query}` : ''}`;
+  }
+
+  // Long poll: the server holds the request until there's news or ~25s pass
+  async pollPriceStream(
+    symbols: string[],
+    cursor: string | null,
+    options?: RequestOptions
+  ): Promise<PriceStreamPollResponse> {
+    const params = new URLSearchParams({ symbols: symbols.join(',') });
+    if (cursor) params.set('cursor', cursor);
+    return this.request<PriceStreamPollResponse>(`/api/stream/poll?${params}`, { timeout: 35000, retries: 0, ...options });
   }
 
   // ===============================
   // UTILITY METHODS
   // ===============================
-  async healthCheck(): Promise<{ status: string; service: string; timestamp: string }> {
-    return this.request('/api/health');
+  async healthCheck(options?: RequestOptions): Promise<{ status: string; service: string; timestamp: string }> {
+    return this.request('/api/health', { timeout: 5000, retries: 0, ...options });
   }
 
   isAuthenticated(): boolean {
@@ -297,24 +1256,34 @@ class ApiService {
 // ERROR HANDLER
 // ===============================
 export class ApiErrorHandler {
-  static handle(error: any, context: string = ''): string {
+  static handle(error: unknown, context: string = ''): string {
     console.error(`API Error in ${context}:`, error);
     
-    if (error instanceof Error) {
-      if (error.message.includes('Network') || error.message.includes('Failed to fetch')) {
+    if (error instanceof ApiError) {
+      if (error.isNetworkError) {
         return 'Unable to connect to server. Please check your internet connection.';
       }
-      if (error.message.includes('401') || error.message.includes('Authentication')) {
+      if (error.code === 'ABORTED') {
+        return 'Request was cancelled.';
+      }
+      if (error.status === 401) {
         return 'Your session has expired. Please login again.';
       }
-      if (error.message.includes('404')) {
+      if (error.status === 404) {
         return 'Requested resource not found.';
       }
-      if (error.message.includes('500')) {
+      if (error.status === 429) {
+        return 'Too many requests. Please wait a moment and try again.';
+      }
+      if (error.status >= 500) {
         return 'Server error. Please try again later.';
       }
       return error.message;
     }
+
+    if (error instanceof Error) {
+      return error.message;
+    }
     
     return 'An unexpected error occurred. Please try again.';
   }
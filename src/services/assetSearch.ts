@@ -0,0 +1,164 @@
+// services/assetSearch.ts - Fuzzy search, sorting and range filters for the asset list, kept in the URL
+import type { Asset } from './api';
+
+export type AssetSortKey = 'default' | 'price' | 'change' | 'roi' | 'min_investment' | 'hourly_income';
+export type SortDirection = 'asc' | 'desc';
+
+// Either end of a range may be open
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface AssetFilters {
+  query: string;
+  sort: AssetSortKey;
+  direction: SortDirection;
+  minInvestment: NumberRange; // KES, like the assets themselves
+  duration: NumberRange; // hours
+}
+
+export const DEFAULT_FILTERS: AssetFilters = {
+  query: '',
+  sort: 'default',
+  direction: 'desc',
+  minInvestment: { min: null, max: null },
+  duration: { min: null, max: null },
+};
+
+export const SORT_LABELS: Record<AssetSortKey, string> = {
+  default: 'Default order',
+  price: 'Price',
+  change: 'Change %',
+  roi: 'ROI',
+  min_investment: 'Min investment',
+  hourly_income: 'Hourly income',
+};
+
+export const assetRoi = (asset: Pick<Asset, 'hourly_income' | 'duration' | 'min_investment'>): number =>
+  (asset.hourly_income * asset.duration) / asset.min_investment * 100;
+
+const SORT_VALUES: Record<Exclude<AssetSortKey, 'default'>, (asset: Asset) => number> = {
+  price: asset => asset.current_price,
+  change: asset => asset.change_percentage,
+  roi: assetRoi,
+  min_investment: asset => asset.min_investment,
+  hourly_income: asset => asset.hourly_income,
+};
+
+// How well `query` matches `text`, or null if it doesn't. Substrings beat scattered
+// letters, earlier beats later, and letters that run together beat ones spread out.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  const index = t.indexOf(q);
+  if (index === 0) return 1000;
+  if (index > 0) return 800 - index;
+
+  let score = 500;
+  let position = -1;
+  for (const char of q) {
+    const next = t.indexOf(char, position + 1);
+    if (next === -1) return null;
+    score -= next - position - 1; // gap since the previous matched letter
+    position = next;
+  }
+  return score;
+};
+
+const scoreAsset = (query: string, asset: Asset): number | null => {
+  const scores = [fuzzyScore(query, asset.symbol), fuzzyScore(query, asset.name)]
+    .filter((score): score is number => score !== null);
+  return scores.length > 0 ? Math.max(...scores) : null;
+};
+
+const inRange = (value: number, range: NumberRange): boolean =>
+  (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+
+// Without an explicit sort, search results come best match first and everything else
+// keeps the order it was given in
+export const applyAssetFilters = (assets: Asset[], filters: AssetFilters): Asset[] => {
+  const query = filters.query.trim();
+  const matched = assets
+    .filter(asset => inRange(asset.min_investment, filters.minInvestment) && inRange(asset.duration, filters.duration))
+    .map((asset, order) => ({ asset, order, score: query ? scoreAsset(query, asset) : 0 }))
+    .filter((entry): entry is { asset: Asset; order: number; score: number } => entry.score !== null);
+
+  if (filters.sort !== 'default') {
+    const value = SORT_VALUES[filters.sort];
+    const sign = filters.direction === 'asc' ? 1 : -1;
+    matched.sort((a, b) => sign * (value(a.asset) - value(b.asset)) || a.order - b.order);
+  } else if (query) {
+    matched.sort((a, b) => b.score - a.score || a.order - b.order);
+  }
+
+  return matched.map(entry => entry.asset);
+};
+
+export const hasActiveFilters = (filters: AssetFilters): boolean =>
+  filters.query.trim() !== ''
+  || filters.sort !== 'default'
+  || [filters.minInvestment, filters.duration].some(range => range.min !== null || range.max !== null);
+
+// ===============================
+// URL QUERY
+// ===============================
+
+const PARAMS = {
+  query: 'q',
+  sort: 'sort',
+  direction: 'dir',
+  minInvestmentMin: 'min_inv',
+  minInvestmentMax: 'max_inv',
+  durationMin: 'min_hours',
+  durationMax: 'max_hours',
+};
+
+const readNumber = (params: URLSearchParams, key: string): number | null => {
+  const raw = params.get(key);
+  if (raw === null || raw === '') return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+// Anything unrecognised in a shared link falls back to the default rather than failing
+export const filtersFromParams = (params: URLSearchParams): AssetFilters => {
+  const sort = params.get(PARAMS.sort) as AssetSortKey | null;
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    sort: sort && Object.hasOwn(SORT_LABELS, sort) ? sort : DEFAULT_FILTERS.sort,
+    direction: params.get(PARAMS.direction) === 'asc' ? 'asc' : 'desc',
+    minInvestment: {
+      min: readNumber(params, PARAMS.minInvestmentMin),
+      max: readNumber(params, PARAMS.minInvestmentMax),
+    },
+    duration: {
+      min: readNumber(params, PARAMS.durationMin),
+      max: readNumber(params, PARAMS.durationMax),
+    },
+  };
+};
+
+// Only non-default values are written, so an unfiltered view has a clean URL.
+// Other parameters already in the query are left alone.
+export const filtersToParams = (filters: AssetFilters, current: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(current);
+  const set = (key: string, value: string | number | null, isDefault: boolean) => {
+    if (value === null || isDefault) {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  };
+
+  set(PARAMS.query, filters.query, filters.query.trim() === '');
+  set(PARAMS.sort, filters.sort, filters.sort === 'default');
+  set(PARAMS.direction, filters.direction, filters.sort === 'default' || filters.direction === 'desc');
+  set(PARAMS.minInvestmentMin, filters.minInvestment.min, false);
+  set(PARAMS.minInvestmentMax, filters.minInvestment.max, false);
+  set(PARAMS.durationMin, filters.duration.min, false);
+  set(PARAMS.durationMax, filters.duration.max, false);
+  return params;
+};
@@ -0,0 +1,139 @@
+// services/exchangeRates.ts - Exchange rates against KES with a local cache and offline fallback
+import { apiService } from './api';
+
+export const BASE_CURRENCY = 'KES';
+
+const STORAGE_KEY = 'exchangeRates';
+const CACHE_DURATION = 60 * 60 * 1000; // 1 hour; the sources only update a few times a day
+
+// Units of each currency per 1 KES. Only used until the first successful fetch.
+const FALLBACK_RATES: Record<string, number> = {
+  KES: 1,
+  USD: 0.0078,
+  EUR: 0.0072,
+  GBP: 0.0062,
+  ZAR: 0.15,
+  UGX: 28.5,
+  TZS: 20.1,
+};
+
+export interface RateSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  asOf: string | null; // when the source published the rates; null for the built-in fallback
+  fetchedAt: number;
+  source: string;
+}
+
+// 'live': fetched within the cache window; 'offline': refresh failed, showing the last
+// rates we fetched; 'fallback': never fetched, showing built-in indicative rates
+export type RateStatus = 'live' | 'offline' | 'fallback';
+
+export interface RateResult {
+  snapshot: RateSnapshot;
+  status: RateStatus;
+}
+
+export interface ExchangeRateSource {
+  name: string;
+  fetchRates(base: string, signal?: AbortSignal): Promise<{ rates: Record<string, number>; asOf: string }>;
+}
+
+// Our own endpoint, so rates match what the backend uses for conversions
+export const backendRateSource: ExchangeRateSource = {
+  name: 'PesaPrime',
+  async fetchRates(base, signal) {
+    const response = await apiService.getExchangeRates(base, { signal, retries: 0 });
+    return { rates: response.rates, asOf: response.as_of };
+  },
+};
+
+// Public fallback. Frankfurter (used for forex pairs) has no KES, UGX or TZS, so it can't be used here.
+export const openExchangeRateSource: ExchangeRateSource = {
+  name: 'ExchangeRate-API',
+  async fetchRates(base, signal) {
+    const response = await fetch(`https://open.er-api.com/v6/latest/${encodeURIComponent(base)}`, { signal });
+    const data = await response.json();
+    if (!response.ok || data.result !== 'success') {
+      throw new Error(data['error-type'] || `Exchange rate request failed with ${response.status}`);
+    }
+    return { rates: data.rates, asOf: new Date(data.time_last_update_unix * 1000).toISOString() };
+  },
+};
+
+export class ExchangeRateService {
+  private sources: ExchangeRateSource[];
+  private inFlight: Promise<RateResult> | null = null;
+
+  constructor(sources: ExchangeRateSource[]) {
+    this.sources = sources;
+  }
+
+  private readCache(): RateSnapshot | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const snapshot = raw ? (JSON.parse(raw) as RateSnapshot) : null;
+      return snapshot && snapshot.base === BASE_CURRENCY && snapshot.rates ? snapshot : null;
+    } catch (error) {
+      console.error('Error reading cached exchange rates:', error);
+      return null;
+    }
+  }
+
+  private writeCache(snapshot: RateSnapshot): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Error caching exchange rates:', error);
+    }
+  }
+
+  // Whatever we can show right now without touching the network
+  getCachedRates(): RateResult {
+    const cached = this.readCache();
+    if (!cached) {
+      return {
+        snapshot: { base: BASE_CURRENCY, rates: FALLBACK_RATES, asOf: null, fetchedAt: 0, source: 'built-in' },
+        status: 'fallback',
+      };
+    }
+    return { snapshot: cached, status: Date.now() - cached.fetchedAt < CACHE_DURATION ? 'live' : 'offline' };
+  }
+
+  // Returns cached rates while they're fresh, otherwise tries each source in order
+  async getRates(force = false): Promise<RateResult> {
+    const cached = this.getCachedRates();
+    if (!force && cached.status === 'live') return cached;
+
+    if (!this.inFlight) {
+      this.inFlight = this.fetchFromSources(cached).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async fetchFromSources(cached: RateResult): Promise<RateResult> {
+    for (const source of this.sources) {
+      try {
+        const { rates, asOf } = await source.fetchRates(BASE_CURRENCY, AbortSignal.timeout(10000));
+        const snapshot: RateSnapshot = {
+          base: BASE_CURRENCY,
+          // Keep older rates for any currency this source doesn't quote
+          rates: { ...cached.snapshot.rates, ...rates, [BASE_CURRENCY]: 1 },
+          asOf,
+          fetchedAt: Date.now(),
+          source: source.name,
+        };
+        this.writeCache(snapshot);
+        return { snapshot, status: 'live' };
+      } catch (error) {
+        console.warn(`Exchange rates from ${source.name} unavailable:`, error);
+      }
+    }
+
+    return { snapshot: cached.snapshot, status: cached.status === 'fallback' ? 'fallback' : 'offline' };
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService([backendRateSource, openExchangeRateSource]);
@@ -0,0 +1,171 @@
+// services/indicators.ts - Technical indicators computed from candle history
+import type { Candle } from './marketData';
+
+// Every series lines up with its input: index i is the indicator at candle i, null until
+// there are enough candles behind it
+export type IndicatorSeries = (number | null)[];
+
+export type IndicatorId = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd';
+
+export const INDICATOR_SETTINGS = {
+  sma: { period: 20 },
+  ema: { period: 50 },
+  bollinger: { period: 20, deviations: 2 },
+  rsi: { period: 14, overbought: 70, oversold: 30 },
+  macd: { fast: 12, slow: 26, signal: 9 },
+};
+
+export const sma = (values: number[], period: number): IndicatorSeries => {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+};
+
+// Seeded with the SMA of the first full period; leading nulls in the input are skipped
+export const ema = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const k = 2 / (period + 1);
+  const result: IndicatorSeries = [];
+  let previous: number | null = null;
+  let seed: number[] = [];
+
+  values.forEach(value => {
+    if (value === null) {
+      result.push(null);
+    } else if (previous === null) {
+      seed.push(value);
+      if (seed.length === period) {
+        previous = seed.reduce((sum, v) => sum + v, 0) / period;
+        seed = [];
+      }
+      result.push(previous);
+    } else {
+      previous = value * k + previous * (1 - k);
+      result.push(previous);
+    }
+  });
+  return result;
+};
+
+// Wilder's smoothing, as quoted by most charting platforms
+export const rsi = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gains = 0;
+  let losses = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) gains += change;
+    else losses -= change;
+  }
+  let averageGain = gains / period;
+  let averageLoss = losses / period;
+
+  const toRsi = () => (averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+export interface MacdSeries {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export const macd = (values: number[], fast: number, slow: number, signalPeriod: number): MacdSeries => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f !== null && s !== null ? f - s : null;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => {
+    const s = signal[i];
+    return value !== null && s !== null ? value - s : null;
+  });
+  return { macd: line, signal, histogram };
+};
+
+export interface BollingerSeries {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export const bollinger = (values: number[], period: number, deviations: number): BollingerSeries => {
+  const middle = sma(values, period);
+  const width = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+    return Math.sqrt(variance) * deviations;
+  });
+  return {
+    upper: middle.map((mean, i) => (mean !== null ? mean + width[i]! : null)),
+    middle,
+    lower: middle.map((mean, i) => (mean !== null ? mean - width[i]! : null)),
+  };
+};
+
+export interface IndicatorSet {
+  sma: IndicatorSeries;
+  ema: IndicatorSeries;
+  bollinger: BollingerSeries;
+  rsi: IndicatorSeries;
+  macd: MacdSeries;
+}
+
+// Everything the chart can show, from closing prices
+export const computeIndicators = (candles: Candle[]): IndicatorSet => {
+  const closes = candles.map(c => c.close);
+  const { sma: smaSettings, ema: emaSettings, bollinger: bb, rsi: rsiSettings, macd: macdSettings } = INDICATOR_SETTINGS;
+  return {
+    sma: sma(closes, smaSettings.period),
+    ema: ema(closes, emaSettings.period),
+    bollinger: bollinger(closes, bb.period, bb.deviations),
+    rsi: rsi(closes, rsiSettings.period),
+    macd: macd(closes, macdSettings.fast, macdSettings.slow, macdSettings.signal),
+  };
+};
+
+// ===============================
+// TREND
+// ===============================
+
+export interface TrendSignal {
+  trend: 'up' | 'down';
+  movingAverage: number; // latest SMA, or the last close when there isn't enough history
+}
+
+const last = (series: IndicatorSeries): number | null => series[series.length - 1] ?? null;
+
+// Majority vote of price above its SMA, MACD above its signal line and RSI above 50.
+// Short histories that can't fill the indicators fall back to first vs last close.
+export const deriveTrend = (candles: Candle[]): TrendSignal | null => {
+  if (candles.length < 2) return null;
+
+  const indicators = computeIndicators(candles);
+  const close = candles[candles.length - 1].close;
+  const average = last(indicators.sma);
+  const histogram = last(indicators.macd.histogram);
+  const strength = last(indicators.rsi);
+
+  if (average === null || histogram === null || strength === null) {
+    return { trend: close >= candles[0].open ? 'up' : 'down', movingAverage: average ?? close };
+  }
+
+  const votes = [close > average, histogram > 0, strength > 50].filter(Boolean).length;
+  return { trend: votes >= 2 ? 'up' : 'down', movingAverage: average };
+};
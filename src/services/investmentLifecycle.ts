@@ -0,0 +1,85 @@
+// services/investmentLifecycle.ts - Where a position stands between purchase and maturity
+import type { InvestmentPosition } from './api';
+import { RANGE_MS, type ChartRange } from './marketData';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// accrued is what has been earned up to a point, projected what is still to come;
+// the point at "now" carries both so the two lines join
+export interface AccrualPoint {
+  time: number;
+  accrued: number | null;
+  projected: number | null;
+}
+
+export interface Countdown {
+  totalMs: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+type LifecycleFields = Pick<InvestmentPosition, 'created_at' | 'matures_at' | 'closed_at' | 'hourly_income' | 'duration'>;
+
+// Income is credited once per full hour held
+export const incomeAt = (position: LifecycleFields, time: number): number => {
+  const hours = Math.floor((time - new Date(position.created_at).getTime()) / HOUR_MS);
+  return position.hourly_income * Math.min(position.duration, Math.max(0, hours));
+};
+
+// Hour marks over the whole term, thinned to at most maxPoints for long positions.
+// A closed position stops accruing when it was closed and projects nothing.
+export const accrualTimeline = (position: LifecycleFields, now = Date.now(), maxPoints = 48): AccrualPoint[] => {
+  const start = new Date(position.created_at).getTime();
+  const end = start + position.duration * HOUR_MS;
+  const cutoff = position.closed_at ? Math.min(new Date(position.closed_at).getTime(), now) : now;
+  const step = Math.max(1, Math.ceil(position.duration / maxPoints));
+
+  const times: number[] = [];
+  for (let hour = 0; hour < position.duration; hour += step) times.push(start + hour * HOUR_MS);
+  times.push(end);
+  if (cutoff > start && cutoff < end) times.push(cutoff);
+  times.sort((a, b) => a - b);
+
+  return times.map(time => {
+    const amount = incomeAt(position, time);
+    return {
+      time,
+      accrued: time <= cutoff ? amount : null,
+      projected: !position.closed_at && time >= cutoff ? amount : null,
+    };
+  });
+};
+
+export const countdownTo = (target: string, now = Date.now()): Countdown => {
+  const totalMs = Math.max(0, new Date(target).getTime() - now);
+  const totalSeconds = Math.floor(totalMs / 1000);
+  return {
+    totalMs,
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+  };
+};
+
+export const formatCountdown = ({ days, hours, minutes, seconds }: Countdown): string => {
+  const clock = [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+// Share of the term already behind the position, 0-100
+export const termProgress = (position: LifecycleFields, now = Date.now()): number => {
+  const start = new Date(position.created_at).getTime();
+  const end = new Date(position.matures_at).getTime();
+  if (end <= start) return 100;
+  return Math.min(100, Math.max(0, ((now - start) / (end - start)) * 100));
+};
+
+// The shortest chart range that reaches back to when the position was opened
+export const rangeSince = (createdAt: string, now = Date.now()): ChartRange => {
+  const age = now - new Date(createdAt).getTime();
+  const ranges: ChartRange[] = ['1H', '1D', '1W', '1M', '1Y'];
+  return ranges.find(range => RANGE_MS[range] >= age) ?? '1Y';
+};
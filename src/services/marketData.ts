@@ -1,144 +1,767 @@
-// services/marketData.ts
+// services/marketData.ts - Market quotes from pluggable providers with failover and an honest freshness label
+export type AssetClass = 'crypto' | 'forex' | 'stock';
+
+// 'live': from a provider within CACHE_DURATION; 'cached': an older provider quote, served because
+// every provider is down or rate limited; 'static': reference values, not market data
+export type DataFreshness = 'live' | 'cached' | 'static';
+
 export interface MarketData {
   symbol: string;
   price: number;
   change: number;
   changePercent: number;
-  high24h: number;
-  low24h: number;
+  high24h: number | null; // null when the source doesn't publish a range
+  low24h: number | null;
   volume: number;
-  timestamp: number;
+  timestamp: number; // when the source priced it, not when we fetched it
+  source: string;
+  freshness: DataFreshness;
 }
 
-export class MarketDataService {
+export interface Candle {
+  time: number; // bucket open, ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // in the quote currency; 0 when the source has none
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+export type ChartRange = '1H' | '1D' | '1W' | '1M' | '1Y';
+
+export interface CandleSeries {
+  symbol: string;
+  interval: CandleInterval; // may be coarser than asked for, when that's all the source has
+  range: ChartRange;
+  candles: Candle[];
+  source: string;
+  freshness: DataFreshness;
+}
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+export const RANGE_MS: Record<ChartRange, number> = {
+  '1H': INTERVAL_MS['1h'],
+  '1D': INTERVAL_MS['1d'],
+  '1W': INTERVAL_MS['1w'],
+  '1M': 30 * INTERVAL_MS['1d'],
+  '1Y': 365 * INTERVAL_MS['1d'],
+};
+
+// Roughly 60-360 candles for each range
+export const DEFAULT_INTERVALS: Record<ChartRange, CandleInterval> = {
+  '1H': '1m',
+  '1D': '15m',
+  '1W': '1h',
+  '1M': '4h',
+  '1Y': '1d',
+};
+
+export interface QuoteRequest {
+  symbol: string;
+  assetClass: AssetClass;
+  // Last resort when no provider or static table knows the symbol
+  reference?: { price: number; changePercent: number };
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  readonly assetClass: AssetClass;
+  supports(symbol: string): boolean;
+  // Batched so one request covers a whole tab; missing symbols are simply left out
+  getQuotes(symbols: string[]): Promise<MarketData[]>;
+  healthCheck(): Promise<boolean>;
+  // Providers with history list the bucket sizes they can serve
+  readonly candleIntervals?: CandleInterval[];
+  getCandles?(symbol: string, interval: CandleInterval, range: ChartRange): Promise<Candle[]>;
+}
+
+export interface ProviderStatus {
+  name: string;
+  assetClass: AssetClass;
+  healthy: boolean;
+  rateLimitedUntil: number | null;
+  lastError: string | null;
+}
+
+export class RateLimitError extends Error {
+  retryAfter: number; // ms
+
+  constructor(provider: string, retryAfter: number) {
+    super(`${provider} rate limit reached`);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// ===============================
+// RATE LIMITING
+// ===============================
+
+// Sliding window of request times, plus a hard stop when the API answers 429
+export class RateLimiter {
+  private maxRequests: number;
+  private windowMs: number;
+  private requests: number[] = [];
+  private blockedUntil = 0;
+
+  constructor(maxRequests: number, windowMs: number) {
+    this.maxRequests = maxRequests;
+    this.windowMs = windowMs;
+  }
+
+  // Time until the next request is allowed; 0 when one can go now
+  waitTime(): number {
+    const now = Date.now();
+    this.requests = this.requests.filter(time => now - time < this.windowMs);
+    if (this.blockedUntil > now) return this.blockedUntil - now;
+    if (this.requests.length < this.maxRequests) return 0;
+    return this.requests[0] + this.windowMs - now;
+  }
+
+  record(): void {
+    this.requests.push(Date.now());
+  }
+
+  block(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+}
+
+const retryAfterMs = (response: Response, fallback: number): number => {
+  const header = Number(response.headers.get('Retry-After'));
+  return header > 0 ? header * 1000 : fallback;
+};
+
+// Shared fetch for providers: counts against the limiter and turns 429s into RateLimitError
+// T describes the provider's payload; it isn't checked at runtime
+const fetchJson = async <T>(provider: string, limiter: RateLimiter, url: string): Promise<T> => {
+  const wait = limiter.waitTime();
+  if (wait > 0) throw new RateLimitError(provider, wait);
+
+  limiter.record();
+  const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+  if (response.status === 429) {
+    const retryAfter = retryAfterMs(response, 60000);
+    limiter.block(retryAfter);
+    throw new RateLimitError(provider, retryAfter);
+  }
+  if (!response.ok) {
+    throw new Error(`${provider} responded with ${response.status}`);
+  }
+  return response.json();
+};
+
+// ===============================
+// PROVIDERS
+// ===============================
+
+const COINGECKO_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  USDT: 'tether',
+  USDC: 'usd-coin',
+  BNB: 'binancecoin',
+  XRP: 'ripple',
+  ADA: 'cardano',
+  SOL: 'solana',
+  DOT: 'polkadot',
+  DOGE: 'dogecoin',
+  LTC: 'litecoin',
+  LINK: 'chainlink',
+  AVAX: 'avalanche-2',
+  MATIC: 'matic-network',
+};
+
+// /coins/markets entry; the 24h fields are null for coins with thin trading
+interface CoinGeckoMarket {
+  id: string;
+  current_price: number;
+  price_change_24h: number | null;
+  price_change_percentage_24h: number | null;
+  high_24h: number | null;
+  low_24h: number | null;
+  total_volume: number | null;
+  last_updated: string | null;
+}
+
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'CoinGecko';
+  readonly assetClass = 'crypto' as const;
   private baseURL = 'https://api.coingecko.com/api/v3';
-  private cache = new Map<string, { data: MarketData; timestamp: number }>();
-  private CACHE_DURATION = 30000; // 30 seconds
+  // The public API allows roughly 30 calls a minute; stay well under it
+  private limiter = new RateLimiter(10, 60000);
 
-  async getCryptoPrice(symbol: string): Promise<MarketData> {
-    const cacheKey = `crypto-${symbol}`;
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data;
-    }
+  supports(symbol: string): boolean {
+    return symbol in COINGECKO_IDS;
+  }
 
-    try {
-      // Map symbols to CoinGecko IDs
-      const symbolMap: { [key: string]: string } = {
-        'BTC': 'bitcoin',
-        'ETH': 'ethereum',
-        'USDT': 'tether',
-        'USDC': 'usd-coin',
-        'BNB': 'binancecoin',
-        'XRP': 'ripple',
-        'ADA': 'cardano',
-        'SOL': 'solana',
-        'DOT': 'polkadot',
-        'DOGE': 'dogecoin'
-      };
+  async getQuotes(symbols: string[]): Promise<MarketData[]> {
+    const ids = symbols.filter(s => this.supports(s)).map(s => COINGECKO_IDS[s]);
+    if (ids.length === 0) return [];
+
+    const coins = await fetchJson<CoinGeckoMarket[]>(
+      this.name,
+      this.limiter,
+      `${this.baseURL}/coins/markets?vs_currency=usd&ids=${ids.join(',')}`
+    );
+    const symbolById = Object.fromEntries(Object.entries(COINGECKO_IDS).map(([symbol, id]) => [id, symbol]));
+
+    return coins.map(coin => ({
+      symbol: symbolById[coin.id],
+      price: coin.current_price,
+      change: coin.price_change_24h ?? 0,
+      changePercent: coin.price_change_percentage_24h ?? 0,
+      high24h: coin.high_24h ?? null,
+      low24h: coin.low_24h ?? null,
+      volume: coin.total_volume ?? 0,
+      timestamp: coin.last_updated ? new Date(coin.last_updated).getTime() : Date.now(),
+      source: this.name,
+      freshness: 'live' as const,
+    }));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    await fetchJson<unknown>(this.name, this.limiter, `${this.baseURL}/ping`);
+    return true;
+  }
+}
+
+// /ticker/24hr entry; Binance sends decimals as strings
+interface BinanceTicker {
+  symbol: string;
+  lastPrice: string;
+  priceChange: string;
+  priceChangePercent: string;
+  highPrice: string;
+  lowPrice: string;
+  quoteVolume: string;
+  closeTime: number;
+}
+
+// [openTime, open, high, low, close, baseVolume, closeTime, quoteVolume, ...]
+type BinanceKline = [number, string, string, string, string, string, number, string, ...unknown[]];
+
+// Binance prices against USDT, which tracks USD closely enough for display. Its klines are real
+// OHLCV, so it's the first choice for crypto history; it's unavailable in some regions.
+export class BinanceProvider implements MarketDataProvider {
+  readonly name = 'Binance';
+  readonly assetClass = 'crypto' as const;
+  readonly candleIntervals: CandleInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d', '1w'];
+  private baseURL = 'https://api.binance.com/api/v3';
+  // Request weight limit is 6000 a minute; klines cost 2 each
+  private limiter = new RateLimiter(100, 60000);
+
+  supports(symbol: string): boolean {
+    return symbol in COINGECKO_IDS && symbol !== 'USDT';
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketData[]> {
+    const pairs = symbols.filter(s => this.supports(s)).map(s => `${s}USDT`);
+    if (pairs.length === 0) return [];
+
+    const tickers = await fetchJson<BinanceTicker[]>(
+      this.name,
+      this.limiter,
+      `${this.baseURL}/ticker/24hr?symbols=${encodeURIComponent(JSON.stringify(pairs))}`
+    );
+    return tickers.map(ticker => ({
+      symbol: ticker.symbol.replace(/USDT$/, ''),
+      price: Number(ticker.lastPrice),
+      change: Number(ticker.priceChange),
+      changePercent: Number(ticker.priceChangePercent),
+      high24h: Number(ticker.highPrice),
+      low24h: Number(ticker.lowPrice),
+      volume: Number(ticker.quoteVolume),
+      timestamp: ticker.closeTime,
+      source: this.name,
+      freshness: 'live' as const,
+    }));
+  }
+
+  async getCandles(symbol: string, interval: CandleInterval, range: ChartRange): Promise<Candle[]> {
+    const limit = Math.min(1000, Math.ceil(RANGE_MS[range] / INTERVAL_MS[interval]));
+    const klines = await fetchJson<BinanceKline[]>(
+      this.name,
+      this.limiter,
+      `${this.baseURL}/klines?symbol=${symbol}USDT&interval=${interval}&limit=${limit}`
+    );
+    return klines.map(kline => ({
+      time: kline[0],
+      open: Number(kline[1]),
+      high: Number(kline[2]),
+      low: Number(kline[3]),
+      close: Number(kline[4]),
+      volume: Number(kline[7]),
+    }));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    await fetchJson<unknown>(this.name, this.limiter, `${this.baseURL}/ping`);
+    return true;
+  }
+}
+
+// Time series response: fix date -> quote currency -> rate
+interface FrankfurterSeries {
+  rates: Record<string, Record<string, number>>;
+}
+
+// ECB reference rates: one fix per working day, so there's no intraday range or volume
+export class FrankfurterProvider implements MarketDataProvider {
+  readonly name = 'Frankfurter';
+  readonly assetClass = 'forex' as const;
+  private baseURL = 'https://api.frankfurter.app';
+  private limiter = new RateLimiter(30, 60000);
+  private static CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'CAD', 'NZD'];
+  readonly candleIntervals: CandleInterval[] = ['1d'];
+
+  supports(symbol: string): boolean {
+    return symbol.length === 6
+      && FrankfurterProvider.CURRENCIES.includes(symbol.substring(0, 3))
+      && FrankfurterProvider.CURRENCIES.includes(symbol.substring(3));
+  }
 
-      const coinId = symbolMap[symbol];
-      if (!coinId) {
-        throw new Error(`Unknown symbol: ${symbol}`);
+  async getQuotes(symbols: string[]): Promise<MarketData[]> {
+    const byBase = new Map<string, string[]>();
+    symbols.filter(s => this.supports(s)).forEach(symbol => {
+      const base = symbol.substring(0, 3);
+      byBase.set(base, [...(byBase.get(base) || []), symbol.substring(3)]);
+    });
+
+    // A week covers weekends and holidays, leaving at least two fixes to compare
+    const start = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const results = await Promise.all([...byBase.entries()].map(async ([base, quotes]) => {
+      const data = await fetchJson<FrankfurterSeries>(
+        this.name,
+        this.limiter,
+        `${this.baseURL}/${start}..?from=${base}&to=${quotes.join(',')}`
+      );
+      const dates = Object.keys(data.rates).sort();
+      const latestDate = dates[dates.length - 1];
+      const previousDate = dates[dates.length - 2];
+
+      return quotes.map(quote => {
+        const price = data.rates[latestDate][quote];
+        const previous = previousDate ? data.rates[previousDate][quote] : price;
+        return {
+          symbol: `${base}${quote}`,
+          price,
+          change: price - previous,
+          changePercent: previous ? ((price - previous) / previous) * 100 : 0,
+          high24h: null,
+          low24h: null,
+          volume: 0,
+          timestamp: new Date(`${latestDate}T16:00:00+01:00`).getTime(), // ECB fixes at 16:00 CET
+          source: this.name,
+          freshness: 'live' as const,
+        };
+      });
+    }));
+
+    return results.flat();
+  }
+
+  // A single daily fix has no range, so each candle opens at the previous close
+  async getCandles(symbol: string, _interval: CandleInterval, range: ChartRange): Promise<Candle[]> {
+    const base = symbol.substring(0, 3);
+    const quote = symbol.substring(3);
+    const start = new Date(Date.now() - RANGE_MS[range] - INTERVAL_MS['1w']).toISOString().slice(0, 10);
+    const data = await fetchJson<FrankfurterSeries>(this.name, this.limiter, `${this.baseURL}/${start}..?from=${base}&to=${quote}`);
+    const since = Date.now() - RANGE_MS[range];
+
+    const candles: Candle[] = [];
+    let previous: number | null = null;
+    Object.keys(data.rates).sort().forEach(date => {
+      const close = data.rates[date][quote];
+      const time = new Date(`${date}T00:00:00Z`).getTime();
+      if (time >= since) {
+        const open = previous ?? close;
+        candles.push({ time, open, high: Math.max(open, close), low: Math.min(open, close), close, volume: 0 });
       }
+      previous = close;
+    });
+    return candles;
+  }
 
-      const response = await fetch(`${this.baseURL}/simple/price?ids=${coinId}&vs_currencies=usd&include_24hr_change=true&include_24hr_vol=true&include_last_updated_at=true`);
-      const data = await response.json();
-      
-      const marketData: MarketData = {
-        symbol,
-        price: data[coinId].usd,
-        change: data[coinId].usd_24h_change || 0,
-        changePercent: data[coinId].usd_24h_change || 0,
-        high24h: data[coinId].usd + (data[coinId].usd * 0.02), // Approximate
-        low24h: data[coinId].usd - (data[coinId].usd * 0.02), // Approximate
-        volume: data[coinId].usd_24h_vol || 0,
-        timestamp: data[coinId].last_updated_at * 1000
-      };
+  async healthCheck(): Promise<boolean> {
+    await fetchJson<unknown>(this.name, this.limiter, `${this.baseURL}/latest?from=EUR&to=USD`);
+    return true;
+  }
+}
 
-      this.cache.set(cacheKey, { data: marketData, timestamp: Date.now() });
-      return marketData;
-    } catch (error) {
-      console.error('Failed to fetch crypto price:', error);
-      throw error;
-    }
+// /quote: current, change, change %, day high, day low, time (seconds)
+interface FinnhubQuote {
+  c: number;
+  d: number | null;
+  dp: number | null;
+  h: number;
+  l: number;
+  t: number;
+}
+
+// /stock/candle: parallel arrays, left out when s is 'no_data'
+interface FinnhubCandles {
+  s: 'ok' | 'no_data';
+  t: number[];
+  o: number[];
+  h: number[];
+  l: number[];
+  c: number[];
+  v: number[];
+}
+
+// Finnhub's free tier needs an API key; without VITE_FINNHUB_API_KEY stocks fall back to static data
+export class FinnhubProvider implements MarketDataProvider {
+  readonly name = 'Finnhub';
+  readonly assetClass = 'stock' as const;
+  private baseURL = 'https://finnhub.io/api/v1';
+  private apiKey: string | undefined;
+  // Free tier: 60 calls a minute, one symbol per call
+  private limiter = new RateLimiter(50, 60000);
+  readonly candleIntervals: CandleInterval[] = ['1m', '5m', '15m', '1h', '1d', '1w'];
+  private static RESOLUTIONS: Partial<Record<CandleInterval, string>> = {
+    '1m': '1', '5m': '5', '15m': '15', '1h': '60', '1d': 'D', '1w': 'W',
+  };
+
+  constructor(apiKey: string | undefined) {
+    this.apiKey = apiKey;
   }
 
-  async getForexPrice(symbol: string): Promise<MarketData> {
-    const cacheKey = `forex-${symbol}`;
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data;
-    }
+  supports(symbol: string): boolean {
+    return !!this.apiKey && /^[A-Z.]{1,6}$/.test(symbol);
+  }
 
-    try {
-      // Using free forex API as fallback
-      const response = await fetch(`https://api.frankfurter.app/latest?from=${symbol.substring(0,3)}&to=${symbol.substring(3)}`);
-      const data = await response.json();
-      
-      const marketData: MarketData = {
+  async getQuotes(symbols: string[]): Promise<MarketData[]> {
+    const supported = symbols.filter(s => this.supports(s));
+    const quotes = await Promise.all(supported.map(async (symbol): Promise<MarketData | null> => {
+      const quote = await fetchJson<FinnhubQuote>(
+        this.name,
+        this.limiter,
+        `${this.baseURL}/quote?symbol=${encodeURIComponent(symbol)}&token=${this.apiKey}`
+      );
+      // Unknown symbols come back as all zeros
+      if (!quote.c) return null;
+      return {
         symbol,
-        price: data.rates[symbol.substring(3)],
-        change: 0, // Would need historical data
-        changePercent: 0,
-        high24h: data.rates[symbol.substring(3)] * 1.001,
-        low24h: data.rates[symbol.substring(3)] * 0.999,
+        price: quote.c,
+        change: quote.d ?? 0,
+        changePercent: quote.dp ?? 0,
+        high24h: quote.h || null,
+        low24h: quote.l || null,
         volume: 0,
-        timestamp: Date.now()
+        timestamp: quote.t ? quote.t * 1000 : Date.now(),
+        source: this.name,
+        freshness: 'live' as const,
       };
+    }));
+    return quotes.filter((quote): quote is MarketData => quote !== null);
+  }
 
-      this.cache.set(cacheKey, { data: marketData, timestamp: Date.now() });
-      return marketData;
-    } catch (error) {
-      console.error('Failed to fetch forex price:', error);
-      // Fallback to static data
-      return this.getStaticForexData(symbol);
-    }
+  async getCandles(symbol: string, interval: CandleInterval, range: ChartRange): Promise<Candle[]> {
+    const to = Math.floor(Date.now() / 1000);
+    const from = to - Math.floor(RANGE_MS[range] / 1000);
+    const data = await fetchJson<FinnhubCandles>(
+      this.name,
+      this.limiter,
+      `${this.baseURL}/stock/candle?symbol=${encodeURIComponent(symbol)}&resolution=${FinnhubProvider.RESOLUTIONS[interval]}&from=${from}&to=${to}&token=${this.apiKey}`
+    );
+    if (data.s !== 'ok') return [];
+    return data.t.map((time, i) => ({
+      time: time * 1000,
+      open: data.o[i],
+      high: data.h[i],
+      low: data.l[i],
+      close: data.c[i],
+      volume: data.v[i] * data.c[i], // shares traded, valued at the close
+    }));
   }
 
-  private getStaticForexData(symbol: string): MarketData {
-    const staticData: { [key: string]: MarketData } = {
-      'EURUSD': { symbol: 'EURUSD', price: 1.0856, change: 0.0012, changePercent: 0.12, high24h: 1.0870, low24h: 1.0840, volume: 0, timestamp: Date.now() },
-      'GBPUSD': { symbol: 'GBPUSD', price: 1.2678, change: -0.0023, changePercent: -0.23, high24h: 1.2700, low24h: 1.2650, volume: 0, timestamp: Date.now() },
-      'USDJPY': { symbol: 'USDJPY', price: 148.34, change: 0.45, changePercent: 0.45, high24h: 148.50, low24h: 147.80, volume: 0, timestamp: Date.now() },
-      'USDCHF': { symbol: 'USDCHF', price: 0.8790, change: -0.0015, changePercent: -0.15, high24h: 0.8800, low24h: 0.8780, volume: 0, timestamp: Date.now() },
-      'AUDUSD': { symbol: 'AUDUSD', price: 0.6523, change: 0.0023, changePercent: 0.34, high24h: 0.6530, low24h: 0.6500, volume: 0, timestamp: Date.now() },
-      'USDCAD': { symbol: 'USDCAD', price: 1.3546, change: -0.0038, changePercent: -0.28, high24h: 1.3560, low24h: 1.3520, volume: 0, timestamp: Date.now() },
-      'NZDUSD': { symbol: 'NZDUSD', price: 0.6123, change: 0.0041, changePercent: 0.67, high24h: 0.6130, low24h: 0.6100, volume: 0, timestamp: Date.now() },
-      'EURGBP': { symbol: 'EURGBP', price: 0.8567, change: -0.0010, changePercent: -0.12, high24h: 0.8575, low24h: 0.8555, volume: 0, timestamp: Date.now() }
-    };
+  async healthCheck(): Promise<boolean> {
+    if (!this.apiKey) return false;
+    await fetchJson<FinnhubQuote>(this.name, this.limiter, `${this.baseURL}/quote?symbol=AAPL&token=${this.apiKey}`);
+    return true;
+  }
+}
+
+// Reference values for when nothing live is reachable. Always labelled 'static'.
+const STATIC_QUOTES: Record<string, { price: number; changePercent: number }> = {
+  EURUSD: { price: 1.0856, changePercent: 0.12 },
+  GBPUSD: { price: 1.2678, changePercent: -0.23 },
+  USDJPY: { price: 148.34, changePercent: 0.45 },
+  USDCHF: { price: 0.8790, changePercent: -0.15 },
+  AUDUSD: { price: 0.6523, changePercent: 0.34 },
+  USDCAD: { price: 1.3546, changePercent: -0.28 },
+  NZDUSD: { price: 0.6123, changePercent: 0.67 },
+  EURGBP: { price: 0.8567, changePercent: -0.12 },
+  AAPL: { price: 189.45, changePercent: 1.23 },
+  TSLA: { price: 245.67, changePercent: -2.34 },
+  AMZN: { price: 145.67, changePercent: 0.89 },
+  GOOGL: { price: 138.90, changePercent: 1.45 },
+  MSFT: { price: 378.45, changePercent: 0.67 },
+};
+
+const staticQuote = (request: QuoteRequest): MarketData | null => {
+  const reference = STATIC_QUOTES[request.symbol] || request.reference;
+  if (!reference) return null;
+  const previous = reference.price / (1 + reference.changePercent / 100);
+  return {
+    symbol: request.symbol,
+    price: reference.price,
+    change: reference.price - previous,
+    changePercent: reference.changePercent,
+    high24h: null,
+    low24h: null,
+    volume: 0,
+    timestamp: Date.now(),
+    source: 'Reference data',
+    freshness: 'static',
+  };
+};
+
+// Same seed, same numbers: simulated history stays put across reloads instead of redrawing
+const seededRandom = (seed: number): number => {
+  let t = (seed + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashSymbol = (symbol: string): number =>
+  [...symbol].reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0, 7);
 
-    return staticData[symbol] || { symbol, price: 1, change: 0, changePercent: 0, high24h: 1, low24h: 1, volume: 0, timestamp: Date.now() };
+// A random walk that ends at the reference price. Only ever labelled 'static'.
+const staticCandles = (request: QuoteRequest, interval: CandleInterval, range: ChartRange): Candle[] => {
+  const reference = STATIC_QUOTES[request.symbol] || request.reference;
+  if (!reference) return [];
+
+  const step = INTERVAL_MS[interval];
+  const count = Math.ceil(RANGE_MS[range] / step);
+  const lastOpen = Math.floor(Date.now() / step) * step;
+  const volatility = (request.assetClass === 'crypto' ? 0.004 : 0.001) * Math.sqrt(step / INTERVAL_MS['1h']);
+  const seed = hashSymbol(request.symbol);
+
+  const candles: Candle[] = [];
+  let close = reference.price;
+  // Walk backwards from now so the last close always matches the quote
+  for (let i = 0; i < count; i++) {
+    const time = lastOpen - i * step;
+    const bucket = Math.floor(time / step);
+    const move = (seededRandom(seed ^ bucket) - 0.5) * 2 * volatility;
+    const open = close / (1 + move);
+    const wick = seededRandom(seed ^ (bucket * 3 + 1)) * volatility * 0.5;
+    candles.push({
+      time,
+      open,
+      high: Math.max(open, close) * (1 + wick),
+      low: Math.min(open, close) * (1 - wick),
+      close,
+      volume: reference.price * 1000 * (0.5 + seededRandom(seed ^ (bucket * 7 + 2))),
+    });
+    close = open;
   }
+  return candles.reverse();
+};
 
-  async getStockPrice(symbol: string): Promise<MarketData> {
-    // Using Alpha Vantage or similar service would be better
-    // For now, using static data with small random variations
-    const staticData: { [key: string]: MarketData } = {
-      'AAPL': { symbol: 'AAPL', price: 189.45, change: 2.30, changePercent: 1.23, high24h: 190.20, low24h: 188.50, volume: 0, timestamp: Date.now() },
-      'TSLA': { symbol: 'TSLA', price: 245.67, change: -5.89, changePercent: -2.34, high24h: 252.00, low24h: 244.50, volume: 0, timestamp: Date.now() },
-      'AMZN': { symbol: 'AMZN', price: 145.67, change: 1.28, changePercent: 0.89, high24h: 146.50, low24h: 144.80, volume: 0, timestamp: Date.now() },
-      'GOOGL': { symbol: 'GOOGL', price: 138.90, change: 1.98, changePercent: 1.45, high24h: 139.50, low24h: 137.80, volume: 0, timestamp: Date.now() },
-      'MSFT': { symbol: 'MSFT', price: 378.45, change: 2.52, changePercent: 0.67, high24h: 380.00, low24h: 377.00, volume: 0, timestamp: Date.now() }
-    };
+// ===============================
+// SERVICE
+// ===============================
+
+interface ProviderState {
+  healthy: boolean;
+  rateLimited: boolean;
+  lastError: string | null;
+  retryAt: number; // an unhealthy provider is skipped until then
+}
+
+export class MarketDataService {
+  private providers: MarketDataProvider[];
+  private state = new Map<MarketDataProvider, ProviderState>();
+  private cache = new Map<string, { data: MarketData; timestamp: number }>();
+  private candleCache = new Map<string, { data: CandleSeries; timestamp: number }>();
+  private CACHE_DURATION = 30000; // 30 seconds
+  private UNHEALTHY_COOLDOWN = 60000;
 
-    const data = staticData[symbol];
-    if (!data) {
-      throw new Error(`Unknown stock symbol: ${symbol}`);
+  // Providers are tried in the given order for each asset class
+  constructor(providers: MarketDataProvider[]) {
+    this.providers = providers;
+    providers.forEach(provider => this.markSuccess(provider));
+  }
+
+  private cacheKey(assetClass: AssetClass, symbol: string): string {
+    return `${assetClass}-${symbol}`;
+  }
+
+  private isAvailable(provider: MarketDataProvider): boolean {
+    const state = this.state.get(provider)!;
+    return state.healthy || Date.now() >= state.retryAt;
+  }
+
+  private markFailure(provider: MarketDataProvider, error: unknown): void {
+    const rateLimited = error instanceof RateLimitError;
+    this.state.set(provider, {
+      healthy: false,
+      rateLimited,
+      lastError: error instanceof Error ? error.message : String(error),
+      retryAt: Date.now() + (rateLimited ? error.retryAfter : this.UNHEALTHY_COOLDOWN),
+    });
+  }
+
+  private markSuccess(provider: MarketDataProvider): void {
+    this.state.set(provider, { healthy: true, rateLimited: false, lastError: null, retryAt: 0 });
+  }
+
+  async getQuotes(requests: QuoteRequest[]): Promise<Map<string, MarketData>> {
+    const results = new Map<string, MarketData>();
+    const now = Date.now();
+
+    // Fresh cache hits first
+    let pending = requests.filter(request => {
+      const cached = this.cache.get(this.cacheKey(request.assetClass, request.symbol));
+      if (cached && now - cached.timestamp < this.CACHE_DURATION) {
+        results.set(request.symbol, cached.data);
+        return false;
+      }
+      return true;
+    });
+
+    // Then each provider in failover order takes whatever it supports
+    for (const provider of this.providers) {
+      const wanted = pending.filter(r => r.assetClass === provider.assetClass && provider.supports(r.symbol));
+      if (wanted.length === 0 || !this.isAvailable(provider)) continue;
+
+      try {
+        const quotes = await provider.getQuotes(wanted.map(r => r.symbol));
+        this.markSuccess(provider);
+        quotes.forEach(quote => {
+          results.set(quote.symbol, quote);
+          this.cache.set(this.cacheKey(provider.assetClass, quote.symbol), { data: quote, timestamp: Date.now() });
+        });
+        pending = pending.filter(r => !results.has(r.symbol));
+      } catch (error) {
+        console.warn(`Market data from ${provider.name} unavailable:`, error);
+        this.markFailure(provider, error);
+      }
     }
 
-    // Add small random variation to simulate real-time updates
-    const variation = (Math.random() - 0.5) * 0.1;
+    // Whatever is left: an old quote if we ever had one, otherwise reference data
+    pending.forEach(request => {
+      const cached = this.cache.get(this.cacheKey(request.assetClass, request.symbol));
+      const fallback = cached ? { ...cached.data, freshness: 'cached' as const } : staticQuote(request);
+      if (fallback) results.set(request.symbol, fallback);
+    });
+
+    return results;
+  }
+
+  async getQuote(request: QuoteRequest): Promise<MarketData> {
+    const quote = (await this.getQuotes([request])).get(request.symbol);
+    if (!quote) {
+      throw new Error(`No market data for ${request.symbol}`);
+    }
+    return quote;
+  }
+
+  // History for one symbol. The first provider that has the symbol and an interval at least as fine
+  // as the range needs wins; otherwise old candles, otherwise simulated ones.
+  async getCandles(request: QuoteRequest, interval: CandleInterval, range: ChartRange): Promise<CandleSeries> {
+    const key = `${this.cacheKey(request.assetClass, request.symbol)}-${interval}-${range}`;
+    const cached = this.candleCache.get(key);
+    // Short ranges move fast; a day of daily candles doesn't
+    const maxAge = Math.max(this.CACHE_DURATION, INTERVAL_MS[interval]);
+    if (cached && Date.now() - cached.timestamp < maxAge) {
+      return cached.data;
+    }
+
+    for (const provider of this.providers) {
+      if (
+        provider.assetClass !== request.assetClass
+        || !provider.getCandles
+        || !provider.supports(request.symbol)
+        || !this.isAvailable(provider)
+      ) continue;
+
+      // Fall back to the provider's next coarser interval, as long as the range still gets a few candles
+      const served = provider.candleIntervals?.find(
+        candidate => INTERVAL_MS[candidate] >= INTERVAL_MS[interval] && RANGE_MS[range] / INTERVAL_MS[candidate] >= 2
+      );
+      if (!served) continue;
+
+      try {
+        const candles = await provider.getCandles(request.symbol, served, range);
+        this.markSuccess(provider);
+        if (candles.length < 2) continue;
+
+        const series: CandleSeries = {
+          symbol: request.symbol,
+          interval: served,
+          range,
+          candles,
+          source: provider.name,
+          freshness: 'live',
+        };
+        this.candleCache.set(key, { data: series, timestamp: Date.now() });
+        return series;
+      } catch (error) {
+        console.warn(`Candles from ${provider.name} unavailable:`, error);
+        this.markFailure(provider, error);
+      }
+    }
+
+    if (cached) {
+      return { ...cached.data, freshness: 'cached' };
+    }
     return {
-      ...data,
-      price: Number((data.price * (1 + variation)).toFixed(2)),
-      change: Number((data.change * (1 + variation)).toFixed(2)),
-      changePercent: Number((data.changePercent * (1 + variation)).toFixed(2)),
-      timestamp: Date.now()
+      symbol: request.symbol,
+      interval,
+      range,
+      candles: staticCandles(request, interval, range),
+      source: 'Simulated',
+      freshness: 'static',
     };
   }
+
+  async checkHealth(): Promise<ProviderStatus[]> {
+    await Promise.all(this.providers.map(async provider => {
+      try {
+        if (await provider.healthCheck()) {
+          this.markSuccess(provider);
+        } else {
+          this.markFailure(provider, new Error('Not configured'));
+        }
+      } catch (error) {
+        this.markFailure(provider, error);
+      }
+    }));
+    return this.getProviderStatus();
+  }
+
+  getProviderStatus(): ProviderStatus[] {
+    return this.providers.map(provider => {
+      const state = this.state.get(provider)!;
+      return {
+        name: provider.name,
+        assetClass: provider.assetClass,
+        healthy: state.healthy,
+        rateLimitedUntil: state.rateLimited && state.retryAt > Date.now() ? state.retryAt : null,
+        lastError: state.lastError,
+      };
+    });
+  }
 }
 
-export const marketDataService = new MarketDataService();
\ No newline at end of file
+export const marketDataService = new MarketDataService([
+  new CoinGeckoProvider(),
+  new BinanceProvider(),
+  new FrankfurterProvider(),
+  new FinnhubProvider(import.meta.env.VITE_FINNHUB_API_KEY),
+]);
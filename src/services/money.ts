@@ -0,0 +1,113 @@
+// services/money.ts - Amounts tagged with their currency, and conversion between them
+import { BASE_CURRENCY } from './exchangeRates';
+
+// Every amount from the backend (balances, prices, investments) is in KES. Anything else
+// only exists for display or comes from user input, and carries its currency with it.
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export const money = (amount: number, currency: string): Money => ({ amount, currency });
+
+export const kes = (amount: number): Money => money(amount, BASE_CURRENCY);
+
+export class CurrencyConversionError extends Error {
+  currency: string;
+
+  constructor(currency: string) {
+    super(`No exchange rate for ${currency}`);
+    this.name = 'CurrencyConversionError';
+    this.currency = currency;
+  }
+}
+
+// Converts using rates quoted as units of each currency per 1 KES
+export class CurrencyConverter {
+  private rates: Record<string, number>;
+
+  constructor(rates: Record<string, number>) {
+    this.rates = rates;
+  }
+
+  private rateFor(currency: string): number {
+    if (currency === BASE_CURRENCY) return 1;
+    const rate = this.rates[currency];
+    // A missing rate must never turn into a NaN amount that reaches the API
+    if (!(rate > 0)) throw new CurrencyConversionError(currency);
+    return rate;
+  }
+
+  convert(value: Money, to: string): Money {
+    if (value.currency === to) return value;
+    const amountKes = value.amount / this.rateFor(value.currency);
+    return money(amountKes * this.rateFor(to), to);
+  }
+
+  toBase(value: Money): Money {
+    return this.convert(value, BASE_CURRENCY);
+  }
+
+  canConvert(currency: string): boolean {
+    return currency === BASE_CURRENCY || this.rates[currency] > 0;
+  }
+}
+
+// ===== FORMATTING =====
+
+export interface MoneyFormatOptions {
+  signed?: boolean; // always show + or −, for profit and loss
+  compact?: boolean; // 1.2M style for large figures on dashboards
+}
+
+// Below this, compact notation would only hide digits people want to see
+const COMPACT_THRESHOLD = 100_000;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Building a NumberFormat is slow relative to using one, and lists format hundreds of amounts
+const getFormatter = (locale: string | undefined, options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const key = JSON.stringify([locale, options]);
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+// `decimals` is the currency's minor-unit precision, e.g. 0 for UGX
+export const formatMoneyValue = (
+  value: Money,
+  decimals: number,
+  locale?: string,
+  options: MoneyFormatOptions = {}
+): string => {
+  const compact = !!options.compact && Math.abs(value.amount) >= COMPACT_THRESHOLD;
+  return getFormatter(locale, {
+    style: 'currency',
+    currency: value.currency,
+    currencyDisplay: 'narrowSymbol',
+    notation: compact ? 'compact' : 'standard',
+    minimumFractionDigits: compact ? 0 : decimals,
+    maximumFractionDigits: compact ? 1 : decimals,
+    signDisplay: options.signed ? 'exceptZero' : 'auto',
+  }).format(value.amount);
+};
+
+// `value` is already a percentage, e.g. 2.5 for 2.5%
+export const formatPercentValue = (value: number, locale?: string, options: { signed?: boolean } = {}): string =>
+  getFormatter(locale, {
+    style: 'percent',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    signDisplay: options.signed ? 'exceptZero' : 'auto',
+  }).format(value / 100);
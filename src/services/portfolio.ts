@@ -0,0 +1,179 @@
+// services/portfolio.ts - Portfolio totals and analytics over the user's investments
+import type { PortfolioSnapshot, UserInvestment } from './api';
+
+// Open positions still carry market risk; closed ones have turned their P&L into cash
+const isOpen = (investment: UserInvestment): boolean => investment.status !== 'closed';
+
+export interface PortfolioTotals {
+  invested: number; // KES in open positions
+  currentValue: number;
+  profitLoss: number; // currentValue - invested, same as unrealizedProfitLoss
+  profitLossPercentage: number;
+  unrealizedProfitLoss: number;
+  realizedProfitLoss: number; // from closed positions
+  gains: number; // sum of the open positions that are up
+  losses: number; // sum of the open positions that are down, negative
+  openPositions: number;
+}
+
+export const portfolioTotals = (investments: UserInvestment[]): PortfolioTotals => {
+  const totals: PortfolioTotals = {
+    invested: 0,
+    currentValue: 0,
+    profitLoss: 0,
+    profitLossPercentage: 0,
+    unrealizedProfitLoss: 0,
+    realizedProfitLoss: 0,
+    gains: 0,
+    losses: 0,
+    openPositions: 0,
+  };
+
+  investments.forEach(investment => {
+    if (!isOpen(investment)) {
+      totals.realizedProfitLoss += investment.profit_loss;
+      return;
+    }
+    totals.openPositions++;
+    totals.invested += investment.invested_amount;
+    totals.currentValue += investment.current_value;
+    if (investment.profit_loss > 0) {
+      totals.gains += investment.profit_loss;
+    } else {
+      totals.losses += investment.profit_loss;
+    }
+  });
+
+  totals.unrealizedProfitLoss = totals.currentValue - totals.invested;
+  totals.profitLoss = totals.unrealizedProfitLoss;
+  totals.profitLossPercentage = totals.invested > 0 ? (totals.profitLoss / totals.invested) * 100 : 0;
+  return totals;
+};
+
+// ===============================
+// ALLOCATION
+// ===============================
+
+// A type rather than an interface so recharts accepts it as chart data
+export type AllocationSlice = {
+  key: string;
+  label: string;
+  value: number;
+  share: number; // percent of the open portfolio's value
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  crypto: 'Crypto',
+  forex: 'Forex & Futures',
+  stock: 'Stocks',
+  other: 'Other',
+};
+
+const toSlices = (values: Map<string, { label: string; value: number }>): AllocationSlice[] => {
+  const total = [...values.values()].reduce((sum, entry) => sum + entry.value, 0);
+  return [...values.entries()]
+    .map(([key, { label, value }]) => ({ key, label, value, share: total > 0 ? (value / total) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+// Investments only carry an asset id, so the caller supplies each asset's type
+export const allocationByType = (investments: UserInvestment[], assetTypes: Record<string, string>): AllocationSlice[] => {
+  const values = new Map<string, { label: string; value: number }>();
+  investments.filter(isOpen).forEach(investment => {
+    const type = Object.hasOwn(TYPE_LABELS, assetTypes[investment.asset_id]) ? assetTypes[investment.asset_id] : 'other';
+    const entry = values.get(type) ?? { label: TYPE_LABELS[type], value: 0 };
+    entry.value += investment.current_value;
+    values.set(type, entry);
+  });
+  return toSlices(values);
+};
+
+// Several positions in the same asset count as one holding
+export const allocationByAsset = (investments: UserInvestment[]): AllocationSlice[] => {
+  const values = new Map<string, { label: string; value: number }>();
+  investments.filter(isOpen).forEach(investment => {
+    const entry = values.get(investment.asset_id) ?? { label: investment.asset_name, value: 0 };
+    entry.value += investment.current_value;
+    values.set(investment.asset_id, entry);
+  });
+  return toSlices(values);
+};
+
+// ===============================
+// PERFORMANCE
+// ===============================
+
+export type PortfolioPeriod = '1W' | '1M' | '3M' | '1Y' | 'ALL';
+
+export const PERIOD_DAYS: Record<PortfolioPeriod, number | null> = {
+  '1W': 7,
+  '1M': 30,
+  '3M': 90,
+  '1Y': 365,
+  ALL: null,
+};
+
+// Chains each snapshot's return with the money moved into or out of positions taken away,
+// so opening a position from wallet cash doesn't read as a gain, nor closing one as a loss.
+// Flows are taken to land at the end of their sub-period. Returns a percentage, or null
+// with too little history.
+export const timeWeightedReturn = (snapshots: PortfolioSnapshot[]): number | null => {
+  let growth = 1;
+  let periods = 0;
+  for (let i = 1; i < snapshots.length; i++) {
+    const start = snapshots[i - 1].value;
+    if (start <= 0) continue; // nothing was invested, so there's no return to measure
+    growth *= (snapshots[i].value - snapshots[i].net_flow) / start;
+    periods++;
+  }
+  return periods > 0 ? (growth - 1) * 100 : null;
+};
+
+export interface RankedPosition {
+  investment: UserInvestment;
+  returnPercentage: number;
+}
+
+export const bestAndWorstPositions = (investments: UserInvestment[], count = 3): { best: RankedPosition[]; worst: RankedPosition[] } => {
+  const ranked = investments
+    .filter(isOpen)
+    .map(investment => ({ investment, returnPercentage: investment.profit_loss_percentage }))
+    .sort((a, b) => b.returnPercentage - a.returnPercentage);
+  const best = ranked.slice(0, count).filter(position => position.returnPercentage > 0);
+  const worst = ranked.slice(-count).reverse().filter(position => position.returnPercentage < 0);
+  return { best, worst };
+};
+
+// ===============================
+// RISK
+// ===============================
+
+export const CONCENTRATION_LIMITS = {
+  asset: 25, // percent of the portfolio in any one asset
+  type: 60, // percent in any one asset type
+};
+
+export interface ConcentrationWarning {
+  kind: 'asset' | 'type';
+  label: string;
+  share: number;
+}
+
+export const concentrationWarnings = (byAsset: AllocationSlice[], byType: AllocationSlice[]): ConcentrationWarning[] => {
+  // A single holding is 100% of itself; warning about that tells nobody anything
+  if (byAsset.length < 2) return [];
+  return [
+    ...byAsset
+      .filter(slice => slice.share > CONCENTRATION_LIMITS.asset)
+      .map(slice => ({ kind: 'asset' as const, label: slice.label, share: slice.share })),
+    ...byType
+      .filter(slice => slice.share > CONCENTRATION_LIMITS.type)
+      .map(slice => ({ kind: 'type' as const, label: slice.label, share: slice.share })),
+  ];
+};
+
+// How many equal-sized holdings the portfolio behaves like (inverse Herfindahl index)
+export const effectiveHoldings = (byAsset: AllocationSlice[]): number => {
+  const sumOfSquares = byAsset.reduce((sum, slice) => sum + (slice.share / 100) ** 2, 0);
+  return sumOfSquares > 0 ? 1 / sumOfSquares : 0;
+};
@@ -0,0 +1,38 @@
+// services/priceAlerts.ts - When a price alert fires, and how to describe it
+import type { PriceAlert, PriceAlertCondition } from './api';
+
+export const isAlertTriggered = (alert: Pick<PriceAlert, 'condition' | 'target' | 'reference_price'>, price: number): boolean => {
+  switch (alert.condition) {
+    case 'above':
+      return price >= alert.target;
+    case 'below':
+      return price <= alert.target;
+    case 'change_percent':
+      return alert.reference_price > 0
+        && (Math.abs(price - alert.reference_price) / alert.reference_price) * 100 >= alert.target;
+  }
+};
+
+// Asset prices are quoted in USD, with more places for the small ones
+export const formatAssetPrice = (price: number): string =>
+  `$${price.toLocaleString(undefined, { maximumFractionDigits: price < 10 ? 4 : 2 })}`;
+
+export const CONDITION_LABELS: Record<PriceAlertCondition, string> = {
+  above: 'Rises above',
+  below: 'Falls below',
+  change_percent: 'Moves by',
+};
+
+export const describeAlert = (alert: Pick<PriceAlert, 'symbol' | 'condition' | 'target'>): string => {
+  const target = alert.condition === 'change_percent' ? `${alert.target}%` : formatAssetPrice(alert.target);
+  return `${alert.symbol} ${CONDITION_LABELS[alert.condition].toLowerCase()} ${target}`;
+};
+
+// Why a new alert can't be saved, or null if it can
+export const validateAlert = (condition: PriceAlertCondition, target: number, currentPrice: number): string | null => {
+  if (!(target > 0)) return 'Enter a value greater than zero';
+  if (condition === 'above' && target <= currentPrice) return `Must be above the current price of ${formatAssetPrice(currentPrice)}`;
+  if (condition === 'below' && target >= currentPrice) return `Must be below the current price of ${formatAssetPrice(currentPrice)}`;
+  if (condition === 'change_percent' && target > 100) return 'Use a change of 100% or less';
+  return null;
+};
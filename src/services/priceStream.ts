@@ -0,0 +1,403 @@
+// services/priceStream.ts - One shared connection for live price ticks and P&L, over whichever transport works
+import { apiService, ApiError, type PnLData, type PriceStreamMessage } from './api';
+
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  changePercent: number;
+  timestamp: number;
+  source: string;
+}
+
+export type StreamTransport = 'websocket' | 'sse' | 'polling';
+
+// 'idle': nobody is subscribed, so there's no connection
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+type TickListener = (tick: PriceTick) => void;
+type PnLListener = (pnl: PnLData) => void;
+type StatusListener = (status: StreamStatus, transport: StreamTransport) => void;
+
+interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: PriceStreamMessage) => void;
+  onClose: (wasOpen: boolean) => void;
+}
+
+interface Connection {
+  updateSymbols(symbols: string[]): void;
+  close(): void;
+}
+
+// Tried in this order; a transport that never opens twice in a row is given up on
+const TRANSPORTS: StreamTransport[] = ['websocket', 'sse', 'polling'];
+const FAILURES_BEFORE_FALLBACK = 2;
+const BACKOFF_BASE = 1000;
+const BACKOFF_MAX = 30000;
+
+const parseMessage = (data: string): PriceStreamMessage | null => {
+  try {
+    return JSON.parse(data) as PriceStreamMessage;
+  } catch {
+    console.warn('Ignoring malformed price stream message:', data);
+    return null;
+  }
+};
+
+// Tickets are single-use and short-lived, so every socket or EventSource asks for its own.
+// Signed-out visitors connect without one and only get public prices.
+const streamUrl = async (path: string, params: Record<string, string> = {}): Promise<string> => {
+  const ticket = apiService.isAuthenticated() ? (await apiService.createStreamTicket()).ticket : null;
+  return apiService.getStreamUrl(path, ticket ? { ...params, ticket } : params);
+};
+
+// ===============================
+// TRANSPORTS
+// ===============================
+
+const openWebSocket = (symbols: string[], handlers: TransportHandlers): Connection => {
+  let socket: WebSocket | null = null;
+  let current = symbols;
+  let opened = false;
+  let closed = false;
+
+  const send = (type: 'subscribe' | 'unsubscribe', list: string[]) => {
+    if (list.length > 0 && socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type, symbols: list }));
+    }
+  };
+
+  streamUrl('/api/stream/ws').then(url => {
+    if (closed) return;
+    socket = new WebSocket(url.replace(/^http/, 'ws'));
+    socket.onopen = () => {
+      opened = true;
+      send('subscribe', current);
+      handlers.onOpen();
+    };
+    socket.onmessage = event => {
+      const message = parseMessage(event.data);
+      if (message) handlers.onMessage(message);
+    };
+    socket.onclose = () => handlers.onClose(opened);
+  }, () => {
+    // No ticket counts as a connection that never opened
+    if (!closed) handlers.onClose(false);
+  });
+
+  return {
+    updateSymbols(next) {
+      send('unsubscribe', current.filter(s => !next.includes(s)));
+      send('subscribe', next.filter(s => !current.includes(s)));
+      current = next;
+    },
+    close() {
+      closed = true;
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+    },
+  };
+};
+
+// EventSource can't change what it asked for, so a new symbol list means a new request
+const openEventSource = (symbols: string[], handlers: TransportHandlers): Connection => {
+  let source: EventSource | null = null;
+  let opened = false;
+  let generation = 0; // a newer start() or close() wins over a ticket still being fetched
+
+  const start = (list: string[]) => {
+    const id = ++generation;
+    streamUrl('/api/stream/sse', { symbols: list.join(',') }).then(url => {
+      if (id !== generation) return;
+      const next = new EventSource(url);
+      next.onopen = () => {
+        if (!opened) {
+          opened = true;
+          handlers.onOpen();
+        }
+      };
+      next.onmessage = event => {
+        const message = parseMessage(event.data);
+        if (message) handlers.onMessage(message);
+      };
+      // EventSource retries on its own at a fixed rate; we want our backoff and fallback instead
+      next.onerror = () => {
+        next.close();
+        handlers.onClose(opened);
+      };
+      source = next;
+    }, () => {
+      if (id === generation) handlers.onClose(opened);
+    });
+  };
+
+  const stop = () => {
+    generation++;
+    if (source) {
+      source.onerror = null;
+      source.close();
+      source = null;
+    }
+  };
+
+  start(symbols);
+  return {
+    updateSymbols(next) {
+      stop();
+      start(next);
+    },
+    close: stop,
+  };
+};
+
+const openLongPoll = (symbols: string[], handlers: TransportHandlers): Connection => {
+  let current = symbols;
+  let cursor: string | null = null;
+  let closed = false;
+  let opened = false;
+  let request: AbortController | null = null;
+
+  const loop = async () => {
+    while (!closed) {
+      request = new AbortController();
+      try {
+        const response = await apiService.pollPriceStream(current, cursor, { signal: request.signal });
+        if (!opened) {
+          opened = true;
+          handlers.onOpen();
+        }
+        cursor = response.cursor;
+        response.messages.forEach(handlers.onMessage);
+      } catch (error) {
+        // Aborted to pick up a new symbol list: just poll again
+        if (closed || (error instanceof ApiError && error.code === 'ABORTED')) continue;
+        handlers.onClose(opened);
+        return;
+      }
+    }
+  };
+
+  loop();
+  return {
+    updateSymbols(next) {
+      current = next;
+      request?.abort();
+    },
+    close() {
+      closed = true;
+      request?.abort();
+    },
+  };
+};
+
+const OPENERS: Record<StreamTransport, (symbols: string[], handlers: TransportHandlers) => Connection> = {
+  websocket: openWebSocket,
+  sse: openEventSource,
+  polling: openLongPoll,
+};
+
+// ===============================
+// CLIENT
+// ===============================
+
+export class PriceStreamClient {
+  private tickListeners = new Map<string, Set<TickListener>>();
+  private pnlListeners = new Set<PnLListener>();
+  private statusListeners = new Set<StatusListener>();
+  private latestTicks = new Map<string, PriceTick>();
+  private latestPnL: PnLData | null = null;
+
+  private connection: Connection | null = null;
+  private connectionId = 0; // events from a connection we've replaced are ignored
+  private transportIndex = 0;
+  private failures = 0; // consecutive attempts on this transport that never opened
+  private attempt = 0; // reconnects since the last successful open, for backoff
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private status: StreamStatus = 'idle';
+
+  constructor() {
+    // Back online: start again from the best transport, without waiting out the backoff
+    window.addEventListener('online', () => {
+      this.transportIndex = 0;
+      this.failures = 0;
+      this.attempt = 0;
+      if (this.hasSubscribers()) this.reconnect();
+    });
+    // The connection was authorised for the old session; a new token or signing out needs a new one
+    apiService.onSessionChange(() => {
+      if (this.hasSubscribers()) this.reconnect();
+    });
+  }
+
+  subscribe(symbol: string, listener: TickListener): () => void {
+    const listeners = this.tickListeners.get(symbol);
+    if (listeners) {
+      listeners.add(listener);
+    } else {
+      this.tickListeners.set(symbol, new Set([listener]));
+      this.syncSymbols();
+    }
+
+    return () => {
+      const remaining = this.tickListeners.get(symbol);
+      if (!remaining) return;
+      remaining.delete(listener);
+      if (remaining.size === 0) {
+        this.tickListeners.delete(symbol);
+        this.syncSymbols();
+      }
+    };
+  }
+
+  subscribePnL(listener: PnLListener): () => void {
+    this.pnlListeners.add(listener);
+    if (!this.connection && !this.reconnectTimer) this.connect();
+    return () => {
+      this.pnlListeners.delete(listener);
+      if (!this.hasSubscribers()) this.disconnect();
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getLatest(symbol: string): PriceTick | null {
+    return this.latestTicks.get(symbol) || null;
+  }
+
+  // A current price for one symbol: the latest tick if it's recent, otherwise the next one
+  // to arrive within `timeout` ms, or null if none does
+  waitForPrice(symbol: string, timeout = 10000): Promise<PriceTick | null> {
+    const latest = this.getLatest(symbol);
+    if (latest && Date.now() - latest.timestamp < timeout) return Promise.resolve(latest);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(null);
+      }, timeout);
+      const unsubscribe = this.subscribe(symbol, tick => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(tick);
+      });
+    });
+  }
+
+  getLatestPnL(): PnLData | null {
+    return this.latestPnL;
+  }
+
+  getStatus(): { status: StreamStatus; transport: StreamTransport } {
+    return { status: this.status, transport: TRANSPORTS[this.transportIndex] };
+  }
+
+  private hasSubscribers(): boolean {
+    return this.tickListeners.size > 0 || this.pnlListeners.size > 0;
+  }
+
+  private setStatus(status: StreamStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status, TRANSPORTS[this.transportIndex]));
+  }
+
+  private syncSymbols(): void {
+    if (!this.hasSubscribers()) {
+      this.disconnect();
+    } else if (this.connection) {
+      this.connection.updateSymbols([...this.tickListeners.keys()]);
+    } else if (!this.reconnectTimer) {
+      this.connect();
+    }
+    // While waiting to reconnect, the next connection picks up the current symbols
+  }
+
+  private connect(): void {
+    this.reconnectTimer = null;
+    const id = ++this.connectionId;
+    const transport = TRANSPORTS[this.transportIndex];
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+    this.connection = OPENERS[transport]([...this.tickListeners.keys()], {
+      onOpen: () => {
+        if (id !== this.connectionId) return;
+        this.failures = 0;
+        this.attempt = 0;
+        this.setStatus('open');
+      },
+      onMessage: message => {
+        if (id === this.connectionId) this.dispatch(message);
+      },
+      onClose: wasOpen => {
+        if (id === this.connectionId) this.handleClose(wasOpen);
+      },
+    });
+  }
+
+  private handleClose(wasOpen: boolean): void {
+    this.connection = null;
+    if (!this.hasSubscribers()) {
+      this.setStatus('idle');
+      return;
+    }
+
+    if (!wasOpen && ++this.failures >= FAILURES_BEFORE_FALLBACK && this.transportIndex < TRANSPORTS.length - 1) {
+      this.transportIndex++;
+      this.failures = 0;
+      console.warn(`Price stream falling back to ${TRANSPORTS[this.transportIndex]}`);
+    }
+
+    // Exponential backoff with jitter, so a server restart isn't met by every client at once
+    const delay = Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** this.attempt) * (0.5 + Math.random() / 2);
+    this.attempt++;
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private reconnect(): void {
+    this.closeConnection();
+    this.connect();
+  }
+
+  private closeConnection(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.connectionId++;
+    this.connection?.close();
+    this.connection = null;
+  }
+
+  private disconnect(): void {
+    this.closeConnection();
+    this.attempt = 0;
+    this.setStatus('idle');
+  }
+
+  private dispatch(message: PriceStreamMessage): void {
+    if (message.type === 'tick') {
+      const tick: PriceTick = {
+        symbol: message.symbol,
+        price: message.price,
+        changePercent: message.change_percent,
+        timestamp: new Date(message.timestamp).getTime(),
+        source: message.source,
+      };
+      this.latestTicks.set(tick.symbol, tick);
+      this.tickListeners.get(tick.symbol)?.forEach(listener => listener(tick));
+    } else if (message.type === 'pnl') {
+      const { type: _type, ...pnl } = message;
+      this.latestPnL = pnl;
+      this.pnlListeners.forEach(listener => listener(pnl));
+    }
+  }
+}
+
+export const priceStream = new PriceStreamClient();
@@ -0,0 +1,57 @@
+// services/push.ts - Web Push subscription through the service worker in public/sw.js
+import { apiService } from './api';
+
+// 'disabled': supported and not blocked, but this browser isn't subscribed
+export type PushState = 'unsupported' | 'denied' | 'disabled' | 'enabled';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID keys come base64url encoded; the Push API wants the raw bytes
+const decodeKey = (base64Url: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+const getSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const getPushState = async (): Promise<PushState> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  return (await getSubscription()) ? 'enabled' : 'disabled';
+};
+
+export const enablePush = async (): Promise<PushState> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (await Notification.requestPermission() !== 'granted') {
+    return Notification.permission === 'denied' ? 'denied' : 'disabled';
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const { vapid_public_key } = await apiService.getPushConfig();
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeKey(vapid_public_key),
+  });
+  await apiService.savePushSubscription(subscription.toJSON());
+  return 'enabled';
+};
+
+export const disablePush = async (): Promise<PushState> => {
+  const subscription = await getSubscription();
+  if (subscription) {
+    // Tell the server first, so it stops sending even if unsubscribing locally fails
+    await apiService.deletePushSubscription(subscription.endpoint);
+    await subscription.unsubscribe();
+  }
+  return 'disabled';
+};
@@ -0,0 +1,314 @@
+// services/statement.ts - Builds account statements from activity and investment records
+import { format } from 'date-fns';
+import type { UserActivity, UserInvestment, Withdrawal, WithdrawalStatus } from './api';
+
+// Activity types that take money out of the wallet; everything else is a credit
+const DEBIT_ACTIVITY_TYPES = ['withdraw', 'investment'];
+
+export const isDebitActivity = (activity: UserActivity): boolean =>
+  DEBIT_ACTIVITY_TYPES.includes(activity.activity_type);
+
+// A withdrawal is held out of the balance from the moment it's requested and
+// handed back if it's rejected or cancelled, so both moments move the balance
+const RELEASED_WITHDRAWAL_STATUSES: WithdrawalStatus[] = ['rejected', 'cancelled'];
+
+interface BalanceMovement {
+  activity: UserActivity;
+  effect: number;
+  time: number;
+}
+
+const balanceMovements = (activities: UserActivity[], withdrawals: Withdrawal[]): BalanceMovement[] => {
+  const withdrawalIds = new Set(withdrawals.map(w => w.id));
+  const movements = activities.flatMap(activity => {
+    const time = new Date(activity.timestamp).getTime();
+    if (activity.activity_type === 'withdraw') {
+      // Without the request we can't tell when a failed one was handed back, so leave it out entirely
+      const known = !!activity.reference_id && withdrawalIds.has(activity.reference_id);
+      const released = ['failed', 'cancelled', 'rejected'].includes(activity.status);
+      return known || !released ? [{ activity, effect: -activity.amount, time }] : [];
+    }
+    // Everything else only moves the balance once completed
+    if (activity.status !== 'completed') return [];
+    return [{ activity, effect: isDebitActivity(activity) ? -activity.amount : activity.amount, time }];
+  });
+
+  withdrawals
+    .filter(w => RELEASED_WITHDRAWAL_STATUSES.includes(w.status))
+    .forEach(withdrawal => {
+      const releasedAt = withdrawal.history.find(change => change.status === withdrawal.status)?.at ?? withdrawal.updated_at;
+      movements.push({
+        activity: {
+          id: `${withdrawal.id}-release`,
+          user_phone: withdrawal.phone_number,
+          activity_type: 'withdraw',
+          amount: withdrawal.amount,
+          description: `Withdrawal ${withdrawal.status}, held amount returned`,
+          timestamp: releasedAt,
+          status: 'completed',
+          reference_id: withdrawal.id
+        },
+        effect: withdrawal.amount,
+        time: new Date(releasedAt).getTime()
+      });
+    });
+
+  return movements.sort((a, b) => a.time - b.time);
+};
+
+export interface StatementRow {
+  activity: UserActivity;
+  credit: number;
+  debit: number;
+  balance: number; // running balance after this entry
+}
+
+export interface StatementTypeTotal {
+  activity_type: string;
+  count: number;
+  total: number; // completed entries only
+}
+
+export interface Statement {
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  accountName: string;
+  accountPhone: string;
+  openingBalance: number;
+  closingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  rows: StatementRow[];
+  totals: StatementTypeTotal[];
+  investments: UserInvestment[];
+}
+
+interface BuildStatementInput {
+  from: Date;
+  to: Date;
+  accountName: string;
+  accountPhone: string;
+  currentBalance: number;
+  // Every activity from `from` until now, so the balance can be walked back from today's figure
+  activities: UserActivity[];
+  // All withdrawal requests, for when their held amounts were returned
+  withdrawals: Withdrawal[];
+  investments: UserInvestment[];
+}
+
+export const buildStatement = ({
+  from,
+  to,
+  accountName,
+  accountPhone,
+  currentBalance,
+  activities,
+  withdrawals,
+  investments
+}: BuildStatementInput): Statement => {
+  const isInRange = (time: number) => time >= from.getTime() && time <= to.getTime();
+  const inRange = activities
+    .filter(a => isInRange(new Date(a.timestamp).getTime()))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const movements = balanceMovements(activities, withdrawals);
+  const movementsInRange = movements.filter(m => isInRange(m.time));
+  const closingBalance = movements
+    .filter(m => m.time > to.getTime())
+    .reduce((balance, m) => balance - m.effect, currentBalance);
+  const openingBalance = movementsInRange.reduce((balance, m) => balance - m.effect, closingBalance);
+
+  // Entries that didn't move the balance are still listed, at their own time
+  const moved = new Set(movementsInRange.map(m => m.activity));
+  const listed = [
+    ...movementsInRange,
+    ...inRange
+      .filter(activity => !moved.has(activity))
+      .map(activity => ({ activity, effect: 0, time: new Date(activity.timestamp).getTime() }))
+  ].sort((a, b) => a.time - b.time);
+
+  let balance = openingBalance;
+  const rows = listed.map(({ activity, effect }) => {
+    balance += effect;
+    return {
+      activity,
+      credit: effect > 0 ? effect : 0,
+      debit: effect < 0 ? -effect : 0,
+      balance
+    };
+  });
+
+  const totalsByType = new Map<string, StatementTypeTotal>();
+  inRange.forEach(activity => {
+    const entry = totalsByType.get(activity.activity_type)
+      || { activity_type: activity.activity_type, count: 0, total: 0 };
+    entry.count++;
+    if (activity.status === 'completed') entry.total += activity.amount;
+    totalsByType.set(activity.activity_type, entry);
+  });
+
+  return {
+    from,
+    to,
+    generatedAt: new Date(),
+    accountName,
+    accountPhone,
+    openingBalance,
+    closingBalance,
+    totalCredits: rows.reduce((sum, row) => sum + row.credit, 0),
+    totalDebits: rows.reduce((sum, row) => sum + row.debit, 0),
+    rows,
+    totals: [...totalsByType.values()].sort((a, b) => a.activity_type.localeCompare(b.activity_type)),
+    // Positions opened by the end of the period
+    investments: investments.filter(i => new Date(i.created_at).getTime() <= to.getTime())
+  };
+};
+
+type FormatAmount = (amount: number) => string;
+
+const formatDate = (value: Date | string) => format(new Date(value), 'd MMM yyyy');
+const formatDateTime = (value: Date | string) => format(new Date(value), 'd MMM yyyy, HH:mm');
+
+export const statementFileName = (statement: Statement, extension: string): string =>
+  `pesaprime-statement-${format(statement.from, 'yyyyMMdd')}-${format(statement.to, 'yyyyMMdd')}.${extension}`;
+
+// ===== CSV =====
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (cells: (string | number)[]) => cells.map(csvCell).join(',');
+
+export const statementToCsv = (statement: Statement, formatAmount: FormatAmount): string => {
+  const lines = [
+    csvLine(['PesaPrime Capital account statement']),
+    csvLine(['Account', statement.accountName]),
+    csvLine(['Phone', statement.accountPhone]),
+    csvLine(['Period', `${formatDate(statement.from)} - ${formatDate(statement.to)}`]),
+    csvLine(['Generated', formatDateTime(statement.generatedAt)]),
+    csvLine(['Opening balance', formatAmount(statement.openingBalance)]),
+    csvLine(['Closing balance', formatAmount(statement.closingBalance)]),
+    '',
+    csvLine(['Date', 'Type', 'Description', 'Status', 'Reference', 'Credit', 'Debit', 'Balance']),
+    ...statement.rows.map(({ activity, credit, debit, balance }) => csvLine([
+      formatDateTime(activity.timestamp),
+      activity.activity_type,
+      activity.description,
+      activity.status,
+      activity.reference_id || activity.id,
+      credit ? formatAmount(credit) : '',
+      debit ? formatAmount(debit) : '',
+      formatAmount(balance)
+    ])),
+    '',
+    csvLine(['Type', 'Entries', 'Completed total']),
+    ...statement.totals.map(t => csvLine([t.activity_type, t.count, formatAmount(t.total)])),
+    csvLine(['Total credits', '', formatAmount(statement.totalCredits)]),
+    csvLine(['Total debits', '', formatAmount(statement.totalDebits)]),
+    '',
+    csvLine(['Investment', 'Opened', 'Invested', 'Current value', 'Profit/Loss', 'Status']),
+    ...statement.investments.map(i => csvLine([
+      i.asset_name,
+      formatDate(i.created_at),
+      formatAmount(i.invested_amount),
+      formatAmount(i.current_value),
+      formatAmount(i.profit_loss),
+      i.status
+    ]))
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+// ===== PRINTABLE HTML =====
+
+const escapeHtml = (value: string | number): string =>
+  String(value).replace(/[&<>"']/g, char => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+  }[char] as string));
+
+export const statementToHtml = (statement: Statement, formatAmount: FormatAmount): string => {
+  const rows = statement.rows.map(({ activity, credit, debit, balance }) => `
+    <tr>
+      <td>${escapeHtml(formatDateTime(activity.timestamp))}</td>
+      <td>${escapeHtml(activity.activity_type)}</td>
+      <td>${escapeHtml(activity.description)}${activity.status !== 'completed' ? ` <em>(${escapeHtml(activity.status)})</em>` : ''}</td>
+      <td class="num">${credit ? escapeHtml(formatAmount(credit)) : ''}</td>
+      <td class="num">${debit ? escapeHtml(formatAmount(debit)) : ''}</td>
+      <td class="num">${escapeHtml(formatAmount(balance))}</td>
+    </tr>`).join('');
+
+  const totals = statement.totals.map(t => `
+    <tr>
+      <td>${escapeHtml(t.activity_type)}</td>
+      <td class="num">${t.count}</td>
+      <td class="num">${escapeHtml(formatAmount(t.total))}</td>
+    </tr>`).join('');
+
+  const investments = statement.investments.map(i => `
+    <tr>
+      <td>${escapeHtml(i.asset_name)}</td>
+      <td>${escapeHtml(formatDate(i.created_at))}</td>
+      <td class="num">${escapeHtml(formatAmount(i.invested_amount))}</td>
+      <td class="num">${escapeHtml(formatAmount(i.current_value))}</td>
+      <td class="num">${escapeHtml(formatAmount(i.profit_loss))}</td>
+      <td>${escapeHtml(i.status)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(statementFileName(statement, 'pdf'))}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #111; margin: 32px; font-size: 12px; }
+    h1 { font-size: 20px; margin: 0 0 4px; color: #047857; }
+    h2 { font-size: 14px; margin: 24px 0 8px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    .num { text-align: right; white-space: nowrap; }
+    .summary td { border: none; padding: 2px 8px 2px 0; }
+    .muted { color: #6b7280; }
+    @page { margin: 16mm; }
+  </style>
+</head>
+<body>
+  <h1>PesaPrime Capital</h1>
+  <p class="muted">Account statement</p>
+  <table class="summary">
+    <tr><td>Account</td><td>${escapeHtml(statement.accountName)}</td></tr>
+    <tr><td>Phone</td><td>${escapeHtml(statement.accountPhone)}</td></tr>
+    <tr><td>Period</td><td>${escapeHtml(formatDate(statement.from))} – ${escapeHtml(formatDate(statement.to))}</td></tr>
+    <tr><td>Opening balance</td><td>${escapeHtml(formatAmount(statement.openingBalance))}</td></tr>
+    <tr><td>Closing balance</td><td><strong>${escapeHtml(formatAmount(statement.closingBalance))}</strong></td></tr>
+  </table>
+
+  <h2>Transactions</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Type</th><th>Description</th><th class="num">Credit</th><th class="num">Debit</th><th class="num">Balance</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="6" class="muted">No transactions in this period</td></tr>'}</tbody>
+  </table>
+
+  <h2>Totals by type</h2>
+  <table>
+    <thead><tr><th>Type</th><th class="num">Entries</th><th class="num">Completed total</th></tr></thead>
+    <tbody>${totals}</tbody>
+    <tfoot>
+      <tr><th>Total credits</th><th></th><th class="num">${escapeHtml(formatAmount(statement.totalCredits))}</th></tr>
+      <tr><th>Total debits</th><th></th><th class="num">${escapeHtml(formatAmount(statement.totalDebits))}</th></tr>
+    </tfoot>
+  </table>
+
+  <h2>Investments</h2>
+  <table>
+    <thead><tr><th>Asset</th><th>Opened</th><th class="num">Invested</th><th class="num">Current value</th><th class="num">Profit/Loss</th><th>Status</th></tr></thead>
+    <tbody>${investments || '<tr><td colspan="6" class="muted">No investments in this period</td></tr>'}</tbody>
+  </table>
+
+  <p class="muted" style="margin-top: 24px">Generated ${escapeHtml(formatDateTime(statement.generatedAt))}. Withdrawals are held from the balance when requested and returned if rejected or cancelled; other pending and failed entries are listed but do not affect the balance.</p>
+</body>
+</html>`;
+};